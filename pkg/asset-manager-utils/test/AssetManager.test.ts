@@ -12,6 +12,9 @@ import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { expectBalanceChange } from '@balancer-labs/v2-helpers/src/test/tokenBalance';
 import { GeneralPool } from '@balancer-labs/v2-helpers/src/models/vault/pools';
 import { encodeJoin } from '@balancer-labs/v2-helpers/src/models/pools/mockPool';
+import AssetManagerModel, {
+  TEST_ASSET_MANAGER_SHARE_PRICING,
+} from '@balancer-labs/v2-helpers/src/models/assetManager/AssetManager';
 
 const OVER_INVESTMENT_REVERT_REASON = 'investment amount exceeds target';
 const UNDER_INVESTMENT_REVERT_REASON = 'withdrawal leaves insufficient balance invested';
@@ -423,4 +426,94 @@ describe('Asset manager', function () {
       });
     });
   });
+
+  describe('off-chain model', () => {
+    let model: AssetManagerModel;
+    const poolConfig = { targetPercentage: fp(0.5), criticalPercentage: fp(0.1), feePercentage: fp(0.1) };
+
+    sharedBeforeEach('set pool config', async () => {
+      await assetManager.connect(lp).setPoolConfig(poolId, poolConfig);
+    });
+
+    beforeEach('create model', () => {
+      model = new AssetManagerModel(TEST_ASSET_MANAGER_SHARE_PRICING);
+      model.registerPool(poolId, tokenInitialBalance, poolConfig);
+    });
+
+    async function expectPoolBalancesToMatch(): Promise<void> {
+      const { cash, managed } = await vault.getPoolTokenInfo(poolId, tokens.DAI.address);
+      expect(model.getPoolTokenInfo(poolId)).to.deep.equal({ cash, managed });
+      expect(model.maxInvestableBalance(poolId)).to.equal(await assetManager.maxInvestableBalance(poolId));
+      expect(model.getRebalanceFee(poolId)).to.equal(await assetManager.getRebalanceFee(poolId));
+    }
+
+    it('predicts the balances after investing capital', async () => {
+      const amountToDeposit = amount.div(4);
+
+      model.capitalIn(poolId, amountToDeposit);
+      await assetManager.connect(lp).capitalIn(poolId, amountToDeposit);
+
+      await expectPoolBalancesToMatch();
+    });
+
+    it('predicts the balances and fee of a rebalance below the critical investment level', async () => {
+      const expectedFeeAmount = model.rebalance(poolId);
+
+      await expectBalanceChange(() => assetManager.connect(lp).rebalance(poolId), tokens, [
+        { account: lp.address, changes: { DAI: expectedFeeAmount } },
+      ]);
+
+      expect(expectedFeeAmount).to.be.gt(0);
+      await expectPoolBalancesToMatch();
+    });
+
+    it('predicts the balances after divesting capital with returns', async () => {
+      model.capitalIn(poolId, tokenInitialBalance.div(2));
+      await assetManager.connect(lp).capitalIn(poolId, tokenInitialBalance.div(2));
+
+      // Simulate a return on the asset manager's investment
+      const aum = tokenInitialBalance.div(2).mul(11).div(10);
+      model.setAUM(aum);
+      model.realizeGains();
+      model.updateBalanceOfPool(poolId);
+      await assetManager.connect(lp).setUnrealisedAUM(aum);
+      await assetManager.connect(lp).realizeGains();
+      await assetManager.connect(lp).updateBalanceOfPool(poolId);
+      await expectPoolBalancesToMatch();
+
+      const amountToWithdraw = model.maxInvestableBalance(poolId).mul(-1);
+      model.capitalOut(poolId, amountToWithdraw);
+      await assetManager.connect(lp).capitalOut(poolId, amountToWithdraw);
+
+      const { cash, managed } = await vault.getPoolTokenInfo(poolId, tokens.DAI.address);
+      expect(model.getPoolTokenInfo(poolId)).to.deep.equal({ cash, managed });
+    });
+
+    it('predicts the balances after investing twice and divesting', async () => {
+      const amountToDeposit = amount.div(4);
+
+      for (let i = 0; i < 2; i++) {
+        model.capitalIn(poolId, amountToDeposit);
+        await assetManager.connect(lp).capitalIn(poolId, amountToDeposit);
+        await expectPoolBalancesToMatch();
+      }
+
+      // Lowering the target leaves the pool over invested, so that capital can be divested
+      const config = { ...poolConfig, targetPercentage: fp(0.1), criticalPercentage: fp(0.05) };
+      model.setPoolConfig(poolId, config);
+      await assetManager.connect(lp).setPoolConfig(poolId, config);
+
+      const amountToWithdraw = model.maxInvestableBalance(poolId).mul(-1);
+      model.capitalOut(poolId, amountToWithdraw);
+      await assetManager.connect(lp).capitalOut(poolId, amountToWithdraw);
+
+      await expectPoolBalancesToMatch();
+      expect(model.totalSupply).to.equal(await assetManager.totalSupply());
+      expect(model.readAUM()).to.equal(await assetManager.readAUM());
+    });
+
+    it('reverts when investing over the target', async () => {
+      expect(() => model.capitalIn(poolId, tokenInitialBalance)).to.throw(OVER_INVESTMENT_REVERT_REASON);
+    });
+  });
 });
@@ -0,0 +1,45 @@
+// Hardhat can't be imported from its own config file, which reads the admin accounts from here, so the time helpers
+// can't be used either.
+const MONTH = 60 * 60 * 24 * 30;
+
+export type NetworkConfig = {
+  // Uses the TestWETH deployed by the migrations when missing
+  WETH?: string;
+  pauseWindowDuration: number;
+  bufferPeriodDuration: number;
+  // Either an address or the index of one of the network accounts
+  admin: string | number;
+  factories: string[];
+};
+
+const DEFAULT_FACTORIES = ['WeightedPoolFactory', 'WeightedPool2TokensFactory', 'StablePoolFactory'];
+
+const TESTNET: NetworkConfig = {
+  pauseWindowDuration: MONTH * 3,
+  bufferPeriodDuration: MONTH,
+  admin: 1,
+  factories: DEFAULT_FACTORIES,
+};
+
+const config: { [network: string]: NetworkConfig } = {
+  hardhat: TESTNET,
+  localhost: TESTNET,
+  mainnet: {
+    WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    pauseWindowDuration: MONTH * 3,
+    bufferPeriodDuration: MONTH,
+    admin: '0x10A19e7eE7d7F8a52822f6817de8ea18204F2e4f',
+    factories: DEFAULT_FACTORIES,
+  },
+  ropsten: TESTNET,
+  kovan: TESTNET,
+  rinkeby: { ...TESTNET, admin: '0x44DDF1D6292F36B25230a72aBdc7159D37d317Cf' },
+  goerli: TESTNET,
+  dockerParity: TESTNET,
+};
+
+export function getNetworkConfig(network: string): NetworkConfig {
+  const networkConfig = config[network];
+  if (!networkConfig) throw Error(`Missing deployment config for network ${network}`);
+  return networkConfig;
+}
@@ -6,11 +6,14 @@ import '@nomiclabs/hardhat-ethers';
 
 import { hardhatBaseConfig } from '@balancer-labs/v2-common';
 import { name } from './package.json';
+import { getNetworkConfig } from './config';
 
 import { task } from 'hardhat/config';
 import { TASK_DEPLOY } from 'hardhat-deploy';
 import { exec } from 'child_process';
 
+import checkDeployment from './tasks/checkDeployment';
+
 task(TASK_DEPLOY).setAction(async (_, hre, runSuper) => {
   // Hardhat deploy doesn't support loading artifacts from multiple locations, so we manually copy them here. However,
   // Hardhat compilation deletes old artifacts, so we need to do this _after_ compiling local contracts. The solution is
@@ -24,6 +27,19 @@ task(TASK_DEPLOY).setAction(async (_, hre, runSuper) => {
   return runSuper({ noCompile: true });
 });
 
+task('check-deployment', 'Checks that the contracts in the deployment outputs of a network are correctly wired')
+  .addParam('deployment', 'The network whose outputs to check, e.g. mainnet when running against a mainnet fork')
+  .setAction(async ({ deployment }: { deployment: string }, hre) => {
+    const mismatches = await checkDeployment(deployment, hre);
+
+    if (mismatches.length == 0) {
+      console.log(`All ${deployment} deployments match their migration parameters`);
+    } else {
+      console.log(JSON.stringify(mismatches, null, 2));
+      process.exitCode = 1;
+    }
+  });
+
 const CHAIN_IDS = {
   hardhat: 31337,
   kovan: 42,
@@ -93,14 +109,14 @@ export default {
       [CHAIN_IDS.dockerParity]: 0,
     },
     admin: {
-      default: 1, // here this will by default take the first account as deployer
+      default: getNetworkConfig('hardhat').admin,
       // We use explicit chain IDs so that export-all works correctly: https://github.com/wighawag/hardhat-deploy#options-2
-      [CHAIN_IDS.mainnet]: '0x10A19e7eE7d7F8a52822f6817de8ea18204F2e4f',
-      [CHAIN_IDS.kovan]: 1,
-      [CHAIN_IDS.ropsten]: 1,
-      [CHAIN_IDS.goerli]: 1,
-      [CHAIN_IDS.rinkeby]: '0x44DDF1D6292F36B25230a72aBdc7159D37d317Cf',
-      [CHAIN_IDS.dockerParity]: 1,
+      [CHAIN_IDS.mainnet]: getNetworkConfig('mainnet').admin,
+      [CHAIN_IDS.kovan]: getNetworkConfig('kovan').admin,
+      [CHAIN_IDS.ropsten]: getNetworkConfig('ropsten').admin,
+      [CHAIN_IDS.goerli]: getNetworkConfig('goerli').admin,
+      [CHAIN_IDS.rinkeby]: getNetworkConfig('rinkeby').admin,
+      [CHAIN_IDS.dockerParity]: getNetworkConfig('dockerParity').admin,
     },
   },
   solidity: {
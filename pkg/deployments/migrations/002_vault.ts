@@ -1,25 +1,18 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
-import { MONTH } from '@balancer-labs/v2-helpers/src/time';
+import { getNetworkConfig } from '../config';
 
 export default async function (hre: HardhatRuntimeEnvironment): Promise<void> {
-  const { deployments, getNamedAccounts, getChainId, tenderly } = hre;
+  const { deployments, getNamedAccounts, tenderly } = hre;
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
-  const chainId = await getChainId();
+  const { WETH, pauseWindowDuration, bufferPeriodDuration } = getNetworkConfig(hre.network.name);
 
   const authorizer = await deployments.get('Authorizer');
-  const THREE_MONTHS = MONTH * 3;
-  let WETH;
-
-  if (chainId == '1') {
-    WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
-  } else {
-    WETH = await (await deployments.get('TestWETH')).address;
-  }
+  const weth = WETH ?? (await deployments.get('TestWETH')).address;
 
   const vault = await deploy('Vault', {
     from: deployer,
-    args: [authorizer.address, WETH, THREE_MONTHS, MONTH],
+    args: [authorizer.address, weth, pauseWindowDuration, bufferPeriodDuration],
     log: true,
   });
 
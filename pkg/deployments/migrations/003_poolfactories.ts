@@ -1,36 +1,27 @@
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getNetworkConfig } from '../config';
 
 export default async function (hre: HardhatRuntimeEnvironment): Promise<void> {
   const { deployments, getNamedAccounts, tenderly } = hre;
   const { deploy } = deployments;
 
   const { deployer } = await getNamedAccounts();
+  const { factories } = getNetworkConfig(hre.network.name);
 
   const vault = await deployments.get('Vault');
 
-  const weightedFactory = await deploy('WeightedPoolFactory', {
-    from: deployer,
-    args: [vault.address],
-    log: true,
-  });
-
-  if (hre.network.live) {
-    await tenderly.push({
-      name: 'WeightedPoolFactory',
-      address: weightedFactory.address,
+  for (const name of factories) {
+    const factory = await deploy(name, {
+      from: deployer,
+      args: [vault.address],
+      log: true,
     });
-  }
 
-  const stableFactory = await deploy('StablePoolFactory', {
-    from: deployer,
-    args: [vault.address],
-    log: true,
-  });
-
-  if (hre.network.live) {
-    await tenderly.push({
-      name: 'StablePoolFactory',
-      address: stableFactory.address,
-    });
+    if (hre.network.live) {
+      await tenderly.push({
+        name,
+        address: factory.address,
+      });
+    }
   }
 }
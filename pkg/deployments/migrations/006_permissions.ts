@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { OWNER_ONLY_ACTIONS } from '@balancer-labs/v2-helpers/src/models/misc/actions';
+import { getNetworkConfig } from '../config';
+import { applyRoleChanges, getRoleChanges, groupByAccount, PermissionsManifest, PermissionsTarget } from '../roles';
+
+// Pools don't use their own address to compute their action IDs but the one of their factory, so the roles granted for
+// a pool target apply to every pool created by its factory. Pools only check the Authorizer for owner-only actions when
+// their owner is the delegate owner, so granting those roles has no effect on pools with an actual owner.
+const TARGETS: { [target: string]: { artifact: string; disambiguator: string; pool?: boolean } } = {
+  Vault: { artifact: 'Vault', disambiguator: 'Vault' },
+  ProtocolFeesCollector: { artifact: 'ProtocolFeesCollector', disambiguator: 'ProtocolFeesCollector' },
+  WeightedPool: { artifact: 'WeightedPool', disambiguator: 'WeightedPoolFactory', pool: true },
+  WeightedPool2Tokens: { artifact: 'WeightedPool2Tokens', disambiguator: 'WeightedPool2TokensFactory', pool: true },
+  StablePool: { artifact: 'StablePool', disambiguator: 'StablePoolFactory', pool: true },
+};
+
+// Networks whose role changes are only printed, to check the manifest of a network against a local deployment
+const DRY_RUN_NETWORKS = ['hardhat', 'localhost'];
+
+export default async function (hre: HardhatRuntimeEnvironment): Promise<void> {
+  const { deployments, getNamedAccounts } = hre;
+
+  const manifestPath = path.join(__dirname, '..', 'permissions', `${hre.network.name}.json`);
+  if (!fs.existsSync(manifestPath)) {
+    console.log(`No permissions manifest found for ${hre.network.name}, skipping`);
+    return;
+  }
+
+  const manifest: PermissionsManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  const namedAccounts = await getNamedAccounts();
+  const { admin } = namedAccounts;
+
+  const targets: { [target: string]: PermissionsTarget } = {};
+  for (const [target, methods] of Object.entries(manifest)) {
+    if (!TARGETS[target]) throw Error(`Unknown permissions target ${target}`);
+    const { artifact, disambiguator, pool } = TARGETS[target];
+
+    for (const method of Object.keys(methods).filter((method) => pool && OWNER_ONLY_ACTIONS.includes(method))) {
+      console.log(`${target}.${method} is owner-only: its role only applies to pools owned by the delegate owner`);
+    }
+
+    targets[target] = {
+      abi: (await deployments.getArtifact(artifact)).abi,
+      disambiguator:
+        disambiguator === 'ProtocolFeesCollector'
+          ? await deployments.read('Vault', 'getProtocolFeesCollector')
+          : (await deployments.get(disambiguator)).address,
+    };
+  }
+
+  const { address, abi } = await deployments.get('Authorizer');
+  const authorizer = await hre.ethers.getContractAt(abi, address);
+  const changes = await getRoleChanges(manifest, authorizer, targets, namedAccounts);
+  const { grants, revokes } = changes;
+
+  if (grants.length == 0 && revokes.length == 0) {
+    console.log('Permissions already match the manifest');
+    return;
+  }
+
+  for (const { target, method, account } of grants) console.log(`grant  ${target}.${method} to ${account}`);
+  for (const { target, method, account } of revokes) console.log(`revoke ${target}.${method} from ${account}`);
+
+  if (DRY_RUN_NETWORKS.includes(hre.network.name)) {
+    console.log(`Dry run on ${hre.network.name}, no roles were granted or revoked`);
+    return;
+  }
+
+  // Admins given as an address rather than as one of the network accounts, such as multisigs, can't be used to sign
+  // transactions here, so the calls they need to send are printed instead
+  if (typeof getNetworkConfig(hre.network.name).admin === 'string') {
+    for (const [account, roles] of Object.entries(groupByAccount(grants))) {
+      const data = authorizer.interface.encodeFunctionData('grantRoles', [roles, account]);
+      console.log(`${admin} must call ${authorizer.address} with ${data}`);
+    }
+
+    for (const [account, roles] of Object.entries(groupByAccount(revokes))) {
+      const data = authorizer.interface.encodeFunctionData('revokeRoles', [roles, account]);
+      console.log(`${admin} must call ${authorizer.address} with ${data}`);
+    }
+
+    return;
+  }
+
+  await applyRoleChanges(authorizer.connect(await hre.ethers.getSigner(admin)), changes);
+}
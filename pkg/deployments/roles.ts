@@ -0,0 +1,72 @@
+import { Contract, utils } from 'ethers';
+import { ABI } from 'hardhat-deploy/types';
+import { computeActionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
+
+// Accounts allowed to call each method of each target, given either as named accounts or addresses. Roles of the
+// methods listed here are granted to exactly these accounts, while the ones of unlisted methods are left untouched.
+export type PermissionsManifest = { [target: string]: { [method: string]: string[] } };
+
+// ABI of a manifest target and the address its action IDs are computed with
+export type PermissionsTarget = { abi: ABI; disambiguator: string };
+
+export type RoleChange = { target: string; method: string; actionId: string; account: string };
+
+export type RoleChanges = { grants: RoleChange[]; revokes: RoleChange[] };
+
+/**
+ * Compares the members of the roles listed in a manifest with the accounts the manifest allows, returning the roles
+ * that must be granted and revoked for the Authorizer to match it.
+ */
+export async function getRoleChanges(
+  manifest: PermissionsManifest,
+  authorizer: Contract,
+  targets: { [target: string]: PermissionsTarget },
+  namedAccounts: { [name: string]: string }
+): Promise<RoleChanges> {
+  const grants: RoleChange[] = [];
+  const revokes: RoleChange[] = [];
+
+  for (const [target, methods] of Object.entries(manifest)) {
+    if (!targets[target]) throw Error(`Unknown permissions target ${target}`);
+    const contractInterface = new utils.Interface(targets[target].abi);
+
+    for (const [method, accounts] of Object.entries(methods)) {
+      const actionId = computeActionId(targets[target].disambiguator, contractInterface.getSighash(method));
+      const expected = accounts.map((account) => utils.getAddress(namedAccounts[account] ?? account));
+
+      const members: string[] = [];
+      const count = await authorizer.getRoleMemberCount(actionId);
+      for (let i = 0; i < count.toNumber(); i++) members.push(await authorizer.getRoleMember(actionId, i));
+
+      for (const account of expected.filter((account) => !members.includes(account))) {
+        grants.push({ target, method, actionId, account });
+      }
+
+      for (const account of members.filter((member) => !expected.includes(member))) {
+        revokes.push({ target, method, actionId, account });
+      }
+    }
+  }
+
+  return { grants, revokes };
+}
+
+/**
+ * Grants and revokes the given roles, sending one transaction per account. The Authorizer must be connected to an
+ * account allowed to administer them.
+ */
+export async function applyRoleChanges(authorizer: Contract, { grants, revokes }: RoleChanges): Promise<void> {
+  for (const [account, roles] of Object.entries(groupByAccount(grants))) {
+    await (await authorizer.grantRoles(roles, account)).wait();
+  }
+
+  for (const [account, roles] of Object.entries(groupByAccount(revokes))) {
+    await (await authorizer.revokeRoles(roles, account)).wait();
+  }
+}
+
+export function groupByAccount(changes: RoleChange[]): { [account: string]: string[] } {
+  const roles: { [account: string]: string[] } = {};
+  for (const { account, actionId } of changes) roles[account] = [...(roles[account] ?? []), actionId];
+  return roles;
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, Contract } from 'ethers';
+import { Deployment } from 'hardhat-deploy/types';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import { getNetworkConfig } from '../config';
+
+export type Mismatch = { deployment: string; property: string; expected: string; actual: string };
+
+/**
+ * Checks that the contracts in the deployment outputs of a network, read from `output/<network>` by default, are wired
+ * as their migrations intended, querying them through the network the task is run against, usually a fork of that
+ * network or a localhost node. Expected values are taken from the network config and from the Authorizer and Vault
+ * deployments the other contracts must point to.
+ */
+export default async function checkDeployment(
+  network: string,
+  hre: HardhatRuntimeEnvironment,
+  outputs: { [name: string]: Deployment } = readOutputs(network)
+): Promise<Mismatch[]> {
+  const { WETH, pauseWindowDuration, bufferPeriodDuration, factories } = getNetworkConfig(network);
+  const mismatches: Mismatch[] = [];
+
+  // Missing outputs, as well as outputs with no code on the network being queried, are reported as mismatches, and the
+  // checks needing them are skipped
+  const get = (name: string, ...aliases: string[]): Deployment | undefined => {
+    const deployment = [name, ...aliases].map((alias) => outputs[alias]).find((output) => output !== undefined);
+    if (!deployment) {
+      mismatches.push({ deployment: name, property: 'address', expected: 'address', actual: 'undefined' });
+    }
+    return deployment;
+  };
+
+  const at = async (name: string): Promise<Contract | undefined> => {
+    const deployment = get(name);
+    if (!deployment) return undefined;
+
+    if ((await hre.ethers.provider.getCode(deployment.address)) === '0x') {
+      mismatches.push({ deployment: name, property: 'code', expected: 'contract', actual: 'undefined' });
+      return undefined;
+    }
+
+    return hre.ethers.getContractAt(deployment.abi, deployment.address);
+  };
+
+  const check = (deployment: string, property: string, expected: unknown, actual: unknown) => {
+    if (normalize(expected) !== normalize(actual)) {
+      mismatches.push({ deployment, property, expected: normalize(expected), actual: normalize(actual) });
+    }
+  };
+
+  // Older deployments named the TestWETH deployed by the migrations after the token it stands for
+  const authorizer = get('Authorizer');
+  const weth = WETH ?? get('TestWETH', 'WETH')?.address;
+
+  const vault = await at('Vault');
+  if (vault) {
+    if (authorizer) check('Vault', 'getAuthorizer()', authorizer.address, await vault.getAuthorizer());
+    if (weth) check('Vault', 'WETH()', weth, await vault.WETH());
+
+    const { pauseWindowEndTime, bufferPeriodEndTime } = await vault.getPausedState();
+    const deploymentTime = await getDeploymentTime(outputs.Vault, hre);
+    const expectedPauseWindowEndTime = BigNumber.from(deploymentTime).add(pauseWindowDuration);
+    check('Vault', 'pauseWindowEndTime', expectedPauseWindowEndTime, pauseWindowEndTime);
+    check('Vault', 'bufferPeriodEndTime', expectedPauseWindowEndTime.add(bufferPeriodDuration), bufferPeriodEndTime);
+  }
+
+  for (const name of factories) {
+    const factory = await at(name);
+    if (factory && vault) check(name, 'getVault()', vault.address, await factory.getVault());
+  }
+
+  const helpers = await at('BalancerHelpers');
+  if (helpers && vault) check('BalancerHelpers', 'vault', vault.address, await helpers.vault());
+
+  return mismatches;
+}
+
+function readOutputs(network: string): { [name: string]: Deployment } {
+  const directory = path.join(__dirname, '..', 'output', network);
+  if (!fs.existsSync(directory)) throw Error(`No deployment outputs found for ${network}`);
+
+  const outputs: { [name: string]: Deployment } = {};
+  for (const file of fs.readdirSync(directory).filter((file) => path.extname(file) === '.json')) {
+    outputs[path.basename(file, '.json')] = JSON.parse(fs.readFileSync(path.join(directory, file)).toString());
+  }
+
+  return outputs;
+}
+
+async function getDeploymentTime(deployment: Deployment, hre: HardhatRuntimeEnvironment): Promise<number> {
+  if (!deployment.receipt) throw Error(`Missing deployment receipt for ${deployment.address}`);
+  const block = await hre.ethers.provider.getBlock(deployment.receipt.blockNumber);
+  return block.timestamp;
+}
+
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return 'undefined';
+  if (BigNumber.isBigNumber(value) || typeof value === 'number') return BigNumber.from(value).toString();
+  return typeof value === 'string' ? value.toLowerCase() : String(value);
+}
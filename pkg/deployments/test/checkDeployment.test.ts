@@ -0,0 +1,134 @@
+import hre, { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { ContractFactory } from 'ethers';
+import { Deployment } from 'hardhat-deploy/types';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { getArtifact } from '@balancer-labs/v2-helpers/src/contract';
+import { MONTH } from '@balancer-labs/v2-helpers/src/time';
+
+import checkDeployment from '../tasks/checkDeployment';
+
+describe('checkDeployment', function () {
+  let deployer: SignerWithAddress, admin: SignerWithAddress, other: SignerWithAddress;
+  let outputs: { [name: string]: Deployment };
+
+  // The hardhat network config uses the TestWETH deployed by the migrations, with the testnet pause window and buffer
+  // period durations
+  const PAUSE_WINDOW_DURATION = MONTH * 3;
+  const BUFFER_PERIOD_DURATION = MONTH;
+
+  const FACTORIES = {
+    WeightedPoolFactory: 'v2-pool-weighted/WeightedPoolFactory',
+    WeightedPool2TokensFactory: 'v2-pool-weighted/WeightedPool2TokensFactory',
+    StablePoolFactory: 'v2-pool-stable/StablePoolFactory',
+  };
+
+  const deployOutput = async (contract: string, args: unknown[]): Promise<Deployment> => {
+    const { abi, bytecode } = await getArtifact(contract);
+    const instance = await new ContractFactory(abi, bytecode, deployer).deploy(...args);
+    return { address: instance.address, abi, args, receipt: await instance.deployTransaction.wait() };
+  };
+
+  before('setup signers', async () => {
+    [deployer, admin, other] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy contracts', async () => {
+    const authorizer = await deployOutput('v2-vault/Authorizer', [admin.address]);
+    const weth = await deployOutput('v2-standalone-utils/TestWETH', [deployer.address]);
+    const vaultArgs = [authorizer.address, weth.address, PAUSE_WINDOW_DURATION, BUFFER_PERIOD_DURATION];
+    const vault = await deployOutput('v2-vault/Vault', vaultArgs);
+
+    outputs = { Authorizer: authorizer, TestWETH: weth, Vault: vault };
+    for (const [name, contract] of Object.entries(FACTORIES))
+      outputs[name] = await deployOutput(contract, [vault.address]);
+    outputs.BalancerHelpers = await deployOutput('v2-standalone-utils/BalancerHelpers', [vault.address]);
+  });
+
+  it('reports no mismatches for a correctly wired deployment', async () => {
+    expect(await checkDeployment('hardhat', hre, outputs)).to.be.empty;
+  });
+
+  it('reports a vault using a different authorizer', async () => {
+    const authorizer = await deployOutput('v2-vault/Authorizer', [other.address]);
+
+    const mismatches = await checkDeployment('hardhat', hre, { ...outputs, Authorizer: authorizer });
+
+    expect(mismatches).to.deep.equal([
+      {
+        deployment: 'Vault',
+        property: 'getAuthorizer()',
+        expected: authorizer.address.toLowerCase(),
+        actual: outputs.Authorizer.address.toLowerCase(),
+      },
+    ]);
+  });
+
+  it('reports a vault with different pause window and buffer period durations', async () => {
+    const vaultArgs = [outputs.Authorizer.address, outputs.TestWETH.address, MONTH, MONTH];
+    const vault = await deployOutput('v2-vault/Vault', vaultArgs);
+
+    const mismatches = await checkDeployment('hardhat', hre, { ...outputs, Vault: vault });
+
+    expect(mismatches.map(({ deployment, property }) => `${deployment}.${property}`)).to.include.members([
+      'Vault.pauseWindowEndTime',
+      'Vault.bufferPeriodEndTime',
+    ]);
+  });
+
+  it('reports contracts pointing to a different vault', async () => {
+    const vault = outputs.Vault.address.toLowerCase();
+    const otherVault = await deployOutput('v2-vault/Vault', outputs.Vault.args ?? []);
+
+    const mismatches = await checkDeployment('hardhat', hre, { ...outputs, Vault: otherVault });
+
+    expect(mismatches).to.deep.equal(
+      [...Object.keys(FACTORIES), 'BalancerHelpers'].map((deployment) => ({
+        deployment,
+        property: deployment === 'BalancerHelpers' ? 'vault' : 'getVault()',
+        expected: otherVault.address.toLowerCase(),
+        actual: vault,
+      }))
+    );
+  });
+
+  it('reports missing deployment outputs', async () => {
+    const missingFactoryOutputs = { ...outputs };
+    delete missingFactoryOutputs.StablePoolFactory;
+
+    const mismatches = await checkDeployment('hardhat', hre, missingFactoryOutputs);
+
+    expect(mismatches).to.deep.equal([
+      { deployment: 'StablePoolFactory', property: 'address', expected: 'address', actual: 'undefined' },
+    ]);
+  });
+
+  it('accepts the WETH output name used by older deployments', async () => {
+    const { TestWETH: weth, ...otherOutputs } = outputs;
+
+    expect(await checkDeployment('hardhat', hre, { ...otherOutputs, WETH: weth })).to.be.empty;
+  });
+
+  it('checks the committed outputs of a network', async () => {
+    const mismatches = await checkDeployment('goerli', hre);
+
+    // The goerli contracts aren't deployed on the hardhat network, and its outputs have no pool factories other than
+    // the WeightedPoolFactory
+    expect(mismatches).to.deep.equal([
+      ...['Vault', 'WeightedPoolFactory'].map((deployment) => ({
+        deployment,
+        property: 'code',
+        expected: 'contract',
+        actual: 'undefined',
+      })),
+      ...['WeightedPool2TokensFactory', 'StablePoolFactory'].map((deployment) => ({
+        deployment,
+        property: 'address',
+        expected: 'address',
+        actual: 'undefined',
+      })),
+      { deployment: 'BalancerHelpers', property: 'code', expected: 'contract', actual: 'undefined' },
+    ]);
+  });
+});
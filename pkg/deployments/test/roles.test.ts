@@ -0,0 +1,107 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { Contract } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { deploy, getArtifact } from '@balancer-labs/v2-helpers/src/contract';
+import { computeActionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
+import { MONTH } from '@balancer-labs/v2-helpers/src/time';
+
+import { applyRoleChanges, getRoleChanges, PermissionsManifest, PermissionsTarget } from '../roles';
+import manifest from '../permissions/hardhat.json';
+
+describe('roles', function () {
+  let deployer: SignerWithAddress, admin: SignerWithAddress, other: SignerWithAddress;
+  let authorizer: Contract, vault: Contract;
+  let targets: { [target: string]: PermissionsTarget };
+  let namedAccounts: { [name: string]: string };
+
+  const FACTORIES = {
+    WeightedPool: 'v2-pool-weighted/WeightedPoolFactory',
+    WeightedPool2Tokens: 'v2-pool-weighted/WeightedPool2TokensFactory',
+    StablePool: 'v2-pool-stable/StablePoolFactory',
+  };
+
+  before('setup signers', async () => {
+    [deployer, admin, other] = await ethers.getSigners();
+    namedAccounts = { deployer: deployer.address, admin: admin.address };
+  });
+
+  sharedBeforeEach('deploy contracts', async () => {
+    authorizer = await deploy('v2-vault/Authorizer', { args: [admin.address] });
+    const weth = await deploy('v2-standalone-utils/TestWETH', { args: [deployer.address] });
+    vault = await deploy('v2-vault/Vault', { args: [authorizer.address, weth.address, MONTH * 3, MONTH] });
+
+    targets = {
+      Vault: { abi: (await getArtifact('v2-vault/Vault')).abi, disambiguator: vault.address },
+      ProtocolFeesCollector: {
+        abi: (await getArtifact('v2-vault/ProtocolFeesCollector')).abi,
+        disambiguator: await vault.getProtocolFeesCollector(),
+      },
+    };
+
+    for (const [pool, factory] of Object.entries(FACTORIES)) {
+      const { address } = await deploy(factory, { args: [vault.address] });
+      targets[pool] = { abi: (await getArtifact(factory.replace('Factory', ''))).abi, disambiguator: address };
+    }
+  });
+
+  const actionId = (target: string, method: string): string => {
+    const { abi, disambiguator } = targets[target];
+    return computeActionId(disambiguator, new ethers.utils.Interface(abi).getSighash(method));
+  };
+
+  it('grants the roles of the manifest', async () => {
+    const changes = await getRoleChanges(manifest, authorizer, targets, namedAccounts);
+    await applyRoleChanges(authorizer.connect(admin), changes);
+
+    expect(changes.revokes).to.be.empty;
+    for (const [target, methods] of Object.entries(manifest as PermissionsManifest)) {
+      for (const method of Object.keys(methods)) {
+        expect(await authorizer.hasRole(actionId(target, method), admin.address)).to.be.true;
+      }
+    }
+  });
+
+  it('changes nothing when applied a second time', async () => {
+    await applyRoleChanges(
+      authorizer.connect(admin),
+      await getRoleChanges(manifest, authorizer, targets, namedAccounts)
+    );
+
+    const changes = await getRoleChanges(manifest, authorizer, targets, namedAccounts);
+
+    expect(changes).to.deep.equal({ grants: [], revokes: [] });
+  });
+
+  it('revokes the roles of accounts missing from the manifest', async () => {
+    const role = actionId('Vault', 'setPaused');
+    await authorizer.connect(admin).grantRoles([role], other.address);
+
+    await applyRoleChanges(
+      authorizer.connect(admin),
+      await getRoleChanges(manifest, authorizer, targets, namedAccounts)
+    );
+
+    expect(await authorizer.hasRole(role, other.address)).to.be.false;
+    expect(await authorizer.hasRole(role, admin.address)).to.be.true;
+  });
+
+  it('leaves the roles of methods missing from the manifest untouched', async () => {
+    const role = actionId('Vault', 'setRelayerApproval');
+    await authorizer.connect(admin).grantRoles([role], other.address);
+
+    await applyRoleChanges(
+      authorizer.connect(admin),
+      await getRoleChanges(manifest, authorizer, targets, namedAccounts)
+    );
+
+    expect(await authorizer.hasRole(role, other.address)).to.be.true;
+  });
+
+  it('rejects unknown targets', async () => {
+    const error = await getRoleChanges({ Unknown: {} }, authorizer, targets, namedAccounts).catch((error) => error);
+
+    expect(error.message).to.equal('Unknown permissions target Unknown');
+  });
+});
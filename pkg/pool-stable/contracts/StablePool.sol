@@ -29,7 +29,7 @@ contract StablePool is BaseGeneralPool, StableMath {
 
     uint256 private immutable _amplificationParameter;
 
-    uint256 private _lastInvariant;
+    uint256 internal _lastInvariant;
 
     enum JoinKind { INIT, EXACT_TOKENS_IN_FOR_BPT_OUT, TOKEN_IN_FOR_EXACT_BPT_OUT }
     enum ExitKind { EXACT_BPT_IN_FOR_ONE_TOKEN_OUT, EXACT_BPT_IN_FOR_TOKENS_OUT, BPT_IN_FOR_EXACT_TOKENS_OUT }
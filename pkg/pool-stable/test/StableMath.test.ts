@@ -1,3 +1,4 @@
+import { expect } from 'chai';
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import {
   calculateAnalyticalInvariantForTwoTokens,
@@ -5,13 +6,28 @@ import {
   calcInGivenOut,
   calcOutGivenIn,
   calculateOneTokenSwapFeeAmount,
+  exact,
 } from '@balancer-labs/v2-helpers/src/models/pools/stable/math';
 import { expectEqualWithError } from '@balancer-labs/v2-helpers/src/test/relativeError';
+import { Arbitrary, checkProperty } from '@balancer-labs/v2-helpers/src/test/property';
+import {
+  MAX_OUT_RATIO,
+  joinExitRatio,
+  multiTokenCase,
+  singleTokenCase,
+  stableMathState,
+  swapCase,
+  swapRatio,
+} from '@balancer-labs/v2-helpers/src/test/poolArbitraries';
+import { complement, divUp, mulDown, mulUp } from '@balancer-labs/v2-helpers/src/fixedPoint';
 import { bn, decimal, fp } from '@balancer-labs/v2-helpers/src/numbers';
-import { Contract } from 'ethers';
+import { BigNumber, Contract } from 'ethers';
 
 const MAX_RELATIVE_ERROR = 0.001; //Max relative error
 
+// Small amounts often make the math revert, as the invariant and the balances it gives are not exact enough for them
+const MIN_AMOUNT_RATIO = fp(0.01);
+
 //TODO: Test this math by checking  extremes values for the amplification field (0 and infinite)
 //to verify that it equals constant sum and constant product (weighted) invariants.
 
@@ -51,6 +67,18 @@ describe('StableMath', function () {
         const result = await mock.invariant(amp, balances);
         const expectedInvariant = calculateInvariant(balances, amp);
 
+        expectEqualWithError(result, expectedInvariant, MAX_RELATIVE_ERROR);
+      });
+    });
+    context('when the approximations cross a power of ten', () => {
+      it('returns invariant', async () => {
+        // The invariant starts at the sum of the balances (above 1e22) and converges to a value below it
+        const amp = bn(1000);
+        const balances = [bn(1e18), bn(1e22)];
+
+        const result = await mock.invariant(amp, balances);
+        const expectedInvariant = calculateInvariant(balances, amp);
+
         expectEqualWithError(result, expectedInvariant, MAX_RELATIVE_ERROR);
       });
     });
@@ -113,6 +141,21 @@ describe('StableMath', function () {
         const result = await mock.outGivenIn(amp, balances, tokenIndexIn, tokenIndexOut, amountIn);
         const expectedAmountOut = calcOutGivenIn(balances, amp, tokenIndexIn, tokenIndexOut, amountIn);
 
+        expectEqualWithError(result, bn(expectedAmountOut.toFixed(0)), MAX_RELATIVE_ERROR);
+      });
+    });
+    context('when the approximations cross a power of ten', () => {
+      it('returns out given in', async () => {
+        // The balance of the token out goes from 1000 to slightly less than that
+        const amp = bn(100e18);
+        const balances = [bn(1000e18), bn(1000e18)];
+        const tokenIndexIn = 0;
+        const tokenIndexOut = 1;
+        const amountIn = bn(1e18);
+
+        const result = await mock.outGivenIn(amp, balances, tokenIndexIn, tokenIndexOut, amountIn);
+        const expectedAmountOut = calcOutGivenIn(balances, amp, tokenIndexIn, tokenIndexOut, amountIn);
+
         expectEqualWithError(result, bn(expectedAmountOut.toFixed(0)), MAX_RELATIVE_ERROR);
       });
     });
@@ -166,4 +209,196 @@ describe('StableMath', function () {
       });
     });
   });
+
+  describe('exact math', () => {
+    const amp = bn(100e18);
+    const balances = [fp(10), fp(12), fp(14)];
+    const bptTotalSupply = fp(30);
+    const swapFee = fp(0.01);
+
+    it('computes the same invariant', async () => {
+      expect(await mock.invariant(amp, balances)).to.equal(exact.calculateInvariant(balances, amp));
+    });
+
+    it('computes the same swap amounts', async () => {
+      expect(await mock.outGivenIn(amp, balances, 0, 1, fp(1))).to.equal(
+        exact.calcOutGivenIn(balances, amp, 0, 1, fp(1))
+      );
+      expect(await mock.inGivenOut(amp, balances, 0, 1, fp(1))).to.equal(
+        exact.calcInGivenOut(balances, amp, 0, 1, fp(1))
+      );
+    });
+
+    it('computes the same join amounts', async () => {
+      const amountsIn = [fp(1), fp(0), fp(3)];
+      const bptOut = await mock.exactTokensInForBPTOut(amp, balances, amountsIn, bptTotalSupply, swapFee);
+      expect(bptOut).to.equal(exact.calcBptOutGivenExactTokensIn(balances, amp, amountsIn, bptTotalSupply, swapFee));
+
+      const tokenIn = await mock.tokenInForExactBPTOut(amp, balances, 1, fp(2), bptTotalSupply, swapFee);
+      expect(tokenIn).to.equal(exact.calcTokenInGivenExactBptOut(1, balances, amp, fp(2), bptTotalSupply, swapFee));
+    });
+
+    it('computes the same exit amounts', async () => {
+      const amountsOut = [fp(1), fp(0), fp(3)];
+      const bptIn = await mock.bptInForExactTokensOut(amp, balances, amountsOut, bptTotalSupply, swapFee);
+      expect(bptIn).to.equal(exact.calcBptInGivenExactTokensOut(balances, amp, amountsOut, bptTotalSupply, swapFee));
+
+      const tokenOut = await mock.exactBPTInForTokenOut(amp, balances, 1, fp(2), bptTotalSupply, swapFee);
+      expect(tokenOut).to.equal(exact.calcTokenOutGivenExactBptIn(1, balances, amp, fp(2), bptTotalSupply, swapFee));
+
+      const tokensOut = await mock.exactBPTInForTokensOut(balances, fp(2), bptTotalSupply);
+      expect(tokensOut).to.deep.equal(exact.calcTokensOutGivenExactBptIn(balances, fp(2), bptTotalSupply));
+    });
+
+    it('computes the same protocol swap fees', async () => {
+      const lastInvariant = fp(35.9);
+      const protocolSwapFeePercentage = fp(0.1);
+
+      const result = await mock.calculateDueTokenProtocolSwapFeeAmount(
+        amp,
+        balances,
+        lastInvariant,
+        2,
+        protocolSwapFeePercentage
+      );
+
+      const expected = exact.calcDueTokenProtocolSwapFeeAmount(
+        balances,
+        amp,
+        lastInvariant,
+        2,
+        protocolSwapFeePercentage
+      );
+      expect(result).to.equal(expected);
+    });
+  });
+
+  describe('properties', () => {
+    // The math overflows for some of the most unbalanced generated states, which the pool would reject
+    const TOLERATED_REVERTS = ['BAL#001', 'BAL#003']; // SUB_OVERFLOW, MUL_OVERFLOW
+    const MAX_DISCARDED_RATIO = 0.1;
+
+    let attempts: number, discarded: number;
+
+    // Operations reverting for a given state are rejected by the pool, so they cannot break any property. Only the
+    // expected reverts are tolerated, and the cases they discard must stay rare for the properties to be meaningful.
+    async function attempt(call: () => Promise<BigNumber>): Promise<BigNumber | undefined> {
+      attempts++;
+      try {
+        return await call();
+      } catch (error) {
+        if (!TOLERATED_REVERTS.some((reason) => error.message.includes(`revert ${reason}`))) throw error;
+        discarded++;
+        return undefined;
+      }
+    }
+
+    async function checkMathProperty<T>(arbitrary: Arbitrary<T>, property: (value: T) => Promise<void>): Promise<void> {
+      attempts = 0;
+      discarded = 0;
+
+      await checkProperty(arbitrary, property);
+      expect(discarded).to.be.lte(attempts * MAX_DISCARDED_RATIO, `${discarded} of ${attempts} cases discarded`);
+    }
+
+    it('swaps given in never decrease the invariant', async () => {
+      const arbitrary = swapCase(stableMathState(), swapRatio(MIN_AMOUNT_RATIO));
+
+      await checkMathProperty(arbitrary, async ({ state, tokenIn, tokenOut, ratio }) => {
+        const { balances, amp, swapFeePercentage } = state;
+        const amountIn = mulDown(balances[tokenIn], ratio);
+        const amountInWithoutFee = amountIn.sub(mulUp(amountIn, swapFeePercentage));
+
+        const amountOut = await attempt(() => mock.outGivenIn(amp, balances, tokenIn, tokenOut, amountInWithoutFee));
+        if (!amountOut) return;
+
+        const newBalances = [...balances];
+        newBalances[tokenIn] = balances[tokenIn].add(amountIn);
+        newBalances[tokenOut] = balances[tokenOut].sub(amountOut);
+        expect(await mock.invariant(amp, newBalances)).to.be.gte(await mock.invariant(amp, balances));
+      });
+    });
+
+    it('swaps given out never decrease the invariant', async () => {
+      const arbitrary = swapCase(stableMathState(), swapRatio(MIN_AMOUNT_RATIO));
+
+      await checkMathProperty(arbitrary, async ({ state, tokenIn, tokenOut, ratio }) => {
+        const { balances, amp, swapFeePercentage } = state;
+        const amountOut = mulDown(balances[tokenOut], ratio);
+
+        const amountInWithoutFee = await attempt(() => mock.inGivenOut(amp, balances, tokenIn, tokenOut, amountOut));
+        if (!amountInWithoutFee) return;
+        const amountIn = divUp(amountInWithoutFee, complement(swapFeePercentage));
+
+        const newBalances = [...balances];
+        newBalances[tokenIn] = balances[tokenIn].add(amountIn);
+        newBalances[tokenOut] = balances[tokenOut].sub(amountOut);
+        expect(await mock.invariant(amp, newBalances)).to.be.gte(await mock.invariant(amp, balances));
+      });
+    });
+
+    it('swaps given in and given out are consistent', async () => {
+      const arbitrary = swapCase(stableMathState(), swapRatio(MIN_AMOUNT_RATIO));
+
+      await checkMathProperty(arbitrary, async ({ state, tokenIn, tokenOut, ratio }) => {
+        const { balances, amp } = state;
+        const amountIn = mulDown(balances[tokenIn], ratio);
+
+        const amountOut = await attempt(() => mock.outGivenIn(amp, balances, tokenIn, tokenOut, amountIn));
+        if (!amountOut || amountOut.gt(mulDown(balances[tokenOut], MAX_OUT_RATIO))) return;
+
+        const amountInBack = await attempt(() => mock.inGivenOut(amp, balances, tokenIn, tokenOut, amountOut));
+        if (!amountInBack) return;
+
+        expectEqualWithError(amountInBack, amountIn, MAX_RELATIVE_ERROR);
+      });
+    });
+
+    it('joining and exiting a single token never profits', async () => {
+      const arbitrary = singleTokenCase(stableMathState(), joinExitRatio(MIN_AMOUNT_RATIO));
+
+      await checkMathProperty(arbitrary, async ({ state, token, ratio }) => {
+        const { balances, amp, totalSupply, swapFeePercentage } = state;
+        const bptAmount = mulDown(totalSupply, ratio);
+
+        const amountIn = await attempt(() =>
+          mock.tokenInForExactBPTOut(amp, balances, token, bptAmount, totalSupply, swapFeePercentage)
+        );
+        if (!amountIn) return;
+
+        const newBalances = [...balances];
+        newBalances[token] = balances[token].add(amountIn);
+        const newSupply = totalSupply.add(bptAmount);
+        const amountOut = await attempt(() =>
+          mock.exactBPTInForTokenOut(amp, newBalances, token, bptAmount, newSupply, swapFeePercentage)
+        );
+        if (!amountOut) return;
+
+        expect(amountOut).to.be.lte(amountIn);
+      });
+    });
+
+    it('joining and exiting all tokens never profits', async () => {
+      const arbitrary = multiTokenCase(stableMathState(), joinExitRatio(MIN_AMOUNT_RATIO));
+
+      await checkMathProperty(arbitrary, async ({ state, ratios }) => {
+        const { balances, amp, totalSupply, swapFeePercentage } = state;
+        const amounts = balances.map((balance, i) => mulDown(balance, ratios[i]));
+
+        const bptOut = await attempt(() =>
+          mock.exactTokensInForBPTOut(amp, balances, amounts, totalSupply, swapFeePercentage)
+        );
+        if (!bptOut) return;
+
+        const newBalances = balances.map((balance, i) => balance.add(amounts[i]));
+        const newSupply = totalSupply.add(bptOut);
+        const bptIn = await attempt(() =>
+          mock.bptInForExactTokensOut(amp, newBalances, amounts, newSupply, swapFeePercentage)
+        );
+        if (!bptIn) return;
+
+        expect(bptIn).to.be.gte(bptOut);
+      });
+    });
+  });
 });
@@ -4,7 +4,9 @@ import { BigNumber } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
 import { BigNumberish, bn, fp, pct } from '@balancer-labs/v2-helpers/src/numbers';
+import { complement, divUp, mulUp, sub } from '@balancer-labs/v2-helpers/src/fixedPoint';
 import { GeneralPool } from '@balancer-labs/v2-helpers/src/models/vault/pools';
+import { advanceTime, currentTimestamp, DAY } from '@balancer-labs/v2-helpers/src/time';
 
 import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
 import StablePool from '@balancer-labs/v2-helpers/src/models/pools/stable/StablePool';
@@ -43,6 +45,48 @@ describe('StablePool', function () {
     itBehavesAsStablePool(3);
   });
 
+  context('for a pool with tokens of mixed decimals', () => {
+    let pool: StablePool, tokens: TokenList;
+
+    sharedBeforeEach('deploy and initialize pool', async () => {
+      tokens = await TokenList.create(
+        [
+          { symbol: 'DAI', decimals: 18 },
+          { symbol: 'USDC', decimals: 6 },
+          { symbol: 'USDT', decimals: 6 },
+        ],
+        { sorted: true }
+      );
+
+      const amplificationParameter = AMPLIFICATION_PARAMETER;
+      pool = await StablePool.create({ tokens, amplificationParameter, swapFeePercentage: POOL_SWAP_FEE_PERCENTAGE });
+
+      const initialBalances = tokens.map((token) => bn(100).mul(bn(10).pow(token.decimals)));
+      await pool.init({ initialBalances, recipient: lp });
+    });
+
+    it('scales swaps given in by the token decimals', async () => {
+      const [usdc, dai] = [tokens.findBySymbol('USDC'), tokens.findBySymbol('DAI')];
+      const amount = bn(5e6);
+      const amountWithoutFees = sub(amount, mulUp(amount, POOL_SWAP_FEE_PERCENTAGE));
+      const expectedAmountOut = await pool.estimateGivenIn({ in: usdc, out: dai, amount: amountWithoutFees });
+
+      const result = await pool.swapGivenIn({ in: usdc, out: dai, amount });
+
+      expect(result).to.equal(expectedAmountOut);
+    });
+
+    it('scales swaps given out by the token decimals', async () => {
+      const [dai, usdt] = [tokens.findBySymbol('DAI'), tokens.findBySymbol('USDT')];
+      const amount = bn(5e6);
+      const expectedAmountIn = await pool.estimateGivenOut({ in: dai, out: usdt, amount });
+
+      const result = await pool.swapGivenOut({ in: dai, out: usdt, amount });
+
+      expect(result).to.equal(divUp(expectedAmountIn, complement(POOL_SWAP_FEE_PERCENTAGE)));
+    });
+  });
+
   context('for a too-many token pool', () => {
     it('reverts if there are too many tokens', async () => {
       // The maximum number of tokens is 5
@@ -89,6 +133,11 @@ describe('StablePool', function () {
           expect(specialization).to.equal(GeneralPool);
         });
 
+        it('encodes the pool address and specialization in its pool ID', async () => {
+          expect(pool.specialization).to.equal(GeneralPool);
+          expect(pool.vault.decodePoolId(pool.poolId).address).to.equal(pool.address);
+        });
+
         it('registers tokens in the vault', async () => {
           const { tokens, balances } = await pool.getTokens();
 
@@ -484,13 +533,12 @@ describe('StablePool', function () {
       context('given in', () => {
         it('calculates amount out', async () => {
           const amount = fp(0.1);
-          const amountWithFees = amount.mul(POOL_SWAP_FEE_PERCENTAGE.add(fp(1))).div(fp(1));
-          const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: amountWithFees });
+          const amountWithoutFees = sub(amount, mulUp(amount, POOL_SWAP_FEE_PERCENTAGE));
+          const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: amountWithoutFees });
 
-          const result = await pool.swapGivenIn({ in: 1, out: 0, amount: amountWithFees });
+          const result = await pool.swapGivenIn({ in: 1, out: 0, amount });
 
-          //TODO: review small relative error
-          expect(result).to.be.equalWithError(expectedAmountOut, 0.1);
+          expect(result).to.equal(expectedAmountOut);
         });
 
         it('reverts if invalid token in', async () => {
@@ -515,7 +563,7 @@ describe('StablePool', function () {
 
           const result = await pool.swapGivenOut({ in: 1, out: 0, amount });
 
-          expect(result).to.be.equalWithError(expectedAmountIn, 0.1);
+          expect(result).to.equal(divUp(expectedAmountIn, complement(POOL_SWAP_FEE_PERCENTAGE)));
         });
 
         it('reverts if invalid token in', async () => {
@@ -631,5 +679,99 @@ describe('StablePool', function () {
         });
       });
     });
+
+    describe('amplification parameter update', () => {
+      const endValue = AMPLIFICATION_PARAMETER.mul(2);
+      let startTime: BigNumber, endTime: BigNumber;
+
+      // The update is only modeled off-chain, so each test needs a fresh pool model
+      beforeEach('deploy and join pool and start update', async () => {
+        await deployPool();
+        await pool.init({ initialBalances, from: lp });
+
+        startTime = await currentTimestamp();
+        endTime = startTime.add(DAY * 2);
+        await pool.startAmpChange(endValue, endTime);
+      });
+
+      it('interpolates the amplification parameter over time', async () => {
+        await advanceTime(DAY);
+        const now = await currentTimestamp();
+        const expectedValue = AMPLIFICATION_PARAMETER.add(
+          endValue
+            .sub(AMPLIFICATION_PARAMETER)
+            .mul(now.sub(startTime))
+            .div(DAY * 2)
+        );
+
+        expect(await pool.getCurrentAmplificationParameter()).to.equal(expectedValue);
+        expect(expectedValue).to.be.gt(AMPLIFICATION_PARAMETER);
+        expect(expectedValue).to.be.lt(endValue);
+      });
+
+      it('reaches the end value once the update is over', async () => {
+        await advanceTime(DAY * 2);
+
+        expect(await pool.getCurrentAmplificationParameter()).to.equal(endValue);
+        expect(pool.getAmplificationParameterAt(endTime.add(DAY))).to.equal(endValue);
+      });
+
+      it('does not change the amplification parameter of the pool', async () => {
+        await advanceTime(DAY);
+
+        expect(await pool.getAmplificationParameter()).to.equal(AMPLIFICATION_PARAMETER);
+      });
+
+      it('estimates with the amplification parameter of the pool by default', async () => {
+        await advanceTime(DAY);
+        const amount = fp(0.1);
+        const amountWithoutFees = sub(amount, mulUp(amount, POOL_SWAP_FEE_PERCENTAGE));
+        const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: amountWithoutFees });
+
+        const result = await pool.swapGivenIn({ in: 1, out: 0, amount });
+
+        expect(result).to.equal(expectedAmountOut);
+      });
+
+      it('matches a pool deployed with the interpolated value when estimating with it', async () => {
+        await advanceTime(DAY);
+        const amplificationParameter = await pool.getCurrentAmplificationParameter();
+        const amount = fp(0.1);
+        const swap = { in: 1, out: 0, amount: sub(amount, mulUp(amount, POOL_SWAP_FEE_PERCENTAGE)) };
+        const expectedInvariant = await pool.estimateInvariant(initialBalances, amplificationParameter);
+        const expectedAmountOut = await pool.estimateGivenIn(swap, initialBalances, amplificationParameter);
+
+        await deployPool({ amplificationParameter });
+        await pool.init({ initialBalances, from: lp });
+
+        expect(await pool.totalSupply()).to.equal(expectedInvariant);
+        expect(await pool.swapGivenIn({ in: 1, out: 0, amount })).to.equal(expectedAmountOut);
+      });
+
+      it('can be stopped keeping the current value', async () => {
+        await advanceTime(DAY);
+        await pool.stopAmpChange();
+        const currentValue = await pool.getCurrentAmplificationParameter();
+
+        await advanceTime(DAY * 2);
+        expect(await pool.getCurrentAmplificationParameter()).to.equal(currentValue);
+        expect(currentValue).to.be.lt(endValue);
+      });
+
+      it('starts new updates from the current value', async () => {
+        await advanceTime(DAY);
+        await pool.startAmpChange(AMPLIFICATION_PARAMETER, (await currentTimestamp()).add(DAY));
+        const { startValue } = pool.amplificationParameterUpdate;
+
+        expect(startValue).to.be.gt(AMPLIFICATION_PARAMETER);
+        expect(startValue).to.be.lt(endValue);
+      });
+
+      it('rejects updates ending in the past', async () => {
+        const error = await pool.startAmpChange(endValue, startTime).catch((error) => error);
+
+        expect(error.message).to.equal('Amplification parameter update must end in the future');
+      });
+    });
   }
 });
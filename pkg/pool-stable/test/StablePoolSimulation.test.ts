@@ -0,0 +1,139 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { BigNumberish, bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
+import { advanceTime, currentTimestamp, DAY } from '@balancer-labs/v2-helpers/src/time';
+import { PoolSnapshot } from '@balancer-labs/v2-helpers/src/models/pools/base/types';
+
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import Token from '@balancer-labs/v2-helpers/src/models/tokens/Token';
+import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
+import StablePool from '@balancer-labs/v2-helpers/src/models/pools/stable/StablePool';
+
+describe('StablePool simulation', function () {
+  let admin: SignerWithAddress, lp: SignerWithAddress, trader: SignerWithAddress;
+  let vault: Vault, tokens: TokenList, pool: StablePool;
+
+  const PROTOCOL_SWAP_FEE_PERCENTAGE = fp(0.5);
+
+  before('setup signers', async () => {
+    [, admin, lp, trader] = await ethers.getSigners();
+  });
+
+  // Amplification parameter updates are modeled off-chain, so the pool model must not be shared across tests
+  beforeEach('deploy vault, tokens and pool', async () => {
+    vault = await Vault.create({ admin });
+    await vault.setSwapFeePercentage(PROTOCOL_SWAP_FEE_PERCENTAGE);
+
+    tokens = await TokenList.create(
+      [
+        { symbol: 'DAI', decimals: 18 },
+        { symbol: 'USDC', decimals: 6 },
+        { symbol: 'USDT', decimals: 6 },
+      ],
+      { sorted: true }
+    );
+    await tokens.mint({ to: [lp, trader], amount: bn(1e30) });
+    await tokens.approve({ from: [lp, trader], to: vault.address });
+
+    pool = await StablePool.create({ vault, tokens, amplificationParameter: fp(100), swapFeePercentage: fp(0.01) });
+
+    const initialBalances = tokens.map((token) => bn(100).mul(bn(10).pow(token.decimals)));
+    await pool.init({ from: lp, initialBalances });
+  });
+
+  const amount = (token: Token, units: number) => bn(units).mul(bn(10).pow(token.decimals));
+
+  it('captures the state of the pool', async () => {
+    const snapshot = await pool.snapshot();
+
+    expect(snapshot.tokens).to.deep.equal(tokens.addresses);
+    expect(snapshot.balances).to.deep.equal(await pool.getBalances());
+    expect(snapshot.scalingFactors).to.deep.equal(tokens.map((token) => bn(10).pow(18 - token.decimals)));
+    expect(snapshot.mathParams).to.equal(fp(100));
+    expect(snapshot.totalSupply).to.equal(await pool.totalSupply());
+    expect(snapshot.lastInvariant).to.equal(await pool.getLastInvariant());
+    expect(snapshot.lastInvariantMathParams).to.equal(await pool.getAmplificationParameter());
+    expect(snapshot.protocolSwapFeePercentage).to.equal(PROTOCOL_SWAP_FEE_PERCENTAGE);
+  });
+
+  it('predicts the protocol swap fees due from a snapshot captured after swaps', async () => {
+    const [first, second, third] = tokens.tokens;
+
+    const kind = SWAP_KIND.GIVEN_IN;
+    await vault.swap({ kind, poolId: pool.poolId, in: first, out: third, amount: amount(first, 20), from: trader });
+    await vault.swap({ kind, poolId: pool.poolId, in: second, out: first, amount: amount(second, 15), from: trader });
+
+    const dueProtocolFeeAmounts = await pool.estimateDueProtocolFeeAmounts();
+    expect(dueProtocolFeeAmounts.some((feeAmount) => feeAmount.gt(0))).to.be.true;
+
+    const exit = await pool.singleExitGivenIn({ from: lp, token: third, bptIn: fp(10) });
+    expect(exit.dueProtocolFeeAmounts).to.deep.equal(dueProtocolFeeAmounts);
+    expect(await vault.getCollectedFeeAmounts(tokens)).to.deep.equal(dueProtocolFeeAmounts);
+  });
+
+  it('keeps using the amplification parameter of the pool while an update is modeled', async () => {
+    const [first, second, third] = tokens.tokens;
+    await pool.startAmpChange(fp(200), (await currentTimestamp()).add(DAY * 2));
+    await advanceTime(DAY);
+
+    const kind = SWAP_KIND.GIVEN_IN;
+    await vault.swap({ kind, poolId: pool.poolId, in: first, out: second, amount: amount(first, 30), from: trader });
+    await vault.swap({ kind, poolId: pool.poolId, in: second, out: third, amount: amount(second, 10), from: trader });
+
+    const snapshot = await pool.snapshot();
+    expect(snapshot.mathParams).to.equal(fp(100));
+    expect(snapshot.lastInvariantMathParams).to.equal(fp(100));
+
+    const dueProtocolFeeAmounts = await pool.estimateDueProtocolFeeAmounts(snapshot);
+    expect(dueProtocolFeeAmounts[0]).to.be.gt(0);
+
+    const join = await pool.joinGivenIn({ from: lp, amountsIn: [amount(first, 5), amount(second, 5), 0] });
+    expect(join.dueProtocolFeeAmounts).to.deep.equal(dueProtocolFeeAmounts);
+  });
+
+  it('predicts the protocol swap fees paid across swaps between joins and exits', async () => {
+    const [first, second, third] = tokens.tokens;
+
+    let snapshot: PoolSnapshot<BigNumberish> = await pool.snapshot();
+
+    const swap = async (tokenIn: Token, tokenOut: Token, units: number) => {
+      const amountIn = amount(tokenIn, units);
+      ({ snapshot } = await pool.simulate(
+        [{ kind: 'SwapGivenIn', in: tokenIn, out: tokenOut, amount: amountIn }],
+        snapshot
+      ));
+
+      const kind = SWAP_KIND.GIVEN_IN;
+      await vault.swap({ kind, poolId: pool.poolId, in: tokenIn, out: tokenOut, amount: amountIn, from: trader });
+    };
+
+    await swap(first, second, 30);
+    await swap(second, third, 10);
+
+    // The fees are paid in the token with the largest balance
+    const joinDueProtocolFeeAmounts = await pool.estimateDueProtocolFeeAmounts(snapshot);
+    expect(joinDueProtocolFeeAmounts[0]).to.be.gt(0);
+    expect(joinDueProtocolFeeAmounts.slice(1)).to.deep.equal([bn(0), bn(0)]);
+
+    const amountsIn = [amount(first, 5), amount(second, 5), amount(third, 5)];
+    ({ snapshot } = await pool.simulate([{ kind: 'JoinGivenIn', amountsIn }], snapshot));
+    const join = await pool.joinGivenIn({ from: lp, amountsIn });
+    expect(join.dueProtocolFeeAmounts).to.deep.equal(joinDueProtocolFeeAmounts);
+
+    await swap(third, first, 40);
+    await swap(second, third, 20);
+
+    const exitDueProtocolFeeAmounts = await pool.estimateDueProtocolFeeAmounts(snapshot);
+    expect(exitDueProtocolFeeAmounts[2]).to.be.gt(0);
+
+    const exit = await pool.singleExitGivenIn({ from: lp, token: second, bptIn: fp(10) });
+    expect(exit.dueProtocolFeeAmounts).to.deep.equal(exitDueProtocolFeeAmounts);
+
+    ({ snapshot } = await pool.simulate([{ kind: 'SingleExitGivenIn', token: second, bptIn: fp(10) }], snapshot));
+    expect(await vault.getCollectedFeeAmounts(tokens)).to.deep.equal(snapshot.paidProtocolFeeAmounts);
+    expect(await pool.getBalances()).to.deep.equal(snapshot.balances);
+  });
+});
@@ -0,0 +1,14 @@
+import { fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { describeVaultFuzzing } from '@balancer-labs/v2-helpers/src/test/vaultFuzzing';
+
+import StablePool from '@balancer-labs/v2-helpers/src/models/pools/stable/StablePool';
+
+describeVaultFuzzing('Vault fuzzing with stable pools', async (vault, tokens) => [
+  await StablePool.create({ vault, tokens, amplificationParameter: fp(200), swapFeePercentage: fp(0.01) }),
+  await StablePool.create({
+    vault,
+    tokens: tokens.subset(2),
+    amplificationParameter: fp(50),
+    swapFeePercentage: fp(0.003),
+  }),
+]);
@@ -6,11 +6,11 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-wit
 import * as expectEvent from '@balancer-labs/v2-helpers/src/test/expectEvent';
 import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
 import { advanceTime, DAY, MONTH } from '@balancer-labs/v2-helpers/src/time';
-import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
+import { actionId, computeActionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { GeneralPool } from '@balancer-labs/v2-helpers/src/models/vault/pools';
 import { BigNumberish, fp } from '@balancer-labs/v2-helpers/src/numbers';
-import { ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
+import { DELEGATE_OWNER, ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
 import { Account } from '@balancer-labs/v2-helpers/src/models/types/types';
 import TypesConverter from '@balancer-labs/v2-helpers/src/models/types/TypesConverter';
 
@@ -25,7 +25,6 @@ describe('BasePool', function () {
 
   const MIN_SWAP_FEE_PERCENTAGE = fp(0.000001);
   const MAX_SWAP_FEE_PERCENTAGE = fp(0.1);
-  const DELEGATE_OWNER = '0xBA1BA1ba1BA1bA1bA1Ba1BA1ba1BA1bA1ba1ba1B';
 
   before(async () => {
     [, admin, poolOwner, deployer, assetManager, other] = await ethers.getSigners();
@@ -152,6 +151,12 @@ describe('BasePool', function () {
           expect(await pool.getActionId(selector)).to.not.equal(await otherPool.getActionId(selector));
         });
       });
+
+      it('can be computed offline from the pool creator', async () => {
+        const pool = await deployBasePool({ tokens, from: deployer });
+
+        expect(computeActionId(deployer, selector)).to.equal(await pool.getActionId(selector));
+      });
     });
   });
 
@@ -0,0 +1,15 @@
+import { fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { describeVaultFuzzing } from '@balancer-labs/v2-helpers/src/test/vaultFuzzing';
+
+import WeightedPool from '@balancer-labs/v2-helpers/src/models/pools/weighted/WeightedPool';
+
+describeVaultFuzzing('Vault fuzzing with weighted pools', async (vault, tokens) => [
+  await WeightedPool.create({ vault, tokens, weights: [fp(0.5), fp(0.3), fp(0.2)], swapFeePercentage: fp(0.01) }),
+  await WeightedPool.create({
+    vault,
+    tokens: tokens.subset(2),
+    weights: [fp(0.6), fp(0.4)],
+    swapFeePercentage: fp(0.003),
+    twoTokens: true,
+  }),
+]);
@@ -3,11 +3,22 @@ import { Contract } from 'ethers';
 import { bn, decimal, fp } from '@balancer-labs/v2-helpers/src/numbers';
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { expectEqualWithError } from '@balancer-labs/v2-helpers/src/test/relativeError';
+import { checkProperty } from '@balancer-labs/v2-helpers/src/test/property';
+import {
+  MAX_OUT_RATIO,
+  joinExitRatio,
+  multiTokenCase,
+  singleTokenCase,
+  swapCase,
+  weightedMathState,
+} from '@balancer-labs/v2-helpers/src/test/poolArbitraries';
+import { complement, divUp, mulDown, mulUp } from '@balancer-labs/v2-helpers/src/fixedPoint';
 import {
   calculateInvariant,
   calcInGivenOut,
   calcOutGivenIn,
   calculateOneTokenSwapFeeAmount,
+  exact,
 } from '@balancer-labs/v2-helpers/src/models/pools/weighted/math';
 import { expect } from 'chai';
 
@@ -302,4 +313,184 @@ describe('WeightedMath', function () {
       });
     });
   });
+
+  describe('exact math', () => {
+    const normalizedWeights = [fp(0.3), fp(0.2), fp(0.5)];
+    const balances = [fp(10), fp(12), fp(14)];
+    const bptTotalSupply = fp(30);
+    const swapFee = fp(0.01);
+
+    it('computes the same invariant', async () => {
+      const result = await mock.invariant(normalizedWeights, balances);
+      expect(result).to.equal(exact.calculateInvariant(balances, normalizedWeights));
+    });
+
+    it('computes the same swap amounts', async () => {
+      const params = [balances[0], normalizedWeights[0], balances[1], normalizedWeights[1], fp(1.5)] as const;
+
+      expect(await mock.outGivenIn(...params)).to.equal(exact.calcOutGivenIn(...params));
+      expect(await mock.inGivenOut(...params)).to.equal(exact.calcInGivenOut(...params));
+    });
+
+    it('computes the same join amounts', async () => {
+      const amountsIn = [fp(1), fp(0), fp(3)];
+      const bptOut = await mock.exactTokensInForBPTOut(balances, normalizedWeights, amountsIn, bptTotalSupply, swapFee);
+      expect(bptOut).to.equal(
+        exact.calcBptOutGivenExactTokensIn(balances, normalizedWeights, amountsIn, bptTotalSupply, swapFee)
+      );
+
+      const tokenIn = await mock.tokenInForExactBPTOut(
+        balances[1],
+        normalizedWeights[1],
+        fp(2),
+        bptTotalSupply,
+        swapFee
+      );
+      expect(tokenIn).to.equal(
+        exact.calcTokenInGivenExactBptOut(1, balances, normalizedWeights, fp(2), bptTotalSupply, swapFee)
+      );
+    });
+
+    it('computes the same exit amounts', async () => {
+      const amountsOut = [fp(1), fp(0), fp(3)];
+      const bptIn = await mock.bptInForExactTokensOut(balances, normalizedWeights, amountsOut, bptTotalSupply, swapFee);
+      expect(bptIn).to.equal(
+        exact.calcBptInGivenExactTokensOut(balances, normalizedWeights, amountsOut, bptTotalSupply, swapFee)
+      );
+
+      const tokenOut = await mock.exactBPTInForTokenOut(
+        balances[1],
+        normalizedWeights[1],
+        fp(2),
+        bptTotalSupply,
+        swapFee
+      );
+      expect(tokenOut).to.equal(
+        exact.calcTokenOutGivenExactBptIn(1, balances, normalizedWeights, fp(2), bptTotalSupply, swapFee)
+      );
+
+      const tokensOut = await mock.exactBPTInForTokensOut(balances, fp(2), bptTotalSupply);
+      expect(tokensOut).to.deep.equal(exact.calcTokensOutGivenExactBptIn(balances, fp(2), bptTotalSupply));
+    });
+
+    it('computes the same protocol swap fees', async () => {
+      const lastInvariant = fp(11);
+      const currentInvariant = exact.calculateInvariant(balances, normalizedWeights);
+      const protocolSwapFeePercentage = fp(0.1);
+
+      const result = await mock.calculateDueTokenProtocolSwapFeeAmount(
+        balances[2],
+        normalizedWeights[2],
+        lastInvariant,
+        currentInvariant,
+        protocolSwapFeePercentage
+      );
+
+      const expected = exact.calcDueTokenProtocolSwapFeeAmount(
+        balances[2],
+        normalizedWeights[2],
+        lastInvariant,
+        currentInvariant,
+        protocolSwapFeePercentage
+      );
+      expect(result).to.equal(expected);
+    });
+
+    it('fails the same way', async () => {
+      const params = [balances[0], normalizedWeights[0], balances[1], normalizedWeights[1], fp(5)] as const;
+
+      await expect(mock.outGivenIn(...params)).to.be.revertedWith('MAX_IN_RATIO');
+      expect(() => exact.calcOutGivenIn(...params)).to.throw('MAX_IN_RATIO');
+    });
+  });
+
+  describe('properties', () => {
+    it('swaps given in never decrease the invariant', async () => {
+      await checkProperty(swapCase(weightedMathState()), async ({ state, tokenIn, tokenOut, ratio }) => {
+        const { balances, weights, swapFeePercentage } = state;
+        const amountIn = mulDown(balances[tokenIn], ratio);
+        const amountInWithoutFee = amountIn.sub(mulUp(amountIn, swapFeePercentage));
+
+        const amountOut = await mock.outGivenIn(
+          balances[tokenIn],
+          weights[tokenIn],
+          balances[tokenOut],
+          weights[tokenOut],
+          amountInWithoutFee
+        );
+
+        const newBalances = [...balances];
+        newBalances[tokenIn] = balances[tokenIn].add(amountIn);
+        newBalances[tokenOut] = balances[tokenOut].sub(amountOut);
+        expect(await mock.invariant(weights, newBalances)).to.be.gte(await mock.invariant(weights, balances));
+      });
+    });
+
+    it('swaps given out never decrease the invariant', async () => {
+      await checkProperty(swapCase(weightedMathState()), async ({ state, tokenIn, tokenOut, ratio }) => {
+        const { balances, weights, swapFeePercentage } = state;
+        const amountOut = mulDown(balances[tokenOut], ratio);
+
+        const amountInWithoutFee = await mock.inGivenOut(
+          balances[tokenIn],
+          weights[tokenIn],
+          balances[tokenOut],
+          weights[tokenOut],
+          amountOut
+        );
+        const amountIn = divUp(amountInWithoutFee, complement(swapFeePercentage));
+
+        const newBalances = [...balances];
+        newBalances[tokenIn] = balances[tokenIn].add(amountIn);
+        newBalances[tokenOut] = balances[tokenOut].sub(amountOut);
+        expect(await mock.invariant(weights, newBalances)).to.be.gte(await mock.invariant(weights, balances));
+      });
+    });
+
+    it('swaps given in and given out are consistent', async () => {
+      await checkProperty(swapCase(weightedMathState()), async ({ state, tokenIn, tokenOut, ratio }) => {
+        const { balances, weights } = state;
+        const params = [balances[tokenIn], weights[tokenIn], balances[tokenOut], weights[tokenOut]];
+        const amountIn = mulDown(balances[tokenIn], ratio);
+
+        const amountOut = await mock.outGivenIn(...params, amountIn);
+        if (amountOut.gt(mulDown(balances[tokenOut], MAX_OUT_RATIO))) return;
+
+        expectEqualWithError(await mock.inGivenOut(...params, amountOut), amountIn, MAX_RELATIVE_ERROR);
+      });
+    });
+
+    it('joining and exiting a single token never profits', async () => {
+      const arbitrary = singleTokenCase(weightedMathState(), joinExitRatio());
+
+      await checkProperty(arbitrary, async ({ state, token, ratio }) => {
+        const { balances, weights, totalSupply, swapFeePercentage } = state;
+        const bptAmount = mulDown(totalSupply, ratio);
+
+        const params = [weights[token], bptAmount] as const;
+        const amountIn = await mock.tokenInForExactBPTOut(balances[token], ...params, totalSupply, swapFeePercentage);
+
+        const newBalance = balances[token].add(amountIn);
+        const newSupply = totalSupply.add(bptAmount);
+        const amountOut = await mock.exactBPTInForTokenOut(newBalance, ...params, newSupply, swapFeePercentage);
+
+        expect(amountOut).to.be.lte(amountIn);
+      });
+    });
+
+    it('joining and exiting all tokens never profits', async () => {
+      await checkProperty(multiTokenCase(weightedMathState(), joinExitRatio()), async ({ state, ratios }) => {
+        const { balances, weights, totalSupply, swapFeePercentage } = state;
+        const amounts = balances.map((balance, i) => mulDown(balance, ratios[i]));
+
+        const bptOut = await mock.exactTokensInForBPTOut(balances, weights, amounts, totalSupply, swapFeePercentage);
+
+        const newBalances = balances.map((balance, i) => balance.add(amounts[i]));
+        const newSupply = totalSupply.add(bptOut);
+        const bptIn = await mock.bptInForExactTokensOut(newBalances, weights, amounts, newSupply, swapFeePercentage);
+
+        expect(bptIn).to.be.gte(bptOut);
+      });
+    });
+  });
 });
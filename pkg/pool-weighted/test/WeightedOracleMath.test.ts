@@ -1,7 +1,9 @@
+import { expect } from 'chai';
 import { Contract } from 'ethers';
 
 import { BigNumberish, bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
+import { fromLowResLog, toLowResLog } from '@balancer-labs/v2-helpers/src/logExpMath';
 import { expectEqualWithError } from '@balancer-labs/v2-helpers/src/test/relativeError';
 import { range } from 'lodash';
 import { toNormalizedWeights } from '@balancer-labs/v2-helpers/src/models/pools/weighted/misc';
@@ -39,6 +41,16 @@ describe('WeighteOracledMath', function () {
     context('medium and large values', () => {
       itRecoversOriginalValueWithError(5, 35, MAX_RELATIVE_ERROR);
     });
+
+    it('matches the off-chain codec', async () => {
+      for (const power of range(1, 35)) {
+        for (const original of valuesInMagnitude(power)) {
+          const log = await mock.toLowResLog(original);
+          expect(log).to.equal(toLowResLog(original));
+          expect(await mock.fromLowResLog(log)).to.equal(fromLowResLog(log));
+        }
+      }
+    });
   });
 
   describe('spot price', () => {
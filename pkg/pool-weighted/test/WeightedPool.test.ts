@@ -6,8 +6,18 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-wit
 import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
 import { MinimalSwapInfoPool, TwoTokenPool } from '@balancer-labs/v2-helpers/src/models/vault/pools';
 import { BigNumberish, bn, decimal, fp, pct } from '@balancer-labs/v2-helpers/src/numbers';
-import { MAX_INT22, MAX_UINT10, MAX_UINT31, MAX_UINT64, MIN_INT22 } from '@balancer-labs/v2-helpers/src/constants';
+import { fromLowResLog } from '@balancer-labs/v2-helpers/src/logExpMath';
+import { complement, divUp, mulUp, sub } from '@balancer-labs/v2-helpers/src/fixedPoint';
 import {
+  DELEGATE_OWNER,
+  MAX_INT22,
+  MAX_UINT10,
+  MAX_UINT31,
+  MAX_UINT64,
+  MIN_INT22,
+} from '@balancer-labs/v2-helpers/src/constants';
+import {
+  HOUR,
   MINUTE,
   advanceTime,
   currentTimestamp,
@@ -17,6 +27,10 @@ import {
 
 import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
 import WeightedPool from '@balancer-labs/v2-helpers/src/models/pools/weighted/WeightedPool';
+import PoolPriceOracle, {
+  ORACLE_BUFFER_SIZE,
+  OracleVariable,
+} from '@balancer-labs/v2-helpers/src/models/pools/weighted/PoolPriceOracle';
 import { RawWeightedPoolDeployment, Sample } from '@balancer-labs/v2-helpers/src/models/pools/weighted/types';
 
 describe('WeightedPool', function () {
@@ -109,14 +123,14 @@ describe('WeightedPool', function () {
 
           it('stores the pre-action spot price', async () => {
             const expectedSpotPrice = await pool.estimateSpotPrice(previousBalances);
-            const actual = await pool.instance.fromLowResLog(newSample.logPairPrice);
+            const actual = fromLowResLog(newSample.logPairPrice);
 
             expect(actual).to.equalWithError(expectedSpotPrice, MAX_RELATIVE_ERROR);
           });
 
           it('stores the pre-action BPT price', async () => {
             const expectedBPTPrice = await pool.estimateBptPrice(0, previousBalances[0], previousTotalSupply);
-            const actual = await pool.instance.fromLowResLog(newSample.logBptPrice);
+            const actual = fromLowResLog(newSample.logBptPrice);
 
             // The BPT price has twice as much error
             expect(actual).to.equalWithError(expectedBPTPrice, MAX_RELATIVE_ERROR * 2);
@@ -124,7 +138,7 @@ describe('WeightedPool', function () {
 
           it('stores the pre-action invariant', async () => {
             const expectedInvariant = await pool.estimateInvariant(previousBalances);
-            const actual = await pool.instance.fromLowResLog(newSample.logInvariant);
+            const actual = fromLowResLog(newSample.logInvariant);
 
             expect(actual).to.equalWithError(expectedInvariant, MAX_RELATIVE_ERROR);
           });
@@ -149,8 +163,7 @@ describe('WeightedPool', function () {
         it('caches the log of the last invariant', async () => {
           await action(await calcLastChangeBlock(lastChangeBlockOffset));
 
-          const currentMiscData = await pool.getMiscData();
-          const actualInvariant = await pool.instance.fromLowResLog(currentMiscData.logInvariant);
+          const actualInvariant = await pool.getCachedInvariant();
           const expectedInvariant = await pool.getLastInvariant();
           expect(actualInvariant).to.be.equalWithError(expectedInvariant, MAX_RELATIVE_ERROR);
         });
@@ -158,8 +171,7 @@ describe('WeightedPool', function () {
         it('caches the total supply', async () => {
           await action(await calcLastChangeBlock(lastChangeBlockOffset));
 
-          const currentMiscData = await pool.getMiscData();
-          const actualTotalSupply = await pool.instance.fromLowResLog(currentMiscData.logTotalSupply);
+          const actualTotalSupply = await pool.getCachedTotalSupply();
           const expectedTotalSupply = await pool.totalSupply();
           expect(actualTotalSupply).to.equalWithError(expectedTotalSupply, MAX_RELATIVE_ERROR);
         });
@@ -346,12 +358,118 @@ describe('WeightedPool', function () {
         });
       });
 
+      describe('model', () => {
+        let oracle: PoolPriceOracle;
+
+        const swapGivenIn = (lastChangeBlock: number) =>
+          pool.swapGivenIn({ in: 0, out: 1, amount: fp(0.01), lastChangeBlock });
+        const swapGivenOut = (lastChangeBlock: number) =>
+          pool.swapGivenOut({ in: 1, out: 0, amount: fp(0.01), lastChangeBlock });
+        const join = (lastChangeBlock: number) => pool.joinGivenIn({ amountsIn: fp(0.1), lastChangeBlock });
+        const exit = async (lastChangeBlock: number) => {
+          const balance = await pool.balanceOf(lp);
+          await pool.multiExitGivenIn({ bptIn: balance.div(10), lastChangeBlock, from: lp });
+        };
+
+        const replay = async (elapsed: number, action: PoolHook) => {
+          const priceData = await pool.estimateOraclePriceData();
+
+          await advanceTime(elapsed);
+          await action(await calcLastChangeBlock(1));
+          oracle.processPriceData(priceData, await currentTimestamp());
+        };
+
+        const replayActions = (elapsed: number) => {
+          sharedBeforeEach('create oracle model and replay actions', async () => {
+            const { oracleIndex, oracleSampleCreationTimestamp } = await pool.getMiscData();
+            oracle = new PoolPriceOracle(oracleIndex.toNumber(), oracleSampleCreationTimestamp);
+
+            for (const action of [swapGivenIn, join, swapGivenOut, exit, swapGivenIn, exit]) {
+              await replay(elapsed, action);
+            }
+          });
+        };
+
+        const itMatchesTheOracleModel = () => {
+          it('stores the same oracle index', async () => {
+            const { oracleIndex, oracleSampleCreationTimestamp } = await pool.getMiscData();
+
+            expect(oracleIndex).to.equal(oracle.index);
+            expect(oracleSampleCreationTimestamp).to.equal(oracle.sampleCreationTimestamp);
+          });
+
+          it('stores the same samples', async () => {
+            for (let index = 0; index < ORACLE_BUFFER_SIZE; index++) {
+              const expected = oracle.getSample(index);
+              if (expected.timestamp.isZero()) continue;
+
+              const actual = await pool.instance.getSample(index);
+              Object.entries(expected).forEach(([field, value]) => expect(actual[field]).to.equal(value, field));
+            }
+          });
+
+          it('answers the same latest values', async () => {
+            for (const variable of [OracleVariable.PAIR_PRICE, OracleVariable.BPT_PRICE, OracleVariable.INVARIANT]) {
+              expect(await pool.instance.getLatest(variable)).to.equal(oracle.getLatest(variable));
+            }
+          });
+
+          it('extrapolates the same accumulators', async () => {
+            await advanceTime(MINUTE);
+
+            const queries = [
+              { variable: OracleVariable.PAIR_PRICE, ago: 0 },
+              { variable: OracleVariable.BPT_PRICE, ago: 10 },
+              { variable: OracleVariable.INVARIANT, ago: MINUTE / 2 },
+            ];
+
+            const results = await pool.instance.getPastAccumulators(queries);
+            expect(results).to.deep.equal(oracle.getPastAccumulators(queries, await currentTimestamp()));
+          });
+        };
+
+        initializePool();
+
+        context('when the actions fall in the same sample', () => {
+          replayActions(MINUTE / 4);
+
+          it('buckets the actions in the latest sample', async () => {
+            expect(oracle.index).to.equal(1);
+          });
+
+          itMatchesTheOracleModel();
+        });
+
+        context('when every action creates a new sample', () => {
+          replayActions(MINUTE * 10);
+
+          it('stores a new sample per action', async () => {
+            expect(oracle.index).to.equal(6);
+          });
+
+          itMatchesTheOracleModel();
+        });
+
+        context('when the buffer wraps around', () => {
+          sharedBeforeEach('move to the end of the buffer', async () => {
+            await pool.instance.mockOracleIndex(ORACLE_BUFFER_SIZE - 2);
+          });
+
+          replayActions(MINUTE * 10);
+
+          it('overwrites the oldest samples', async () => {
+            expect(oracle.index).to.equal(4);
+          });
+
+          itMatchesTheOracleModel();
+        });
+      });
+
       describe('setting', () => {
         const action = () => pool.enableOracle({ from: admin });
 
         sharedBeforeEach('grant role to admin', async () => {
-          const action = await actionId(pool.instance, 'enableOracle');
-          await pool.vault.grantRole(action, admin);
+          await pool.vault.grantRole(await actionId(pool.instance, 'enableOracle'), admin);
         });
 
         context('when it starts enabled', () => {
@@ -387,6 +505,9 @@ describe('WeightedPool', function () {
             });
 
             it('can only be updated by the admin', async () => {
+              expect(await pool.canPerform('enableOracle', admin)).to.be.true;
+              expect(await pool.canPerform('enableOracle', owner)).to.be.false;
+
               await expect(pool.enableOracle({ from: other })).to.be.revertedWith('SENDER_NOT_ALLOWED');
               await expect(pool.enableOracle({ from: owner })).to.be.revertedWith('SENDER_NOT_ALLOWED');
             });
@@ -408,12 +529,6 @@ describe('WeightedPool', function () {
 
       const ago = (index: number) => (LATEST - index) * 2 * MINUTE;
 
-      const VARIABLES = {
-        PAIR_PRICE: 0,
-        BPT_PRICE: 1,
-        INVARIANT: 2,
-      };
-
       const mockSamples = (ascending: boolean) => {
         sharedBeforeEach('mock samples', async () => {
           const now = await currentTimestamp();
@@ -425,12 +540,12 @@ describe('WeightedPool', function () {
             instant: (ascending ? i : MAX_BUFFER_SIZE - i) * 5,
             accumulator: (ascending ? i : MAX_BUFFER_SIZE - i) * 100,
           })).map((x) => ({
-            logPairPrice: x.instant + VARIABLES.PAIR_PRICE,
-            logBptPrice: x.instant + VARIABLES.BPT_PRICE,
-            logInvariant: x.instant + VARIABLES.INVARIANT,
-            accLogPairPrice: x.accumulator + VARIABLES.PAIR_PRICE,
-            accLogBptPrice: x.accumulator + VARIABLES.BPT_PRICE,
-            accLogInvariant: x.accumulator + VARIABLES.INVARIANT,
+            logPairPrice: x.instant + OracleVariable.PAIR_PRICE,
+            logBptPrice: x.instant + OracleVariable.BPT_PRICE,
+            logInvariant: x.instant + OracleVariable.INVARIANT,
+            accLogPairPrice: x.accumulator + OracleVariable.PAIR_PRICE,
+            accLogBptPrice: x.accumulator + OracleVariable.BPT_PRICE,
+            accLogInvariant: x.accumulator + OracleVariable.INVARIANT,
             timestamp: x.timestamp,
           }));
 
@@ -448,19 +563,19 @@ describe('WeightedPool', function () {
 
         describe('getLatest', () => {
           it('returns the latest pair price', async () => {
-            const actual = await pool.instance.getLatest(VARIABLES.PAIR_PRICE);
+            const actual = await pool.getLatest(OracleVariable.PAIR_PRICE);
             const expected = fp(decimal(samples[LATEST].logPairPrice).div(1e4).exp());
             expect(actual).to.be.equal(expected);
           });
 
           it('returns the latest BPT price', async () => {
-            const actual = await pool.instance.getLatest(VARIABLES.BPT_PRICE);
+            const actual = await pool.getLatest(OracleVariable.BPT_PRICE);
             const expected = fp(decimal(samples[LATEST].logBptPrice).div(1e4).exp());
             expect(actual).to.be.equal(expected);
           });
 
           it('returns the latest pair price', async () => {
-            const actual = await pool.instance.getLatest(VARIABLES.INVARIANT);
+            const actual = await pool.getLatest(OracleVariable.INVARIANT);
             const expected = fp(decimal(samples[LATEST].logInvariant).div(1e4).exp());
             expect(actual).to.be.equal(expected);
           });
@@ -468,13 +583,13 @@ describe('WeightedPool', function () {
 
         describe('getPastAccumulators', () => {
           const queries = [
-            { variable: VARIABLES.PAIR_PRICE, ago: ago(LATEST) },
-            { variable: VARIABLES.BPT_PRICE, ago: ago(OLDEST) },
-            { variable: VARIABLES.INVARIANT, ago: ago(MID) },
+            { variable: OracleVariable.PAIR_PRICE, ago: ago(LATEST) },
+            { variable: OracleVariable.BPT_PRICE, ago: ago(OLDEST) },
+            { variable: OracleVariable.INVARIANT, ago: ago(MID) },
           ];
 
           it('returns the expected values', async () => {
-            const results = await pool.instance.getPastAccumulators(queries);
+            const results = await pool.getPastAccumulators(queries);
 
             expect(results.length).to.be.equal(3);
 
@@ -488,9 +603,9 @@ describe('WeightedPool', function () {
           const secs = 2 * MINUTE;
 
           const queries = [
-            { variable: VARIABLES.PAIR_PRICE, secs, ago: ago(LATEST) },
-            { variable: VARIABLES.BPT_PRICE, secs, ago: ago(OLDEST + 1) },
-            { variable: VARIABLES.INVARIANT, secs, ago: ago(MID) },
+            { variable: OracleVariable.PAIR_PRICE, secs, ago: ago(LATEST) },
+            { variable: OracleVariable.BPT_PRICE, secs, ago: ago(OLDEST + 1) },
+            { variable: OracleVariable.INVARIANT, secs, ago: ago(MID) },
           ];
 
           const assertAverage = (actual: BigNumber, diff: number) => {
@@ -499,7 +614,7 @@ describe('WeightedPool', function () {
           };
 
           it('returns the expected values', async () => {
-            const results = await pool.instance.getTimeWeightedAverage(queries);
+            const results = await pool.getTimeWeightedAverage(queries);
 
             expect(results.length).to.be.equal(3);
 
@@ -507,6 +622,66 @@ describe('WeightedPool', function () {
             assertAverage(results[1], samples[OLDEST + 1].accLogBptPrice - samples[OLDEST].accLogBptPrice);
             assertAverage(results[2], samples[MID].accLogInvariant - samples[MID - 1].accLogInvariant);
           });
+
+          it('can be estimated from the past accumulators', async () => {
+            const results = await pool.getTimeWeightedAverage(queries);
+
+            for (const [i, query] of queries.entries()) {
+              expect(await pool.estimateTimeWeightedAverage(query)).to.be.equal(results[i]);
+            }
+          });
+        });
+
+        describe('getLargestSafeQueryWindow', () => {
+          it('returns the time covered by a full buffer', async () => {
+            expect(await pool.getLargestSafeQueryWindow()).to.be.equal(34 * HOUR);
+          });
+        });
+
+        describe('model', () => {
+          let oracle: PoolPriceOracle;
+
+          sharedBeforeEach('load samples into the oracle model', async () => {
+            oracle = new PoolPriceOracle(LATEST);
+            oracle.samples = samples.map((sample) => ({
+              logPairPrice: bn(sample.logPairPrice),
+              accLogPairPrice: bn(sample.accLogPairPrice),
+              logBptPrice: bn(sample.logBptPrice),
+              accLogBptPrice: bn(sample.accLogBptPrice),
+              logInvariant: bn(sample.logInvariant),
+              accLogInvariant: bn(sample.accLogInvariant),
+              timestamp: bn(sample.timestamp),
+            }));
+          });
+
+          // Lookups in between samples are interpolated
+          const agos = [ago(LATEST), ago(LATEST) + 7, ago(MID) + 1, ago(MID) - 45, ago(OLDEST + 1) + 119, ago(OLDEST)];
+
+          it('returns the same past accumulators', async () => {
+            const now = await currentTimestamp();
+            const queries = agos.map((ago, i) => ({ variable: i % 3, ago }));
+
+            const results = await pool.instance.getPastAccumulators(queries);
+            expect(results).to.deep.equal(oracle.getPastAccumulators(queries, now));
+          });
+
+          it('returns the same time weighted averages', async () => {
+            const now = await currentTimestamp();
+            // Averages look further back than their lookup time, so the ones close to the oldest sample are skipped
+            const queries = agos.slice(0, -2).map((ago, i) => ({ variable: i % 3, secs: 1 + i * 37, ago }));
+
+            const results = await pool.instance.getTimeWeightedAverage(queries);
+            expect(results).to.deep.equal(oracle.getTimeWeightedAverage(queries, now));
+          });
+
+          it('fails the same way for queries that are too old', async () => {
+            const query = { variable: OracleVariable.PAIR_PRICE, ago: ago(OLDEST) + 1 };
+
+            const now = await currentTimestamp();
+
+            await expect(pool.instance.getPastAccumulators([query])).to.be.revertedWith('ORACLE_QUERY_TOO_OLD');
+            expect(() => oracle.getPastAccumulators([query], now)).to.throw('ORACLE_QUERY_TOO_OLD');
+          });
         });
       };
 
@@ -585,6 +760,62 @@ describe('WeightedPool', function () {
     itBehavesAsWeightedPool(3);
   });
 
+  context('for a pool with tokens of mixed decimals', () => {
+    let pool: WeightedPool, tokens: TokenList;
+
+    sharedBeforeEach('deploy and initialize pool', async () => {
+      tokens = await TokenList.create(
+        [
+          { symbol: 'DAI', decimals: 18 },
+          { symbol: 'USDC', decimals: 6 },
+          { symbol: 'WBTC', decimals: 8 },
+        ],
+        { sorted: true }
+      );
+
+      const weights = [fp(0.5), fp(0.3), fp(0.2)];
+      pool = await WeightedPool.create({ tokens, weights, swapFeePercentage: POOL_SWAP_FEE_PERCENTAGE });
+
+      const initialBalances = tokens.map((token) => bn(100).mul(bn(10).pow(token.decimals)));
+      await pool.init({ initialBalances, recipient: lp });
+    });
+
+    it('scales the invariant by the token decimals', async () => {
+      expect(await pool.estimateInvariant()).to.equal(await pool.getLastInvariant());
+    });
+
+    it('scales swaps given in by the token decimals', async () => {
+      const [usdc, wbtc] = [tokens.findBySymbol('USDC'), tokens.findBySymbol('WBTC')];
+      const amount = bn(5e6);
+      const amountWithoutFees = sub(amount, mulUp(amount, POOL_SWAP_FEE_PERCENTAGE));
+      const expectedAmountOut = await pool.estimateGivenIn({ in: usdc, out: wbtc, amount: amountWithoutFees });
+
+      const result = await pool.swapGivenIn({ in: usdc, out: wbtc, amount });
+
+      expect(result).to.equal(expectedAmountOut);
+    });
+
+    it('scales swaps given out by the token decimals', async () => {
+      const [dai, usdc] = [tokens.findBySymbol('DAI'), tokens.findBySymbol('USDC')];
+      const amount = bn(5e6);
+      const expectedAmountIn = await pool.estimateGivenOut({ in: dai, out: usdc, amount });
+
+      const result = await pool.swapGivenOut({ in: dai, out: usdc, amount });
+
+      expect(result).to.equal(divUp(expectedAmountIn, complement(POOL_SWAP_FEE_PERCENTAGE)));
+    });
+
+    it('scales exits by the token decimals', async () => {
+      const wbtc = tokens.findBySymbol('WBTC');
+      const bptIn = fp(10);
+      const expectedAmountOut = await pool.estimateTokenOut(wbtc, bptIn);
+
+      const { amountsOut } = await pool.singleExitGivenIn({ from: lp, token: wbtc, bptIn });
+
+      expect(amountsOut[tokens.indexOf(wbtc)]).to.equal(expectedAmountOut);
+    });
+  });
+
   context('for a too-many token pool', () => {
     it('reverts if there are too many tokens', async () => {
       // The maximum number of tokens is 8
@@ -630,6 +861,13 @@ describe('WeightedPool', function () {
           expect(specialization).to.equal(expectedSpecialization);
         });
 
+        it('encodes the pool address and specialization in its pool ID', async () => {
+          const expectedSpecialization = numberOfTokens == 2 ? TwoTokenPool : MinimalSwapInfoPool;
+
+          expect(pool.specialization).to.equal(expectedSpecialization);
+          expect(pool.vault.decodePoolId(pool.poolId).address).to.equal(pool.address);
+        });
+
         it('registers tokens in the vault', async () => {
           const { tokens, balances } = await pool.getTokens();
 
@@ -1054,22 +1292,23 @@ describe('WeightedPool', function () {
       context('given in', () => {
         it('calculates amount out', async () => {
           const amount = fp(0.1);
-          const amountWithFees = amount.mul(POOL_SWAP_FEE_PERCENTAGE.add(fp(1))).div(fp(1));
-          const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: amountWithFees });
+          const amountWithoutFees = sub(amount, mulUp(amount, POOL_SWAP_FEE_PERCENTAGE));
+          const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: amountWithoutFees });
 
-          const result = await pool.swapGivenIn({ in: 1, out: 0, amount: amountWithFees });
+          const result = await pool.swapGivenIn({ in: 1, out: 0, amount });
 
-          expect(result).to.be.equalWithError(expectedAmountOut, 0.01);
+          expect(result).to.equal(expectedAmountOut);
         });
 
         it('calculates max amount out', async () => {
           const maxAmountIn = await pool.getMaxIn(1);
           const maxAmountInWithFees = maxAmountIn.mul(POOL_SWAP_FEE_PERCENTAGE.add(fp(1))).div(fp(1));
-          const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: maxAmountInWithFees });
+          const amountWithoutFees = sub(maxAmountInWithFees, mulUp(maxAmountInWithFees, POOL_SWAP_FEE_PERCENTAGE));
+          const expectedAmountOut = await pool.estimateGivenIn({ in: 1, out: 0, amount: amountWithoutFees });
 
           const result = await pool.swapGivenIn({ in: 1, out: 0, amount: maxAmountInWithFees });
 
-          expect(result).to.be.equalWithError(expectedAmountOut, 0.05);
+          expect(result).to.equal(expectedAmountOut);
         });
 
         it('reverts if token in exceeds max in ratio', async () => {
@@ -1108,7 +1347,7 @@ describe('WeightedPool', function () {
 
           const result = await pool.swapGivenOut({ in: 1, out: 0, amount });
 
-          expect(result).to.be.equalWithError(expectedAmountIn, 0.1);
+          expect(result).to.equal(divUp(expectedAmountIn, complement(POOL_SWAP_FEE_PERCENTAGE)));
         });
 
         it('calculates max amount in', async () => {
@@ -1117,7 +1356,7 @@ describe('WeightedPool', function () {
 
           const result = await pool.swapGivenOut({ in: 1, out: 0, amount });
 
-          expect(result).to.be.equalWithError(expectedAmountIn, 0.1);
+          expect(result).to.equal(divUp(expectedAmountIn, complement(POOL_SWAP_FEE_PERCENTAGE)));
         });
 
         it('reverts if token in exceeds max out ratio', async () => {
@@ -1148,6 +1387,88 @@ describe('WeightedPool', function () {
       });
     });
 
+    describe('set swap fee percentage', () => {
+      const newSwapFeePercentage = fp(0.02);
+
+      context('with an owner', () => {
+        sharedBeforeEach('deploy pool', async () => {
+          await deployPool({ owner });
+        });
+
+        it('can be changed by the owner', async () => {
+          expect(await pool.canPerform('setSwapFeePercentage', owner)).to.be.true;
+
+          await pool.setSwapFeePercentage(newSwapFeePercentage, { from: owner });
+
+          expect(await pool.getSwapFeePercentage()).to.equal(newSwapFeePercentage);
+          expect(pool.swapFeePercentage).to.equal(newSwapFeePercentage);
+        });
+
+        it('is reported as reserved to the owner', async () => {
+          const { owner: reportedOwner, ownerOnlyMethods } = await pool.getPermissionsTarget();
+
+          expect(reportedOwner).to.equal(owner.address);
+          expect(ownerOnlyMethods).to.include('setSwapFeePercentage');
+          expect(ownerOnlyMethods).not.to.include('setPaused');
+        });
+
+        it('cannot be changed by other accounts, even if granted the role', async () => {
+          await pool.vault.grantRole(await actionId(pool.instance, 'setSwapFeePercentage'), other);
+          expect(await pool.canPerform('setSwapFeePercentage', other)).to.be.false;
+
+          await expect(pool.setSwapFeePercentage(newSwapFeePercentage, { from: other })).to.be.revertedWith(
+            'SENDER_NOT_ALLOWED'
+          );
+        });
+      });
+
+      context('with a delegated owner', () => {
+        sharedBeforeEach('deploy pool', async () => {
+          await deployPool({ owner: DELEGATE_OWNER });
+        });
+
+        it('can be changed by accounts granted the role', async () => {
+          await pool.setSwapFeePercentage(newSwapFeePercentage, { from: other, grantRole: true });
+
+          expect(await pool.canPerform('setSwapFeePercentage', other)).to.be.true;
+          expect(await pool.getSwapFeePercentage()).to.equal(newSwapFeePercentage);
+        });
+
+        it('is reported as controlled by the authorizer', async () => {
+          const { ownerOnlyMethods } = await pool.getPermissionsTarget();
+
+          expect(ownerOnlyMethods).to.be.empty;
+        });
+
+        it('cannot be changed by accounts without the role', async () => {
+          expect(await pool.canPerform('setSwapFeePercentage', other)).to.be.false;
+
+          await expect(pool.setSwapFeePercentage(newSwapFeePercentage, { from: other })).to.be.revertedWith(
+            'SENDER_NOT_ALLOWED'
+          );
+        });
+      });
+    });
+
+    describe('set paused', () => {
+      sharedBeforeEach('deploy pool', async () => {
+        await deployPool({ owner });
+      });
+
+      it('can be paused by accounts granted the role', async () => {
+        await pool.setPaused(true, { from: other, grantRole: true });
+
+        const { paused } = await pool.instance.getPausedState();
+        expect(paused).to.be.true;
+      });
+
+      it('cannot be paused by the owner without the role', async () => {
+        expect(await pool.canPerform('setPaused', owner)).to.be.false;
+
+        await expect(pool.setPaused(true, { from: owner })).to.be.revertedWith('SENDER_NOT_ALLOWED');
+      });
+    });
+
     describe('protocol swap fees', () => {
       const protocolFeePercentage = fp(0.1); // 10 %
 
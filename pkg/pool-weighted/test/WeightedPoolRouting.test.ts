@@ -0,0 +1,163 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { deploy } from '@balancer-labs/v2-helpers/src/contract';
+import { MAX_UINT256, ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
+import { expectEqualWithError } from '@balancer-labs/v2-helpers/src/test/relativeError';
+import { findRoute, RouterPool } from '@balancer-labs/v2-helpers/src/models/vault/router';
+import { SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
+import { encodeJoinWeightedPool } from '@balancer-labs/v2-helpers/src/models/pools/weighted/encoding';
+import { toNormalizedWeights } from '@balancer-labs/v2-helpers/src/models/pools/weighted/misc';
+
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
+
+describe('WeightedPool routing', function () {
+  let vault: Vault, tokens: TokenList;
+  let lp: SignerWithAddress, trader: SignerWithAddress;
+
+  const pools: RouterPool[] = [];
+
+  const SWAP_FEE_PERCENTAGE = fp(0.01);
+  const INITIAL_BALANCE = fp(100);
+
+  before('setup signers', async () => {
+    [, lp, trader] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy pools', async () => {
+    vault = await Vault.create();
+    tokens = await TokenList.create(['DAI', 'MKR', 'SNX'], { sorted: true });
+    await tokens.mint({ to: [lp, trader], amount: fp(1000) });
+    await tokens.approve({ to: vault.address, amount: MAX_UINT256, from: [lp, trader] });
+
+    // DAI can be traded for MKR directly or through SNX
+    pools.length = 0;
+    pools.push(await createPool([tokens.DAI.address, tokens.MKR.address], [fp(50), fp(50)]));
+    pools.push(await createPool([tokens.DAI.address, tokens.SNX.address], [fp(80), fp(20)]));
+    pools.push(await createPool([tokens.MKR.address, tokens.SNX.address], [fp(50), fp(50)]));
+  });
+
+  async function createPool(poolTokens: string[], rawWeights: BigNumber[]): Promise<RouterPool> {
+    // Pool tokens must be sorted, which is already the case since they are a subset of a sorted token list
+    const sortedTokens = tokens.addresses.filter((token) => poolTokens.includes(token));
+    const weights = toNormalizedWeights(sortedTokens.map((token) => rawWeights[poolTokens.indexOf(token)]));
+
+    const pool = await deploy('WeightedPool', {
+      args: [
+        vault.address,
+        'Balancer Pool Token',
+        'BPT',
+        sortedTokens,
+        weights,
+        SWAP_FEE_PERCENTAGE,
+        0,
+        0,
+        ZERO_ADDRESS,
+      ],
+    });
+    const poolId = await pool.getPoolId();
+
+    const balances = sortedTokens.map(() => INITIAL_BALANCE);
+    await vault.instance.connect(lp).joinPool(poolId, lp.address, lp.address, {
+      assets: sortedTokens,
+      maxAmountsIn: balances,
+      fromInternalBalance: false,
+      userData: encodeJoinWeightedPool({ kind: 'Init', amountsIn: balances }),
+    });
+
+    return {
+      kind: 'WeightedPool',
+      poolId,
+      tokens: sortedTokens,
+      balances,
+      weights,
+      swapFeePercentage: SWAP_FEE_PERCENTAGE,
+    };
+  }
+
+  async function executeRoute(kind: number, amount: BigNumber): Promise<{ routed: BigNumber; actual: BigNumber }> {
+    const route = findRoute(pools, { kind, tokenIn: tokens.DAI.address, tokenOut: tokens.MKR.address, amount });
+
+    const { assets, deltas } = await vault.batchSwap({
+      kind,
+      swaps: route.swaps.map(({ poolId, assetInIndex, assetOutIndex, amount }) => ({
+        poolId,
+        in: route.assets[assetInIndex],
+        out: route.assets[assetOutIndex],
+        amount,
+      })),
+      from: trader,
+    });
+
+    const actual =
+      kind == SWAP_KIND.GIVEN_IN
+        ? deltas[assets.indexOf(tokens.MKR.address)].mul(-1)
+        : deltas[assets.indexOf(tokens.DAI.address)];
+
+    return { routed: route.returnAmount, actual };
+  }
+
+  context('given in', () => {
+    it('matches the amount out returned by the vault', async () => {
+      const { routed, actual } = await executeRoute(SWAP_KIND.GIVEN_IN, fp(20));
+
+      expectEqualWithError(actual, routed, 0.0001);
+    });
+
+    it('improves the amount out of the direct path', async () => {
+      const direct = findRoute(pools, {
+        kind: SWAP_KIND.GIVEN_IN,
+        tokenIn: tokens.DAI.address,
+        tokenOut: tokens.MKR.address,
+        amount: fp(20),
+        maxHops: 1,
+      });
+      const route = findRoute(pools, {
+        kind: SWAP_KIND.GIVEN_IN,
+        tokenIn: tokens.DAI.address,
+        tokenOut: tokens.MKR.address,
+        amount: fp(20),
+      });
+
+      expect(route.swaps.length).to.be.gt(direct.swaps.length);
+      expect(route.returnAmount).to.be.gt(direct.returnAmount);
+    });
+  });
+
+  context('given out', () => {
+    it('matches the amount in returned by the vault', async () => {
+      const { routed, actual } = await executeRoute(SWAP_KIND.GIVEN_OUT, fp(20));
+
+      expectEqualWithError(actual, routed, 0.0001);
+    });
+
+    it('improves the amount in of the direct path', async () => {
+      const direct = findRoute(pools, {
+        kind: SWAP_KIND.GIVEN_OUT,
+        tokenIn: tokens.DAI.address,
+        tokenOut: tokens.MKR.address,
+        amount: fp(20),
+        maxHops: 1,
+      });
+      const route = findRoute(pools, {
+        kind: SWAP_KIND.GIVEN_OUT,
+        tokenIn: tokens.DAI.address,
+        tokenOut: tokens.MKR.address,
+        amount: fp(20),
+      });
+
+      expect(route.swaps.length).to.be.gt(direct.swaps.length);
+      expect(route.returnAmount).to.be.lt(direct.returnAmount);
+    });
+  });
+
+  it('throws if there is no path between the tokens', async () => {
+    const request = { kind: SWAP_KIND.GIVEN_IN, tokenIn: tokens.DAI.address, tokenOut: ZERO_ADDRESS, amount: fp(1) };
+
+    expect(() => findRoute(pools, request)).to.throw('No path found between the requested tokens');
+  });
+});
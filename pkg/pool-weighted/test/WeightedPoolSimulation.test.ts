@@ -0,0 +1,178 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
+
+import { simulate } from '@balancer-labs/v2-helpers/src/models/pools/base/simulation';
+import { SimulatedOperation } from '@balancer-labs/v2-helpers/src/models/pools/base/types';
+
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import Token from '@balancer-labs/v2-helpers/src/models/tokens/Token';
+import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
+import WeightedPool from '@balancer-labs/v2-helpers/src/models/pools/weighted/WeightedPool';
+
+describe('WeightedPool simulation', function () {
+  let admin: SignerWithAddress, lp: SignerWithAddress, trader: SignerWithAddress;
+  let vault: Vault, tokens: TokenList, pool: WeightedPool;
+
+  const PROTOCOL_SWAP_FEE_PERCENTAGE = fp(0.2);
+
+  before('setup signers', async () => {
+    [, admin, lp, trader] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy vault, tokens and pool', async () => {
+    vault = await Vault.create({ admin });
+    await vault.setSwapFeePercentage(PROTOCOL_SWAP_FEE_PERCENTAGE);
+
+    tokens = await TokenList.create(
+      [
+        { symbol: 'DAI', decimals: 18 },
+        { symbol: 'USDC', decimals: 6 },
+        { symbol: 'WBTC', decimals: 8 },
+      ],
+      { sorted: true }
+    );
+    await tokens.mint({ to: [lp, trader], amount: bn(1e30) });
+    await tokens.approve({ from: [lp, trader], to: vault.address });
+
+    const weights = [fp(0.5), fp(0.3), fp(0.2)];
+    pool = await WeightedPool.create({ vault, tokens, weights, swapFeePercentage: fp(0.01) });
+
+    const initialBalances = tokens.map((token) => bn(100).mul(bn(10).pow(token.decimals)));
+    await pool.init({ from: lp, initialBalances });
+  });
+
+  it('captures the state of the pool', async () => {
+    const snapshot = await pool.snapshot();
+
+    expect(snapshot.tokens).to.deep.equal(tokens.addresses);
+    expect(snapshot.balances).to.deep.equal(await pool.getBalances());
+    expect(snapshot.scalingFactors).to.deep.equal(tokens.map((token) => bn(10).pow(18 - token.decimals)));
+    expect(snapshot.mathParams).to.deep.equal(await pool.getNormalizedWeights());
+    expect(snapshot.totalSupply).to.equal(await pool.totalSupply());
+    expect(snapshot.lastInvariant).to.equal(await pool.getLastInvariant());
+    expect(snapshot.lastInvariantMathParams).to.deep.equal(await pool.getNormalizedWeights());
+    expect(snapshot.protocolSwapFeePercentage).to.equal(PROTOCOL_SWAP_FEE_PERCENTAGE);
+  });
+
+  it('predicts the result of a sequence of swaps, joins and exits', async () => {
+    const snapshot = await pool.snapshot();
+    const [first, second, third] = tokens.tokens;
+    const amount = (token: Token, units: number) => bn(units).mul(bn(10).pow(token.decimals));
+
+    const simulation = await pool.simulate(
+      [
+        { kind: 'SwapGivenIn', in: first, out: second, amount: amount(first, 5) },
+        { kind: 'SwapGivenOut', in: third, out: first, amount: amount(first, 3) },
+        { kind: 'JoinGivenIn', amountsIn: [amount(first, 10), amount(second, 2), 0] },
+        { kind: 'SwapGivenIn', in: second, out: third, amount: amount(second, 4) },
+        { kind: 'SingleExitGivenIn', token: third, bptIn: fp(10) },
+      ],
+      snapshot
+    );
+
+    const { amountCalculated: firstAmountOut } = await vault.swap({
+      kind: SWAP_KIND.GIVEN_IN,
+      poolId: pool.poolId,
+      in: first,
+      out: second,
+      amount: amount(first, 5),
+      from: trader,
+    });
+    const { amountCalculated: secondAmountIn } = await vault.swap({
+      kind: SWAP_KIND.GIVEN_OUT,
+      poolId: pool.poolId,
+      in: third,
+      out: first,
+      amount: amount(first, 3),
+      from: trader,
+    });
+    const join = await pool.joinGivenIn({ from: lp, amountsIn: [amount(first, 10), amount(second, 2), 0] });
+    const { amountCalculated: thirdAmountOut } = await vault.swap({
+      kind: SWAP_KIND.GIVEN_IN,
+      poolId: pool.poolId,
+      in: second,
+      out: third,
+      amount: amount(second, 4),
+      from: trader,
+    });
+    const exit = await pool.singleExitGivenIn({ from: lp, token: third, bptIn: fp(10) });
+
+    const { results, snapshot: expectedSnapshot } = simulation;
+    expect(results[0].amountsOut[1]).to.equal(firstAmountOut);
+    expect(results[1].amountsIn[2]).to.equal(secondAmountIn);
+    expect(results[2].amountsIn).to.deep.equal(join.amountsIn);
+    expect(results[2].dueProtocolFeeAmounts).to.deep.equal(join.dueProtocolFeeAmounts);
+    expect(results[3].amountsOut[2]).to.equal(thirdAmountOut);
+    expect(results[4].amountsOut).to.deep.equal(exit.amountsOut);
+    expect(results[4].dueProtocolFeeAmounts).to.deep.equal(exit.dueProtocolFeeAmounts);
+
+    const { paidProtocolFeeAmounts } = expectedSnapshot;
+    expect({ ...(await pool.snapshot()), paidProtocolFeeAmounts }).to.deep.equal(expectedSnapshot);
+    expect(await vault.getCollectedFeeAmounts(tokens)).to.deep.equal(paidProtocolFeeAmounts);
+  });
+
+  it('does not modify the given snapshot', async () => {
+    const snapshot = await pool.snapshot();
+    await pool.simulate(
+      [{ kind: 'JoinGivenIn', amountsIn: snapshot.balances.map((balance) => balance.div(10)) }],
+      snapshot
+    );
+
+    expect(snapshot).to.deep.equal(await pool.snapshot());
+  });
+
+  it('predicts the protocol swap fees paid across swaps between joins and exits', async () => {
+    const [first, second, third] = tokens.tokens;
+    const amount = (token: Token, units: number) => bn(units).mul(bn(10).pow(token.decimals));
+    let snapshot = await pool.snapshot();
+
+    const swap = async (tokenIn: Token, tokenOut: Token, units: number) => {
+      const amountIn = amount(tokenIn, units);
+      ({ snapshot } = await pool.simulate(
+        [{ kind: 'SwapGivenIn', in: tokenIn, out: tokenOut, amount: amountIn }],
+        snapshot
+      ));
+
+      const kind = SWAP_KIND.GIVEN_IN;
+      await vault.swap({ kind, poolId: pool.poolId, in: tokenIn, out: tokenOut, amount: amountIn, from: trader });
+    };
+
+    await swap(first, second, 10);
+    await swap(second, third, 8);
+    await swap(third, first, 5);
+
+    const joinDueProtocolFeeAmounts = await pool.estimateDueProtocolFeeAmounts(snapshot);
+    expect(joinDueProtocolFeeAmounts).to.deep.equal(await pool.estimateDueProtocolFeeAmounts());
+    expect(joinDueProtocolFeeAmounts[0]).to.be.gt(0);
+    expect(joinDueProtocolFeeAmounts.slice(1)).to.deep.equal([bn(0), bn(0)]);
+
+    const amountsIn = [amount(first, 10), amount(second, 5), amount(third, 1)];
+    ({ snapshot } = await pool.simulate([{ kind: 'JoinGivenIn', amountsIn }], snapshot));
+    const join = await pool.joinGivenIn({ from: lp, amountsIn });
+    expect(join.dueProtocolFeeAmounts).to.deep.equal(joinDueProtocolFeeAmounts);
+    expect(await pool.estimateDueProtocolFeeAmounts()).to.deep.equal([bn(0), bn(0), bn(0)]);
+
+    await swap(second, first, 20);
+    await swap(first, third, 15);
+
+    const exitDueProtocolFeeAmounts = await pool.estimateDueProtocolFeeAmounts(snapshot);
+    const exit = await pool.multiExitGivenIn({ from: lp, bptIn: fp(5) });
+    expect(exit.dueProtocolFeeAmounts).to.deep.equal(exitDueProtocolFeeAmounts);
+
+    ({ snapshot } = await pool.simulate([{ kind: 'MultiExitGivenIn', bptIn: fp(5) }], snapshot));
+    expect(await vault.getCollectedFeeAmounts(tokens)).to.deep.equal(snapshot.paidProtocolFeeAmounts);
+  });
+
+  it('rejects operations the pool would reject', async () => {
+    const snapshot = await pool.snapshot();
+    const amount = snapshot.balances[0].div(2);
+
+    const operations: SimulatedOperation[] = [{ kind: 'SwapGivenIn', in: 0, out: 1, amount }];
+
+    expect(() => simulate(pool.simulationMath, snapshot, operations)).to.throw('MAX_IN_RATIO');
+  });
+});
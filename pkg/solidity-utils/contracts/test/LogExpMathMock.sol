@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+// This program is free software: you can redistribute it and/or modify
+// it under the terms of the GNU General Public License as published by
+// the Free Software Foundation, either version 3 of the License, or
+// (at your option) any later version.
+
+// This program is distributed in the hope that it will be useful,
+// but WITHOUT ANY WARRANTY; without even the implied warranty of
+// MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+// GNU General Public License for more details.
+
+// You should have received a copy of the GNU General Public License
+// along with this program.  If not, see <http://www.gnu.org/licenses/>.
+
+pragma solidity ^0.7.0;
+
+import "../math/LogExpMath.sol";
+
+contract LogExpMathMock {
+    function pow(uint256 x, uint256 y) external pure returns (uint256) {
+        return LogExpMath.pow(x, y);
+    }
+
+    function exp(int256 x) external pure returns (int256) {
+        return LogExpMath.exp(x);
+    }
+
+    function log(int256 arg, int256 base) external pure returns (int256) {
+        return LogExpMath.log(arg, base);
+    }
+
+    function ln(int256 a) external pure returns (int256) {
+        return LogExpMath.ln(a);
+    }
+}
@@ -0,0 +1,68 @@
+import { expect } from 'chai';
+import { Contract } from 'ethers';
+
+import { bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { deploy } from '@balancer-labs/v2-helpers/src/contract';
+import * as LogExpMath from '@balancer-labs/v2-helpers/src/logExpMath';
+
+describe('LogExpMath', function () {
+  let math: Contract;
+
+  const VALUES = [bn(1), bn(1e9), fp(0.000001), fp(0.5), fp(0.95), fp(1), fp(1.05), fp(2), fp(1e4), fp(1e20)];
+  const EXPONENTS = [fp(-41), fp(-20), fp(-1), fp(-0.05), bn(0), fp(0.05), fp(1), fp(20), fp(100), fp(130)];
+
+  before('deploy math', async () => {
+    math = await deploy('LogExpMathMock');
+  });
+
+  describe('ln', () => {
+    it('matches the off-chain model', async () => {
+      for (const value of VALUES) {
+        expect(await math.ln(value)).to.equal(LogExpMath.ln(value));
+      }
+    });
+
+    it('reverts for zero', async () => {
+      await expect(math.ln(0)).to.be.revertedWith('OUT_OF_BOUNDS');
+      expect(() => LogExpMath.ln(0)).to.throw('OUT_OF_BOUNDS');
+    });
+  });
+
+  describe('exp', () => {
+    it('matches the off-chain model', async () => {
+      for (const exponent of EXPONENTS) {
+        expect(await math.exp(exponent)).to.equal(LogExpMath.exp(exponent));
+      }
+    });
+
+    it('reverts for exponents out of bounds', async () => {
+      await expect(math.exp(fp(131))).to.be.revertedWith('INVALID_EXPONENT');
+      expect(() => LogExpMath.exp(fp(131))).to.throw('INVALID_EXPONENT');
+    });
+  });
+
+  describe('log', () => {
+    it('matches the off-chain model', async () => {
+      for (const base of [fp(0.95), fp(2), fp(10)]) {
+        for (const arg of VALUES) {
+          expect(await math.log(arg, base)).to.equal(LogExpMath.log(arg, base));
+        }
+      }
+    });
+  });
+
+  describe('pow', () => {
+    it('matches the off-chain model', async () => {
+      for (const base of VALUES.slice(3, -1)) {
+        for (const exponent of [bn(0), fp(0.01), fp(0.5), fp(1), fp(3), fp(4.5)]) {
+          expect(await math.pow(base, exponent)).to.equal(LogExpMath.pow(base, exponent));
+        }
+      }
+    });
+
+    it('reverts for products out of bounds', async () => {
+      await expect(math.pow(fp(1e20), fp(10))).to.be.revertedWith('PRODUCT_OUT_OF_BOUNDS');
+      expect(() => LogExpMath.pow(fp(1e20), fp(10))).to.throw('PRODUCT_OUT_OF_BOUNDS');
+    });
+  });
+});
@@ -30,12 +30,14 @@ contract MockFlashLoanRecipient is IFlashLoanRecipient {
     bool public repayLoan;
     bool public repayInExcess;
     bool public reenter;
+    bool public revertLoan;
 
     constructor(address _vault) {
         vault = _vault;
         repayLoan = true;
         repayInExcess = false;
         reenter = false;
+        revertLoan = false;
     }
 
     function setRepayLoan(bool _repayLoan) public {
@@ -50,13 +52,19 @@ contract MockFlashLoanRecipient is IFlashLoanRecipient {
         reenter = _reenter;
     }
 
-    // Repays loan unless setRepayLoan was called with 'false'
+    function setRevertLoan(bool _revertLoan) public {
+        revertLoan = _revertLoan;
+    }
+
+    // Repays loan unless setRepayLoan was called with 'false', or reverts if setRevertLoan was called with 'true'
     function receiveFlashLoan(
         IERC20[] memory tokens,
         uint256[] memory amounts,
         uint256[] memory feeAmounts,
         bytes memory userData
     ) external override {
+        require(!revertLoan, "FLASH_LOAN_RECIPIENT_REVERTED");
+
         for (uint256 i = 0; i < tokens.length; ++i) {
             IERC20 token = tokens[i];
             uint256 amount = amounts[i];
@@ -20,11 +20,11 @@ import {
 import * as expectEvent from '@balancer-labs/v2-helpers/src/test/expectEvent';
 import { lastBlockNumber, MONTH } from '@balancer-labs/v2-helpers/src/time';
 import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
-
-const OP_KIND = { WITHDRAW: 0, DEPOSIT: 1, UPDATE: 2 };
+import { PoolBalanceOpKind } from '@balancer-labs/v2-helpers/src/models/vault/balances';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
 
 describe('Asset Management', function () {
-  let authorizer: Contract, vault: Contract;
+  let authorizer: Contract, vault: Contract, vaultModel: Vault;
   let admin: SignerWithAddress,
     lp: SignerWithAddress,
     assetManager: SignerWithAddress,
@@ -38,6 +38,7 @@ describe('Asset Management', function () {
   sharedBeforeEach('deploy vault', async () => {
     authorizer = await deploy('Authorizer', { args: [admin.address] });
     vault = await deploy('Vault', { args: [authorizer.address, ZERO_ADDRESS, MONTH, MONTH] });
+    vaultModel = new Vault(false, vault, authorizer, admin);
   });
 
   context('with general pool', () => {
@@ -64,7 +65,7 @@ describe('Asset Management', function () {
       const poolId = '0x1234123412341234123412341234123412341234123412341234123412341234';
 
       describe('withdraw', () => {
-        const kind = OP_KIND.WITHDRAW;
+        const kind = PoolBalanceOpKind.WITHDRAW;
 
         it('reverts', async () => {
           await expect(
@@ -74,7 +75,7 @@ describe('Asset Management', function () {
       });
 
       describe('deposit', () => {
-        const kind = OP_KIND.DEPOSIT;
+        const kind = PoolBalanceOpKind.DEPOSIT;
 
         it('reverts', async () => {
           await expect(
@@ -84,7 +85,7 @@ describe('Asset Management', function () {
       });
 
       describe('update', () => {
-        const kind = OP_KIND.UPDATE;
+        const kind = PoolBalanceOpKind.UPDATE;
 
         it('reverts', async () => {
           await expect(
@@ -111,7 +112,7 @@ describe('Asset Management', function () {
         });
 
         describe('withdraw', () => {
-          const kind = OP_KIND.WITHDRAW;
+          const kind = PoolBalanceOpKind.WITHDRAW;
 
           it('reverts', async () => {
             await expect(
@@ -121,7 +122,7 @@ describe('Asset Management', function () {
         });
 
         describe('deposit', () => {
-          const kind = OP_KIND.DEPOSIT;
+          const kind = PoolBalanceOpKind.DEPOSIT;
 
           it('reverts', async () => {
             await expect(
@@ -131,7 +132,7 @@ describe('Asset Management', function () {
         });
 
         describe('update', () => {
-          const kind = OP_KIND.UPDATE;
+          const kind = PoolBalanceOpKind.UPDATE;
 
           it('reverts', async () => {
             await expect(
@@ -225,7 +226,7 @@ describe('Asset Management', function () {
         });
 
         describe('withdraw', () => {
-          const kind = OP_KIND.WITHDRAW;
+          const kind = PoolBalanceOpKind.WITHDRAW;
 
           context('when the sender is the asset manager', () => {
             let sender: SignerWithAddress;
@@ -312,6 +313,21 @@ describe('Asset Management', function () {
                     managedDelta: amount,
                   });
                 });
+
+                it('returns the managed balance changes', async () => {
+                  const transfer = { token: tokens.DAI.address, amount };
+                  const { events } = await vaultModel.withdrawFromPoolManaged(poolId, transfer, { from: sender });
+
+                  expect(events).to.deep.equal([
+                    {
+                      poolId,
+                      assetManager: sender.address,
+                      token: tokens.DAI.address,
+                      cashDelta: amount.mul(-1),
+                      managedDelta: amount,
+                    },
+                  ]);
+                });
               }
             });
 
@@ -344,7 +360,7 @@ describe('Asset Management', function () {
         });
 
         describe('deposit', () => {
-          const kind = OP_KIND.DEPOSIT;
+          const kind = PoolBalanceOpKind.DEPOSIT;
 
           context('when the sender is the asset manager', () => {
             let sender: SignerWithAddress;
@@ -357,7 +373,9 @@ describe('Asset Management', function () {
               const managedAmount = bn(10e18);
 
               sharedBeforeEach('withdraw', async () => {
-                const ops = [{ kind: OP_KIND.WITHDRAW, poolId, token: tokens.DAI.address, amount: managedAmount }];
+                const ops = [
+                  { kind: PoolBalanceOpKind.WITHDRAW, poolId, token: tokens.DAI.address, amount: managedAmount },
+                ];
                 await vault.connect(sender).managePoolBalance(ops);
               });
 
@@ -437,6 +455,21 @@ describe('Asset Management', function () {
                       managedDelta: amount.mul(-1),
                     });
                   });
+
+                  it('returns the managed balance changes', async () => {
+                    const transfer = { token: tokens.DAI.address, amount };
+                    const { events } = await vaultModel.depositToPoolManaged(poolId, transfer, { from: sender });
+
+                    expect(events).to.deep.equal([
+                      {
+                        poolId,
+                        assetManager: sender.address,
+                        token: tokens.DAI.address,
+                        cashDelta: amount,
+                        managedDelta: amount.mul(-1),
+                      },
+                    ]);
+                  });
                 }
               });
 
@@ -470,7 +503,7 @@ describe('Asset Management', function () {
         });
 
         describe('update', () => {
-          const kind = OP_KIND.UPDATE;
+          const kind = PoolBalanceOpKind.UPDATE;
 
           context('when the sender is the asset manager', () => {
             let sender: SignerWithAddress;
@@ -483,7 +516,9 @@ describe('Asset Management', function () {
               const managedAmount = bn(10e18);
 
               sharedBeforeEach('withdraw', async () => {
-                const ops = [{ kind: OP_KIND.WITHDRAW, poolId, token: tokens.DAI.address, amount: managedAmount }];
+                const ops = [
+                  { kind: PoolBalanceOpKind.WITHDRAW, poolId, token: tokens.DAI.address, amount: managedAmount },
+                ];
                 await vault.connect(sender).managePoolBalance(ops);
               });
 
@@ -597,6 +632,24 @@ describe('Asset Management', function () {
                       managedDelta: amount.sub(previousBalance.managed),
                     });
                   });
+
+                  it('returns the managed balance changes', async () => {
+                    const previousBalance = await vault.getPoolTokenInfo(poolId, tokens.DAI.address);
+
+                    const transfer = { token: tokens.DAI.address, amount };
+                    const { events } = await vaultModel.updatePoolManagedBalance(poolId, transfer, { from: sender });
+
+                    const managedDelta = amount.sub(previousBalance.managed);
+                    expect(events).to.deep.equal([
+                      {
+                        poolId,
+                        assetManager: sender.address,
+                        token: tokens.DAI.address,
+                        cashDelta: bn(0),
+                        managedDelta,
+                      },
+                    ]);
+                  });
                 }
               });
 
@@ -634,10 +687,10 @@ describe('Asset Management', function () {
             context('with the same managed token', () => {
               it('succeeds', async () => {
                 const ops = [
-                  { poolId, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.DEPOSIT, amount: 3, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.UPDATE, amount: 10, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.WITHDRAW, amount: 6, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.DEPOSIT, amount: 3, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.UPDATE, amount: 10, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 6, token: tokens.DAI.address },
                 ];
 
                 const totalWithdraw = bn(5 - 3 + 6);
@@ -665,10 +718,10 @@ describe('Asset Management', function () {
             context('with managed and unmanaged tokens', () => {
               it('reverts', async () => {
                 const ops = [
-                  { poolId, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.DEPOSIT, amount: 3, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.UPDATE, amount: 0, token: tokens.MKR.address }, // Unmanaged
-                  { poolId, kind: OP_KIND.WITHDRAW, amount: 6, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.DEPOSIT, amount: 3, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.UPDATE, amount: 0, token: tokens.MKR.address }, // Unmanaged
+                  { poolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 6, token: tokens.DAI.address },
                 ];
 
                 await expect(vault.connect(assetManager).managePoolBalance(ops)).to.be.revertedWith(
@@ -680,10 +733,10 @@ describe('Asset Management', function () {
             context('with managed and unregistered tokens', () => {
               it('reverts', async () => {
                 const ops = [
-                  { poolId, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.DEPOSIT, amount: 3, token: tokens.DAI.address },
-                  { poolId, kind: OP_KIND.UPDATE, amount: 0, token: vault.address }, // Unregistered
-                  { poolId, kind: OP_KIND.WITHDRAW, amount: 6, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.DEPOSIT, amount: 3, token: tokens.DAI.address },
+                  { poolId, kind: PoolBalanceOpKind.UPDATE, amount: 0, token: vault.address }, // Unregistered
+                  { poolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 6, token: tokens.DAI.address },
                 ];
 
                 await expect(vault.connect(assetManager).managePoolBalance(ops)).to.be.revertedWith(
@@ -722,10 +775,10 @@ describe('Asset Management', function () {
             context('with the same managed token', () => {
               it('succeeds', async () => {
                 const ops = [
-                  { poolId: poolIdA, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.UPDATE, amount: 10, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.DAI.address },
-                  { poolId: poolIdA, kind: OP_KIND.DEPOSIT, amount: 2, token: tokens.DAI.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.UPDATE, amount: 10, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.DAI.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.DEPOSIT, amount: 2, token: tokens.DAI.address },
                 ];
 
                 const totalWithdrawA = bn(5 - 2);
@@ -762,12 +815,12 @@ describe('Asset Management', function () {
             context('with multiple managed tokens', () => {
               it('succeeds', async () => {
                 const ops = [
-                  { poolId: poolIdA, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.UPDATE, amount: 10, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.MKR.address },
-                  { poolId: poolIdB, kind: OP_KIND.DEPOSIT, amount: 1, token: tokens.MKR.address },
-                  { poolId: poolIdA, kind: OP_KIND.DEPOSIT, amount: 2, token: tokens.DAI.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.UPDATE, amount: 10, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.MKR.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.DEPOSIT, amount: 1, token: tokens.MKR.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.DEPOSIT, amount: 2, token: tokens.DAI.address },
                 ];
 
                 const totalDAIWithdrawA = bn(5 - 2);
@@ -820,11 +873,11 @@ describe('Asset Management', function () {
             context('with managed and unmanaged tokens', () => {
               it('reverts', async () => {
                 const ops = [
-                  { poolId: poolIdA, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId: poolIdA, kind: OP_KIND.UPDATE, amount: 10, token: tokens.MKR.address }, // Unmanaged
-                  { poolId: poolIdB, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.MKR.address },
-                  { poolId: poolIdA, kind: OP_KIND.DEPOSIT, amount: 2, token: tokens.DAI.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.UPDATE, amount: 10, token: tokens.MKR.address }, // Unmanaged
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.MKR.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.DEPOSIT, amount: 2, token: tokens.DAI.address },
                 ];
 
                 await expect(vault.connect(assetManager).managePoolBalance(ops)).to.be.revertedWith(
@@ -837,11 +890,11 @@ describe('Asset Management', function () {
               it('reverts', async () => {
                 const invalidPoolId = '0x1234123412341234123412341234123412341234123412341234123412341234';
                 const ops = [
-                  { poolId: poolIdA, kind: OP_KIND.WITHDRAW, amount: 5, token: tokens.DAI.address },
-                  { poolId: poolIdB, kind: OP_KIND.UPDATE, amount: 10, token: tokens.MKR.address },
-                  { poolId: poolIdB, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.MKR.address },
-                  { poolId: invalidPoolId, kind: OP_KIND.WITHDRAW, amount: 7, token: tokens.MKR.address }, // Invalid
-                  { poolId: poolIdA, kind: OP_KIND.DEPOSIT, amount: 2, token: tokens.DAI.address },
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.WITHDRAW, amount: 5, token: tokens.DAI.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.UPDATE, amount: 10, token: tokens.MKR.address },
+                  { poolId: poolIdB, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.MKR.address },
+                  { poolId: invalidPoolId, kind: PoolBalanceOpKind.WITHDRAW, amount: 7, token: tokens.MKR.address }, // Invalid
+                  { poolId: poolIdA, kind: PoolBalanceOpKind.DEPOSIT, amount: 2, token: tokens.DAI.address },
                 ];
 
                 await expect(vault.connect(assetManager).managePoolBalance(ops)).to.be.revertedWith('INVALID_POOL_ID');
@@ -5,6 +5,7 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-wit
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { expect } from 'chai';
 import { ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
+import Authorizer from '@balancer-labs/v2-helpers/src/models/authorizer/Authorizer';
 
 describe('Authorizer', () => {
   let authorizer: Contract;
@@ -176,4 +177,25 @@ describe('Authorizer', () => {
       });
     });
   });
+
+  describe('role members', () => {
+    let authorizerModel: Authorizer;
+
+    sharedBeforeEach('grant roles', async () => {
+      authorizerModel = new Authorizer(authorizer, admin);
+      await authorizerModel.grantRolesToMany([ROLE_1, ROLE_1, ROLE_2], [grantee, other, other]);
+    });
+
+    it('enumerates the accounts granted each role', async () => {
+      expect(await authorizerModel.getRoleMembers(ROLE_1)).to.have.members([grantee.address, other.address]);
+      expect(await authorizerModel.getRoleMembers(ROLE_2)).to.deep.equal([other.address]);
+    });
+
+    it('stops enumerating accounts that renounce a role', async () => {
+      await authorizerModel.renounceRole(ROLE_1, grantee);
+
+      expect(await authorizerModel.hasRole(ROLE_1, grantee)).to.be.false;
+      expect(await authorizerModel.getRoleMembers(ROLE_1)).to.deep.equal([other.address]);
+    });
+  });
 });
@@ -1,40 +1,33 @@
 import { ethers } from 'hardhat';
 import { expect } from 'chai';
-import { Contract, ContractTransaction } from 'ethers';
+import { Contract } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
 import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
 
 import * as expectEvent from '@balancer-labs/v2-helpers/src/test/expectEvent';
-import { deploy, deployedAt } from '@balancer-labs/v2-helpers/src/contract';
-import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
 import { expectBalanceChange } from '@balancer-labs/v2-helpers/src/test/tokenBalance';
-import { bn, divCeil, fp, FP_SCALING_FACTOR } from '@balancer-labs/v2-helpers/src/numbers';
-import TokensDeployer from '@balancer-labs/v2-helpers/src/models/tokens/TokensDeployer';
+import { bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
 import { ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import FlashLoanRecipient from '@balancer-labs/v2-helpers/src/models/vault/FlashLoanRecipient';
 
 describe('Flash Loans', () => {
-  let admin: SignerWithAddress, minter: SignerWithAddress, feeSetter: SignerWithAddress, other: SignerWithAddress;
-  let authorizer: Contract, vault: Contract, recipient: Contract, feesCollector: Contract;
+  let admin: SignerWithAddress, minter: SignerWithAddress, other: SignerWithAddress;
+  let vault: Vault, recipient: FlashLoanRecipient, feesCollector: Contract;
   let tokens: TokenList;
 
   before('setup', async () => {
-    [, admin, minter, feeSetter, other] = await ethers.getSigners();
+    [, admin, minter, other] = await ethers.getSigners();
   });
 
   sharedBeforeEach('deploy vault & tokens', async () => {
-    const WETH = await TokensDeployer.deployToken({ symbol: 'WETH' });
-
-    authorizer = await deploy('Authorizer', { args: [admin.address] });
-    vault = await deploy('Vault', { args: [authorizer.address, WETH.address, 0, 0] });
-    recipient = await deploy('MockFlashLoanRecipient', { from: other, args: [vault.address] });
-    feesCollector = await deployedAt('ProtocolFeesCollector', await vault.getProtocolFeesCollector());
-
-    const action = await actionId(feesCollector, 'setFlashLoanFeePercentage');
-    await authorizer.connect(admin).grantRole(action, feeSetter.address);
+    vault = await Vault.create({ admin });
+    recipient = await FlashLoanRecipient.create(vault.address, { from: other });
+    feesCollector = await vault.getFeesCollector();
 
     tokens = await TokenList.create(['DAI', 'MKR'], { from: minter, sorted: true });
-    await tokens.mint({ from: minter, to: vault, amount: bn(100e18) });
+    await tokens.mint({ from: minter, to: vault.address, amount: bn(100e18) });
 
     // The recipient will mint the fees it pays
     const MINTER_ROLE = ethers.utils.id('MINTER_ROLE');
@@ -43,20 +36,25 @@ describe('Flash Loans', () => {
 
   context('with no protocol fees', () => {
     sharedBeforeEach(async () => {
-      await feesCollector.connect(feeSetter).setFlashLoanFeePercentage(0);
+      await vault.setFlashLoanFeePercentage(bn(0));
     });
 
     it('causes no net balance change on the Vault', async () => {
       await expectBalanceChange(
-        () => vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10'),
+        () => vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10', { from: other }),
         tokens,
-        { account: vault }
+        { account: vault.address }
       );
     });
 
     it('all balance can be loaned', async () => {
-      const tx = await vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(100e18)], '0x10');
-      const receipt = await tx.wait();
+      const { events, receipt } = await vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(100e18)], '0x10', {
+        from: other,
+      });
+
+      expect(events).to.deep.equal([
+        { recipient: recipient.address, token: tokens.DAI.address, amount: bn(100e18), feeAmount: bn(0) },
+      ]);
 
       expectEvent.inReceipt(receipt, 'FlashLoan', {
         recipient: recipient.address,
@@ -68,15 +66,15 @@ describe('Flash Loans', () => {
 
     it('reverts if the loan is larger than available balance', async () => {
       await expect(
-        vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(100e18).add(1)], '0x10')
+        vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(100e18).add(1)], '0x10', { from: other })
       ).to.be.revertedWith('INSUFFICIENT_FLASH_LOAN_BALANCE');
     });
 
     it('reverts if the borrower does not repay the loan', async () => {
-      await recipient.setRepayLoan(false);
+      await recipient.setBehavior('Underpay');
 
       await expect(
-        vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10')
+        vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10', { from: other })
       ).to.be.revertedWith('INVALID_POST_LOAN_BALANCE');
     });
   });
@@ -85,7 +83,7 @@ describe('Flash Loans', () => {
     const feePercentage = fp(0.005); // 0.5%
 
     sharedBeforeEach(async () => {
-      await feesCollector.connect(feeSetter).setFlashLoanFeePercentage(feePercentage);
+      await vault.setFlashLoanFeePercentage(feePercentage);
     });
 
     it('zero loans are possible', async () => {
@@ -93,12 +91,12 @@ describe('Flash Loans', () => {
       const feeAmount = 0;
 
       await expectBalanceChange(
-        () => vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10'),
+        () => vault.flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10', { from: other }),
         tokens,
-        { account: vault }
+        { account: vault.address }
       );
 
-      expect((await feesCollector.getCollectedFeeAmounts([tokens.DAI.address]))[0]).to.equal(feeAmount);
+      expect((await vault.getCollectedFeeAmounts([tokens.DAI.address]))[0]).to.equal(feeAmount);
     });
 
     it('zero loans are possible', async () => {
@@ -106,127 +104,138 @@ describe('Flash Loans', () => {
       const feeAmount = 0;
 
       await expectBalanceChange(
-        () => vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10'),
+        () => vault.flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10', { from: other }),
         tokens,
-        { account: vault }
+        { account: vault.address }
       );
 
-      expect((await feesCollector.getCollectedFeeAmounts([tokens.DAI.address]))[0]).to.equal(feeAmount);
+      expect((await vault.getCollectedFeeAmounts([tokens.DAI.address]))[0]).to.equal(feeAmount);
     });
 
     it('the fees module receives protocol fees', async () => {
       const loan = bn(1e18);
-      const feeAmount = divCeil(loan.mul(feePercentage), FP_SCALING_FACTOR);
 
-      await expectBalanceChange(
-        () => vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10'),
+      const { feeAmounts } = await expectBalanceChange(
+        () => vault.flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10', { from: other }),
         tokens,
-        { account: feesCollector, changes: { DAI: feeAmount } }
+        { account: feesCollector, changes: { DAI: bn(5e15) } }
       );
 
-      expect((await feesCollector.getCollectedFeeAmounts([tokens.DAI.address]))[0]).to.equal(feeAmount);
+      expect(feeAmounts).to.deep.equal([bn(5e15)]);
+      expect(await vault.getCollectedFeeAmounts([tokens.DAI.address])).to.deep.equal(feeAmounts);
     });
 
     it('protocol fees are rounded up', async () => {
       const loan = bn(1);
       const feeAmount = bn(1); // In this extreme case, fees account for the full loan
 
-      await expectBalanceChange(
-        () => vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10'),
+      const { feeAmounts } = await expectBalanceChange(
+        () => vault.flashLoan(recipient.address, [tokens.DAI.address], [loan], '0x10', { from: other }),
         tokens,
         { account: feesCollector, changes: { DAI: feeAmount } }
       );
 
-      expect((await feesCollector.getCollectedFeeAmounts([tokens.DAI.address]))[0]).to.equal(feeAmount);
+      expect(feeAmounts).to.deep.equal([feeAmount]);
+      expect(await vault.getCollectedFeeAmounts([tokens.DAI.address])).to.deep.equal(feeAmounts);
     });
 
     it('excess fees can be paid', async () => {
-      await recipient.setRepayInExcess(true);
+      await recipient.setBehavior('Overpay');
 
       // The recipient pays one extra token
-      const feeAmount = bn(1e18).mul(feePercentage).div(FP_SCALING_FACTOR).add(1);
+      const feeAmount = bn(5e15).add(1);
 
-      const tx: ContractTransaction = await expectBalanceChange(
-        () => vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10'),
+      const { feeAmounts, events } = await expectBalanceChange(
+        () => vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10', { from: other }),
         tokens,
         { account: feesCollector, changes: { DAI: feeAmount } }
       );
 
-      expect(await feesCollector.getCollectedFeeAmounts([tokens.DAI.address])).to.deep.equal([feeAmount]);
-
-      expectEvent.inReceipt(await tx.wait(), 'FlashLoan', {
-        recipient: recipient.address,
-        token: tokens.DAI.address,
-        amount: bn(1e18),
-        feeAmount,
-      });
+      expect(await vault.getCollectedFeeAmounts([tokens.DAI.address])).to.deep.equal([feeAmounts[0].add(1)]);
+      expect(events).to.deep.equal([
+        { recipient: recipient.address, token: tokens.DAI.address, amount: bn(1e18), feeAmount },
+      ]);
     });
 
     it('all balance can be loaned', async () => {
-      await vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(100e18)], '0x10');
+      await vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(100e18)], '0x10', { from: other });
     });
 
     it('reverts if the borrower does not repay the loan', async () => {
-      await recipient.setRepayLoan(false);
+      await recipient.setBehavior('Underpay');
 
       await expect(
-        vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10')
+        vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10', { from: other })
       ).to.be.revertedWith('INSUFFICIENT_FLASH_LOAN_FEE_AMOUNT');
     });
 
     it('reverts if the borrower reenters the Vault', async () => {
-      await recipient.setReenter(true);
+      await recipient.setBehavior('Reenter');
 
       await expect(
-        vault.connect(other).flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10')
+        vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10', { from: other })
       ).to.be.revertedWith('REENTRANCY');
     });
 
+    it('reverts if the borrower reverts', async () => {
+      await recipient.setBehavior('Revert');
+
+      await expect(
+        vault.flashLoan(recipient.address, [tokens.DAI.address], [bn(1e18)], '0x10', { from: other })
+      ).to.be.revertedWith('FLASH_LOAN_RECIPIENT_REVERTED');
+    });
+
     describe('multi asset loan', () => {
       it('the Vault receives protocol fees proportional to each loan', async () => {
         const amounts = [1e18, 2e18].map(bn);
-        const feeAmounts = amounts.map((amount) => amount.mul(feePercentage).div(FP_SCALING_FACTOR));
 
-        await expectBalanceChange(
-          () =>
-            vault
-              .connect(other)
-              .flashLoan(recipient.address, [tokens.DAI.address, tokens.MKR.address], amounts, '0x10'),
+        const { feeAmounts } = await expectBalanceChange(
+          () => vault.flashLoan(recipient.address, tokens, amounts, '0x10', { from: other }),
           tokens,
-          { account: feesCollector, changes: { DAI: feeAmounts[0], MKR: feeAmounts[1] } }
+          { account: feesCollector, changes: { DAI: bn(5e15), MKR: bn(10e15) } }
         );
 
-        expect(await feesCollector.getCollectedFeeAmounts([tokens.DAI.address])).to.deep.equal([feeAmounts[0]]);
-        expect(await feesCollector.getCollectedFeeAmounts([tokens.MKR.address])).to.deep.equal([feeAmounts[1]]);
+        expect(feeAmounts).to.deep.equal([bn(5e15), bn(10e15)]);
+        expect(await vault.getCollectedFeeAmounts(tokens)).to.deep.equal(feeAmounts);
       });
 
       it('all balance can be loaned', async () => {
-        await vault
-          .connect(other)
-          .flashLoan(recipient.address, [tokens.DAI.address, tokens.MKR.address], [bn(100e18), bn(100e18)], '0x10');
+        await vault.flashLoan(recipient.address, tokens, [bn(100e18), bn(100e18)], '0x10', { from: other });
       });
 
       it('reverts if tokens are not unique', async () => {
         await expect(
-          vault
-            .connect(other)
-            .flashLoan(recipient.address, [tokens.DAI.address, tokens.DAI.address], [bn(100e18), bn(100e18)], '0x10')
+          vault.flashLoan(
+            recipient.address,
+            [tokens.DAI.address, tokens.DAI.address],
+            [bn(100e18), bn(100e18)],
+            '0x10',
+            {
+              from: other,
+            }
+          )
         ).to.be.revertedWith('UNSORTED_TOKENS');
       });
 
       it('reverts if tokens are not sorted', async () => {
         await expect(
-          vault
-            .connect(other)
-            .flashLoan(recipient.address, [tokens.MKR.address, tokens.DAI.address], [bn(100e18), bn(100e18)], '0x10')
+          vault.flashLoan(
+            recipient.address,
+            [tokens.MKR.address, tokens.DAI.address],
+            [bn(100e18), bn(100e18)],
+            '0x10',
+            {
+              from: other,
+            }
+          )
         ).to.be.revertedWith('UNSORTED_TOKENS');
       });
 
       it('reverts if a token is invalid', async () => {
         await expect(
-          vault
-            .connect(other)
-            .flashLoan(recipient.address, [tokens.MKR.address, ZERO_ADDRESS], [bn(100e18), bn(100e18)], '0x10')
+          vault.flashLoan(recipient.address, [tokens.MKR.address, ZERO_ADDRESS], [bn(100e18), bn(100e18)], '0x10', {
+            from: other,
+          })
         ).to.be.revertedWith('ZERO_TOKEN');
       });
     });
@@ -15,13 +15,9 @@ import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { forceSendEth } from './helpers/eth';
 import { expectBalanceChange } from '@balancer-labs/v2-helpers/src/test/tokenBalance';
-
-const OP_KIND = {
-  DEPOSIT_INTERNAL: 0,
-  WITHDRAW_INTERNAL: 1,
-  TRANSFER_INTERNAL: 2,
-  TRANSFER_EXTERNAL: 3,
-};
+import { UserBalanceOpKind } from '@balancer-labs/v2-helpers/src/models/vault/balances';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import { UserBalanceOp } from '@balancer-labs/v2-helpers/src/models/vault/types';
 
 describe('Internal Balance', () => {
   let admin: SignerWithAddress, sender: SignerWithAddress, recipient: SignerWithAddress;
@@ -42,7 +38,7 @@ describe('Internal Balance', () => {
   });
 
   describe('deposit internal balance', () => {
-    const kind = OP_KIND.DEPOSIT_INTERNAL;
+    const kind = UserBalanceOpKind.DEPOSIT_INTERNAL;
     const initialBalance = bn(10);
 
     const itHandlesDepositsProperly = (amount: BigNumber, relayed = false) => {
@@ -411,7 +407,7 @@ describe('Internal Balance', () => {
   });
 
   describe('withdraw internal balance', () => {
-    const kind = OP_KIND.WITHDRAW_INTERNAL;
+    const kind = UserBalanceOpKind.WITHDRAW_INTERNAL;
 
     const itHandlesWithdrawalsProperly = (depositedAmount: BigNumber, amount: BigNumber) => {
       context('when tokens and balances match', () => {
@@ -477,7 +473,7 @@ describe('Internal Balance', () => {
             await tokens.DAI.approve(vault, depositedAmount, { from: sender });
             await vault.manageUserBalance([
               {
-                kind: OP_KIND.DEPOSIT_INTERNAL,
+                kind: UserBalanceOpKind.DEPOSIT_INTERNAL,
                 asset: tokens.DAI.address,
                 amount: depositedAmount,
                 sender: sender.address,
@@ -551,7 +547,7 @@ describe('Internal Balance', () => {
             await weth.approve(vault, amount, { from: sender });
             await vault.manageUserBalance([
               {
-                kind: OP_KIND.DEPOSIT_INTERNAL,
+                kind: UserBalanceOpKind.DEPOSIT_INTERNAL,
                 asset: weth.address,
                 amount: amount,
                 sender: sender.address,
@@ -637,7 +633,7 @@ describe('Internal Balance', () => {
         await tokens.DAI.approve(vault, depositedAmount, { from: sender });
         await vault.connect(sender).manageUserBalance([
           {
-            kind: OP_KIND.DEPOSIT_INTERNAL,
+            kind: UserBalanceOpKind.DEPOSIT_INTERNAL,
             asset: tokens.DAI.address,
             amount: depositedAmount,
             sender: sender.address,
@@ -722,7 +718,7 @@ describe('Internal Balance', () => {
   });
 
   describe('transfer internal balance', () => {
-    const kind = OP_KIND.TRANSFER_INTERNAL;
+    const kind = UserBalanceOpKind.TRANSFER_INTERNAL;
 
     function itHandlesTransfersProperly(
       initialBalances: Dictionary<BigNumber>,
@@ -868,7 +864,7 @@ describe('Internal Balance', () => {
 
         await vault.connect(sender).manageUserBalance(
           tokens.map((token, i) => ({
-            kind: OP_KIND.DEPOSIT_INTERNAL,
+            kind: UserBalanceOpKind.DEPOSIT_INTERNAL,
             asset: token.address,
             amount: balances[i],
             sender: sender.address,
@@ -1036,7 +1032,7 @@ describe('Internal Balance', () => {
 
   describe('transfer external balance', () => {
     const balance = bn(10);
-    const kind = OP_KIND.TRANSFER_EXTERNAL;
+    const kind = UserBalanceOpKind.TRANSFER_EXTERNAL;
 
     const itHandlesExternalTransfersProperly = (amount: BigNumber) => {
       it('transfers the tokens from the sender to the recipient, using the vault allowance of the sender', async () => {
@@ -1243,24 +1239,25 @@ describe('Internal Balance', () => {
   });
 
   describe('batch', () => {
-    type UserBalanceOp = {
-      kind: number;
-      amount: number;
-      asset: string;
-      sender: string;
-      recipient: string;
-    };
+    let vaultModel: Vault;
 
     const op = (
-      kind: number,
+      kind: UserBalanceOpKind,
       token: Token,
       amount: number,
       from: SignerWithAddress,
       to?: SignerWithAddress
     ): UserBalanceOp => {
-      return { kind, asset: token.address, amount, sender: from.address, recipient: (to || from).address };
+      return { kind, asset: token, amount, sender: from, recipient: to || from };
     };
 
+    const internalBalances = (user: SignerWithAddress): Promise<BigNumber[]> =>
+      vaultModel.getInternalBalance(user, [tokens.DAI.address, tokens.MKR.address]);
+
+    sharedBeforeEach('build vault model', async () => {
+      vaultModel = new Vault(false, vault, authorizer, admin);
+    });
+
     sharedBeforeEach('mint and approve tokens', async () => {
       await tokens.mint({ to: sender, amount: bn(1000e18) });
       await tokens.approve({ from: sender, to: vault });
@@ -1278,25 +1275,27 @@ describe('Internal Balance', () => {
         context('when all ops add up', () => {
           it('succeeds', async () => {
             const ops = [
-              op(OP_KIND.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
-              op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
-              op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
-              op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
-              op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
-              op(OP_KIND.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
-              op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
+              op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
+              op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
+              op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
+              op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
+              op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
+              op(UserBalanceOpKind.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
+              op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
             ];
 
-            await vault.connect(relayer).manageUserBalance(ops);
-
-            expect((await vault.getInternalBalance(sender.address, [tokens.DAI.address]))[0]).to.equal(0);
-            expect((await vault.getInternalBalance(sender.address, [tokens.MKR.address]))[0]).to.equal(103);
+            const { internalBalanceChanges, externalBalanceTransfers } = await vaultModel.manageUserBalance(ops, {
+              from: relayer,
+            });
 
-            expect((await vault.getInternalBalance(recipient.address, [tokens.DAI.address]))[0]).to.equal(5);
-            expect((await vault.getInternalBalance(recipient.address, [tokens.MKR.address]))[0]).to.equal(9);
+            expect(internalBalanceChanges).to.have.lengthOf(8);
+            expect(externalBalanceTransfers).to.deep.equal([
+              { token: tokens.MKR.address, sender: sender.address, recipient: otherRecipient.address, amount: bn(200) },
+            ]);
 
-            expect((await vault.getInternalBalance(otherRecipient.address, [tokens.DAI.address]))[0]).to.equal(0);
-            expect((await vault.getInternalBalance(otherRecipient.address, [tokens.MKR.address]))[0]).to.equal(8);
+            expect(await internalBalances(sender)).to.deep.equal([bn(0), bn(103)]);
+            expect(await internalBalances(recipient)).to.deep.equal([bn(5), bn(9)]);
+            expect(await internalBalances(otherRecipient)).to.deep.equal([bn(0), bn(8)]);
 
             expect(await tokens.MKR.balanceOf(otherRecipient)).to.be.equal(200);
           });
@@ -1305,17 +1304,17 @@ describe('Internal Balance', () => {
         context('when all ops do not add up', () => {
           it('reverts', async () => {
             const ops = [
-              op(OP_KIND.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
-              op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
-              op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
-              op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
-              op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
-              op(OP_KIND.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
-              op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
-              op(OP_KIND.WITHDRAW_INTERNAL, tokens.MKR, 10, recipient),
+              op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
+              op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
+              op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
+              op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
+              op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
+              op(UserBalanceOpKind.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
+              op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
+              op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.MKR, 10, recipient),
             ];
 
-            await expect(vault.connect(relayer).manageUserBalance(ops)).to.be.revertedWith(
+            await expect(vaultModel.manageUserBalance(ops, { from: relayer })).to.be.revertedWith(
               'INSUFFICIENT_INTERNAL_BALANCE'
             );
           });
@@ -1325,17 +1324,19 @@ describe('Internal Balance', () => {
       context('when one of the senders did not allow the relayer', () => {
         it('reverts', async () => {
           const ops = [
-            op(OP_KIND.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
-            op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
-            op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
-            op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
-            op(OP_KIND.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
-            op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.MKR, 1, otherRecipient),
+            op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
+            op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
+            op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
+            op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
+            op(UserBalanceOpKind.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
+            op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.MKR, 1, otherRecipient),
           ];
 
-          await expect(vault.connect(relayer).manageUserBalance(ops)).to.be.revertedWith('USER_DOESNT_ALLOW_RELAYER');
+          await expect(vaultModel.manageUserBalance(ops, { from: relayer })).to.be.revertedWith(
+            'USER_DOESNT_ALLOW_RELAYER'
+          );
         });
       });
     });
@@ -1343,13 +1344,13 @@ describe('Internal Balance', () => {
     context('when paused', () => {
       sharedBeforeEach('deposit some internal balances', async () => {
         const ops = [
-          op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 1, sender, sender),
-          op(OP_KIND.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
-          op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
-          op(OP_KIND.DEPOSIT_INTERNAL, tokens.DAI, 50, sender, otherRecipient),
+          op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 1, sender, sender),
+          op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
+          op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
+          op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.DAI, 50, sender, otherRecipient),
         ];
 
-        await vault.connect(relayer).manageUserBalance(ops);
+        await vaultModel.manageUserBalance(ops, { from: relayer });
 
         await vault.connect(otherRecipient).setRelayerApproval(otherRecipient.address, relayer.address, true);
       });
@@ -1363,43 +1364,98 @@ describe('Internal Balance', () => {
       context('when only withdrawing internal balance', () => {
         it('succeeds', async () => {
           const ops = [
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 10, otherRecipient),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.MKR, 1, sender),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.MKR, 8, recipient),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.MKR, 3, recipient),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 35, otherRecipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 10, otherRecipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.MKR, 1, sender),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.MKR, 8, recipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.MKR, 3, recipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 35, otherRecipient),
           ];
 
-          await vault.connect(relayer).manageUserBalance(ops);
-
-          expect((await vault.getInternalBalance(sender.address, [tokens.DAI.address]))[0]).to.equal(0);
-          expect((await vault.getInternalBalance(sender.address, [tokens.MKR.address]))[0]).to.equal(0);
-
-          expect((await vault.getInternalBalance(recipient.address, [tokens.DAI.address]))[0]).to.equal(5);
-          expect((await vault.getInternalBalance(recipient.address, [tokens.MKR.address]))[0]).to.equal(9);
+          await vaultModel.manageUserBalance(ops, { from: relayer });
 
-          expect((await vault.getInternalBalance(otherRecipient.address, [tokens.DAI.address]))[0]).to.equal(5);
-          expect((await vault.getInternalBalance(otherRecipient.address, [tokens.MKR.address]))[0]).to.equal(0);
+          expect(await internalBalances(sender)).to.deep.equal([bn(0), bn(0)]);
+          expect(await internalBalances(recipient)).to.deep.equal([bn(5), bn(9)]);
+          expect(await internalBalances(otherRecipient)).to.deep.equal([bn(5), bn(0)]);
         });
       });
 
       context('when trying to perform multiple ops', () => {
         it('reverts', async () => {
           const ops = [
-            op(OP_KIND.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
-            op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient, recipient),
-            op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
-            op(OP_KIND.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
-            op(OP_KIND.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
-            op(OP_KIND.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
-            op(OP_KIND.WITHDRAW_INTERNAL, tokens.MKR, 1, otherRecipient, recipient),
+            op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.DAI, 10, sender, recipient),
+            op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 20, sender, recipient),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.DAI, 5, recipient, recipient),
+            op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 8, recipient, otherRecipient),
+            op(UserBalanceOpKind.TRANSFER_INTERNAL, tokens.MKR, 3, recipient, sender),
+            op(UserBalanceOpKind.TRANSFER_EXTERNAL, tokens.MKR, 200, sender, otherRecipient),
+            op(UserBalanceOpKind.DEPOSIT_INTERNAL, tokens.MKR, 100, sender, sender),
+            op(UserBalanceOpKind.WITHDRAW_INTERNAL, tokens.MKR, 1, otherRecipient, recipient),
           ];
 
-          await expect(vault.connect(relayer).manageUserBalance(ops)).to.be.revertedWith('PAUSED');
+          await expect(vaultModel.manageUserBalance(ops, { from: relayer })).to.be.revertedWith('PAUSED');
         });
       });
     });
   });
+
+  describe('single operations', () => {
+    let vaultModel: Vault;
+
+    sharedBeforeEach('build vault model', async () => {
+      vaultModel = new Vault(false, vault, authorizer, admin);
+    });
+
+    it('deposits and withdraws ETH', async () => {
+      const amount = bn(1e18);
+
+      const deposit = await vaultModel.depositToInternalBalance({ asset: ETH_TOKEN_ADDRESS, amount, from: sender });
+      expect(deposit.internalBalanceChanges).to.deep.equal([
+        { user: sender.address, token: weth.address, delta: amount },
+      ]);
+      expect(await vaultModel.getInternalBalance(sender, [weth.address])).to.deep.equal([amount]);
+
+      const withdrawal = await vaultModel.withdrawFromInternalBalance({
+        asset: ETH_TOKEN_ADDRESS,
+        amount,
+        recipient,
+        from: sender,
+      });
+      expect(withdrawal.internalBalanceChanges).to.deep.equal([
+        { user: sender.address, token: weth.address, delta: amount.mul(-1) },
+      ]);
+      expect(await vaultModel.getInternalBalance(sender, [weth.address])).to.deep.equal([bn(0)]);
+    });
+
+    it('transfers internal and external balances', async () => {
+      await tokens.mint({ to: sender, amount: 100 });
+      await tokens.approve({ from: sender, to: vault });
+      await vaultModel.depositToInternalBalance({ asset: tokens.DAI, amount: 30, from: sender });
+
+      const internal = await vaultModel.transferInternalBalance({
+        asset: tokens.DAI,
+        amount: 10,
+        recipient,
+        from: sender,
+      });
+      expect(internal.internalBalanceChanges).to.deep.equal([
+        { user: sender.address, token: tokens.DAI.address, delta: bn(-10) },
+        { user: recipient.address, token: tokens.DAI.address, delta: bn(10) },
+      ]);
+
+      const external = await vaultModel.transferToExternalBalance({
+        asset: tokens.MKR,
+        amount: 40,
+        recipient,
+        from: sender,
+      });
+      expect(external.externalBalanceTransfers).to.deep.equal([
+        { token: tokens.MKR.address, sender: sender.address, recipient: recipient.address, amount: bn(40) },
+      ]);
+
+      expect(await vaultModel.getInternalBalance(sender, tokens)).to.deep.equal(
+        tokens.map((token) => (token === tokens.DAI ? bn(20) : bn(0)))
+      );
+    });
+  });
 });
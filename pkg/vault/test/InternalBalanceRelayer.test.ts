@@ -0,0 +1,70 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { Contract } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { bn } from '@balancer-labs/v2-helpers/src/numbers';
+import { deploy } from '@balancer-labs/v2-helpers/src/contract';
+import { MAX_UINT256 } from '@balancer-labs/v2-helpers/src/constants';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import Relayer from '@balancer-labs/v2-helpers/src/models/vault/Relayer';
+import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
+
+describe('Internal Balance relayer', () => {
+  let admin: SignerWithAddress, user: SignerWithAddress;
+  let vault: Vault, relayer: Relayer, instance: Contract, tokens: TokenList;
+
+  before('setup signers', async () => {
+    [, admin, user] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy vault, relayer & tokens', async () => {
+    vault = await Vault.create({ admin });
+
+    instance = await deploy('MockInternalBalanceRelayer', { args: [vault.address] });
+    relayer = new Relayer(vault, instance);
+
+    tokens = await TokenList.create(['DAI'], { sorted: true });
+    await tokens.mint({ to: user, amount: bn(100e18) });
+    await tokens.approve({ to: vault.address, amount: MAX_UINT256, from: user });
+  });
+
+  const depositAndWithdraw = () =>
+    instance.depositAndWithdraw(user.address, tokens.DAI.address, [bn(10e18), bn(5e18)], [bn(3e18), bn(7e18)]);
+
+  context('when the relayer is authorized', () => {
+    sharedBeforeEach('authorize relayer', async () => {
+      await relayer.authorize(['manageUserBalance']);
+    });
+
+    context('when the user approved the relayer', () => {
+      sharedBeforeEach('approve relayer', async () => {
+        await relayer.approve(user);
+      });
+
+      it('deposits and withdraws internal balance on behalf of the user', async () => {
+        await depositAndWithdraw();
+
+        expect(await vault.getInternalBalance(user, tokens)).to.deep.equal([bn(5e18)]);
+        expect(await tokens.DAI.balanceOf(user)).to.equal(bn(95e18));
+      });
+    });
+
+    context('when the user did not approve the relayer', () => {
+      it('reverts', async () => {
+        expect(await relayer.isApprovedBy(user)).to.be.false;
+        await expect(depositAndWithdraw()).to.be.revertedWith('USER_DOESNT_ALLOW_RELAYER');
+      });
+    });
+  });
+
+  context('when the relayer is not authorized', () => {
+    sharedBeforeEach('approve relayer', async () => {
+      await relayer.approve(user);
+    });
+
+    it('reverts', async () => {
+      await expect(depositAndWithdraw()).to.be.revertedWith('SENDER_NOT_ALLOWED');
+    });
+  });
+});
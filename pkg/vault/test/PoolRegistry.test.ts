@@ -17,11 +17,13 @@ import {
   TwoTokenPool,
 } from '@balancer-labs/v2-helpers/src/models/vault/pools';
 import TokensDeployer from '@balancer-labs/v2-helpers/src/models/tokens/TokensDeployer';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import { decodePoolId, encodePoolId } from '@balancer-labs/v2-helpers/src/models/vault/poolId';
 import { lastBlockNumber } from '@balancer-labs/v2-helpers/src/time';
 
 describe('PoolRegistry', () => {
   let admin: SignerWithAddress, lp: SignerWithAddress, other: SignerWithAddress;
-  let authorizer: Contract, vault: Contract;
+  let authorizer: Contract, vault: Contract, vaultModel: Vault;
   let allTokens: TokenList;
 
   before(async () => {
@@ -33,6 +35,7 @@ describe('PoolRegistry', () => {
 
     authorizer = await deploy('Authorizer', { args: [admin.address] });
     vault = await deploy('Vault', { args: [authorizer.address, weth.address, 0, 0] });
+    vaultModel = new Vault(false, vault, authorizer, admin);
 
     allTokens = await TokenList.create(['DAI', 'MKR', 'SNX'], { sorted: true });
     await allTokens.mint({ to: lp, amount: 50000 });
@@ -56,16 +59,22 @@ describe('PoolRegistry', () => {
       // The existing pool specialization settings are general, minimal swap info and two tokens (0, 1 and 2)
       await expect(vault.connect(other).registerPool(3)).to.be.reverted;
     });
+
+    it('returns the id of the registered pool', async () => {
+      const poolId = await vaultModel.registerPool(MinimalSwapInfoPool, { from: other });
+
+      expect(await vaultModel.getPool(poolId)).to.deep.equal({
+        address: other.address,
+        specialization: MinimalSwapInfoPool,
+      });
+    });
   });
 
   describe('pool properties', () => {
     let poolId: string;
 
     sharedBeforeEach(async () => {
-      const receipt = await (await vault.connect(other).registerPool(GeneralPool)).wait();
-
-      const event = expectEvent.inReceipt(receipt, 'PoolRegistered');
-      poolId = event.args.poolId;
+      poolId = await vaultModel.registerPool(GeneralPool, { from: other });
     });
 
     it('has an address and an specialization setting', async () => {
@@ -90,6 +99,24 @@ describe('PoolRegistry', () => {
       const otherPoolId = event.args.poolId;
       expect(poolId).to.not.equal(otherPoolId);
     });
+
+    it('encodes the pool address, specialization and nonce in its id', async () => {
+      const otherPoolId = await vaultModel.registerPool(TwoTokenPool, { from: lp });
+
+      const { address, specialization, nonce } = decodePoolId(poolId);
+      expect({ address, specialization }).to.deep.equal(await vaultModel.getPool(poolId));
+
+      const otherPoolInfo = decodePoolId(otherPoolId);
+      expect(otherPoolInfo).to.deep.equal({ address: lp.address, specialization: TwoTokenPool, nonce: nonce.add(1) });
+      expect(encodePoolId(lp.address, TwoTokenPool, nonce.add(1))).to.equal(otherPoolId);
+    });
+
+    it('rejects invalid pool ids', async () => {
+      expect(() => decodePoolId('0x1234')).to.throw('Invalid pool ID');
+      expect(() =>
+        decodePoolId(encodePoolId(other.address, GeneralPool, 0).replace(/0000(.{20})$/, '0003$1'))
+      ).to.throw('Invalid pool specialization setting');
+    });
   });
 
   describe('token management', () => {
@@ -97,21 +124,68 @@ describe('PoolRegistry', () => {
       let poolId: string;
 
       sharedBeforeEach(async () => {
-        const receipt = await (await vault.connect(other).registerPool(specialization)).wait();
+        poolId = await vaultModel.registerPool(specialization, { from: other });
+        await vaultModel.registerTokens(poolId, [allTokens.DAI.address, allTokens.MKR.address], undefined, {
+          from: other,
+        });
+      });
 
-        const event = expectEvent.inReceipt(receipt, 'PoolRegistered');
-        poolId = event.args.poolId;
+      it('reverts when querying token balances of unexisting pools', async () => {
+        await expect(vault.getPoolTokens(ZERO_BYTES32)).to.be.revertedWith('INVALID_POOL_ID');
+      });
 
-        const assetManagers = [ZERO_ADDRESS, ZERO_ADDRESS];
+      it('registers tokens with their asset managers', async () => {
+        const tokens = [allTokens.SNX.address];
+        const assetManagers = [lp.address];
 
-        await vault
-          .connect(other)
-          .registerTokens(poolId, [allTokens.DAI.address, allTokens.MKR.address], assetManagers);
+        if (specialization == TwoTokenPool) {
+          const error = await vaultModel.registerTokens(poolId, tokens, assetManagers, { from: other }).catch((e) => e);
+          expect(error.message).to.equal('Two token pools require exactly two tokens');
+        } else {
+          await vaultModel.registerTokens(poolId, tokens, assetManagers, { from: other });
+
+          const { assetManager } = await vault.getPoolTokenInfo(poolId, allTokens.SNX.address);
+          expect(assetManager).to.equal(lp.address);
+        }
       });
 
-      it('reverts when querying token balances of unexisting pools', async () => {
-        await expect(vault.getPoolTokens(ZERO_BYTES32)).to.be.revertedWith('INVALID_POOL_ID');
+      it('deregisters tokens', async () => {
+        await vaultModel.deregisterTokens(poolId, [allTokens.MKR.address, allTokens.DAI.address], { from: other });
+
+        expect((await vault.getPoolTokens(poolId)).tokens).to.be.empty;
+      });
+
+      it('validates the tokens before sending the transaction', async () => {
+        const invalidTokens = [
+          [ZERO_ADDRESS, allTokens.SNX.address],
+          [allTokens.SNX.address, allTokens.SNX.address],
+        ];
+        const errors = ['Pool tokens cannot be the zero address', 'Pool tokens must be unique'];
+
+        for (let i = 0; i < invalidTokens.length; i++) {
+          const error = await vaultModel
+            .registerTokens(poolId, invalidTokens[i], undefined, { from: other })
+            .catch((e) => e);
+          expect(error.message).to.equal(errors[i]);
+        }
+
+        const error = await vaultModel
+          .registerTokens(poolId, [allTokens.SNX.address], [], { from: other })
+          .catch((e) => e);
+        expect(error.message).to.equal('Tokens and asset managers length mismatch');
       });
+
+      if (specialization == TwoTokenPool) {
+        it('sorts the tokens of two token pools along with their asset managers', async () => {
+          const otherPoolId = await vaultModel.registerPool(TwoTokenPool, { from: other });
+          const [tokenA, tokenB] = [allTokens.SNX.address, allTokens.DAI.address];
+          await vaultModel.registerTokens(otherPoolId, [tokenA, tokenB], [lp.address, admin.address], { from: other });
+
+          expect((await vault.getPoolTokens(otherPoolId)).tokens).to.deep.equal([tokenB, tokenA]);
+          expect((await vault.getPoolTokenInfo(otherPoolId, tokenA)).assetManager).to.equal(lp.address);
+          expect((await vault.getPoolTokenInfo(otherPoolId, tokenB)).assetManager).to.equal(admin.address);
+        });
+      }
     }
 
     describe('with general pool', () => {
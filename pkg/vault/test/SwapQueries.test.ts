@@ -1,6 +1,5 @@
 import { ethers } from 'hardhat';
 import { expect } from 'chai';
-import { Contract } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
 import { encodeJoin } from '@balancer-labs/v2-helpers/src/models/pools/mockPool';
@@ -10,10 +9,12 @@ import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { MinimalSwapInfoPool } from '@balancer-labs/v2-helpers/src/models/vault/pools';
 import { FundManagement, Swap, SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
 import { MAX_UINT112, MAX_UINT256, ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
+import { BatchSwapStep } from '@balancer-labs/v2-helpers/src/models/vault/types';
 import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
 
 describe('Swap Queries', () => {
-  let vault: Contract, funds: FundManagement;
+  let vault: Vault, funds: FundManagement;
   let tokens: TokenList;
   let lp: SignerWithAddress;
   const poolIds: string[] = [];
@@ -24,11 +25,11 @@ describe('Swap Queries', () => {
     [, lp] = await ethers.getSigners();
 
     // All of the tests in this suite have no side effects, so we deploy and initially contracts only one to save time
-    vault = await deploy('Vault', { args: [ZERO_ADDRESS, ZERO_ADDRESS, 0, 0] });
+    vault = await Vault.create();
 
     tokens = await TokenList.create(['DAI', 'MKR', 'SNX'], { sorted: true });
     await tokens.mint({ to: lp, amount: MAX_UINT112.div(2) });
-    await tokens.approve({ to: vault, amount: MAX_UINT112, from: lp });
+    await tokens.approve({ to: vault.address, amount: MAX_UINT112, from: lp });
 
     for (let i = 0; i < MAX_POOLS; ++i) {
       const pool = await deploy('MockPool', { args: [vault.address, MinimalSwapInfoPool] });
@@ -37,7 +38,7 @@ describe('Swap Queries', () => {
       await pool.setMultiplier(fp(2));
       await pool.registerTokens(tokens.addresses, Array(tokens.length).fill(ZERO_ADDRESS));
 
-      await vault.connect(lp).joinPool(poolId, lp.address, lp.address, {
+      await vault.instance.connect(lp).joinPool(poolId, lp.address, lp.address, {
         assets: tokens.addresses,
         maxAmountsIn: Array(tokens.length).fill(MAX_UINT256),
         fromInternalBalance: false,
@@ -62,6 +63,15 @@ describe('Swap Queries', () => {
     amount: number;
   };
 
+  function toSteps(swapsData: SwapData[]): BatchSwapStep[] {
+    return swapsData.map((swapData) => ({
+      poolId: poolIds[swapData.poolIdIndex],
+      in: swapData.assetInIndex,
+      out: swapData.assetOutIndex,
+      amount: swapData.amount,
+    }));
+  }
+
   function toSwaps(swapsData: SwapData[]): Swap[] {
     return swapsData.map((swapData) => {
       return {
@@ -77,8 +87,8 @@ describe('Swap Queries', () => {
   describe('given in', () => {
     function assertQueryBatchSwapGivenIn(swapsData: SwapData[], expectedDeltas: number[]) {
       it('returns the expected amounts', async () => {
-        const swaps: Swap[] = toSwaps(swapsData);
-        const deltas = await vault.queryBatchSwap(SWAP_KIND.GIVEN_IN, swaps, tokens.addresses, funds);
+        const swaps = toSteps(swapsData);
+        const { deltas } = await vault.queryBatchSwap({ kind: SWAP_KIND.GIVEN_IN, swaps, tokens });
         expect(deltas).to.deep.equal(expectedDeltas.map(bn));
       });
     }
@@ -140,7 +150,7 @@ describe('Swap Queries', () => {
     describe('error', () => {
       it('bubbles up revert reasons', async () => {
         const invalidSwap: Swap[] = toSwaps([{ poolIdIndex: 0, assetInIndex: 100, assetOutIndex: 1, amount: 5 }]);
-        const tx = vault.queryBatchSwap(SWAP_KIND.GIVEN_IN, invalidSwap, tokens.addresses, funds);
+        const tx = vault.instance.queryBatchSwap(SWAP_KIND.GIVEN_IN, invalidSwap, tokens.addresses, funds);
         await expect(tx).to.be.revertedWith('OUT_OF_BOUNDS');
       });
     });
@@ -149,9 +159,8 @@ describe('Swap Queries', () => {
   describe('given out', () => {
     function assertQueryBatchSwapGivenOut(swapsData: SwapData[], expectedDeltas: number[]) {
       it('returns the expected amounts', async () => {
-        const swaps: Swap[] = toSwaps(swapsData);
-
-        const deltas = await vault.queryBatchSwap(SWAP_KIND.GIVEN_OUT, swaps, tokens.addresses, funds);
+        const swaps = toSteps(swapsData);
+        const { deltas } = await vault.queryBatchSwap({ kind: SWAP_KIND.GIVEN_OUT, swaps, tokens });
         expect(deltas).to.deep.equal(expectedDeltas.map(bn));
       });
     }
@@ -213,7 +222,7 @@ describe('Swap Queries', () => {
     describe('error', () => {
       it('bubbles up revert reasons', async () => {
         const invalidSwap: Swap[] = toSwaps([{ poolIdIndex: 0, assetInIndex: 100, assetOutIndex: 1, amount: 5 }]);
-        const tx = vault.queryBatchSwap(SWAP_KIND.GIVEN_OUT, invalidSwap, tokens.addresses, funds);
+        const tx = vault.instance.queryBatchSwap(SWAP_KIND.GIVEN_OUT, invalidSwap, tokens.addresses, funds);
         await expect(tx).to.be.revertedWith('OUT_OF_BOUNDS');
       });
     });
@@ -1,46 +1,28 @@
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { Dictionary } from 'lodash';
-import { BigNumber, Contract, ContractReceipt } from 'ethers';
+import { BigNumber, ContractReceipt } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import Relayer from '@balancer-labs/v2-helpers/src/models/vault/Relayer';
 import TokenList, { ETH_TOKEN_ADDRESS } from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
-import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
 import { encodeJoin } from '@balancer-labs/v2-helpers/src/models/pools/mockPool';
 import * as expectEvent from '@balancer-labs/v2-helpers/src/test/expectEvent';
 import { Comparison, expectBalanceChange } from '@balancer-labs/v2-helpers/src/test/tokenBalance';
 
 import { deploy, deployedAt } from '@balancer-labs/v2-helpers/src/contract';
 import { BigNumberish, bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
-import { FundManagement, Swap, SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
-import {
-  MAX_GAS_LIMIT,
-  MAX_INT256,
-  MAX_UINT112,
-  MAX_UINT256,
-  ZERO_ADDRESS,
-  ZERO_BYTES32,
-} from '@balancer-labs/v2-helpers/src/constants';
+import { FundManagement, SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
+import { UserBalanceOpKind } from '@balancer-labs/v2-helpers/src/models/vault/balances';
+import { BatchSwap, SingleSwap, SwapAsset } from '@balancer-labs/v2-helpers/src/models/vault/types';
+import { MAX_UINT112, ZERO_ADDRESS, ZERO_BYTES32 } from '@balancer-labs/v2-helpers/src/constants';
 import {
   GeneralPool,
   MinimalSwapInfoPool,
   PoolSpecializationSetting,
   TwoTokenPool,
 } from '@balancer-labs/v2-helpers/src/models/vault/pools';
-import {
-  encodeCalldataAuthorization,
-  signBatchSwapAuthorization,
-  signSwapAuthorization,
-} from '@balancer-labs/v2-helpers/src/models/misc/signatures';
-
-type SingleSwap = {
-  kind: number;
-  poolId: string;
-  amount: BigNumberish;
-  assetIn: string;
-  assetOut: string;
-  userData: string;
-};
 
 type SwapData = {
   pool?: number; // Index in the poolIds array
@@ -48,19 +30,17 @@ type SwapData = {
   in: number; // Index in the tokens array
   out: number; // Index in the tokens array
   data?: string;
-  fromOther?: boolean;
-  toOther?: boolean;
 };
 
 type SwapInput = {
   swaps: SwapData[];
   fromOther?: boolean;
   toOther?: boolean;
-  signature?: boolean | string;
+  signature?: 'valid' | 'invalid';
 };
 
 describe('Swaps', () => {
-  let vault: Contract, authorizer: Contract, funds: FundManagement;
+  let vault: Vault, relayer: Relayer, funds: FundManagement;
   let tokens: TokenList;
   let mainPoolId: string, secondaryPoolId: string;
   let lp: SignerWithAddress, trader: SignerWithAddress, other: SignerWithAddress, admin: SignerWithAddress;
@@ -74,11 +54,11 @@ describe('Swaps', () => {
   sharedBeforeEach('deploy vault and tokens', async () => {
     tokens = await TokenList.create(['DAI', 'MKR', 'SNX', 'WETH']);
 
-    authorizer = await deploy('Authorizer', { args: [admin.address] });
-    vault = await deploy('Vault', { args: [authorizer.address, tokens.WETH.address, 0, 0] });
+    vault = await Vault.create({ admin, WETH: tokens.WETH });
+    relayer = new Relayer(vault, other);
 
     await tokens.mint({ to: [lp, trader], amount: bn(200e18) });
-    await tokens.approve({ to: vault, from: [lp, trader], amount: MAX_UINT112 });
+    await tokens.approve({ to: vault.address, from: [lp, trader], amount: MAX_UINT112 });
   });
 
   beforeEach('set up default sender', async () => {
@@ -122,14 +102,6 @@ describe('Swaps', () => {
     // We only do givenIn tests, as givenIn and givenOut are presumed to be identical as they relate to this feature
 
     const symbols = ['DAI', 'WETH'];
-    let tokenAddresses: string[];
-
-    const limits = Array(symbols.length).fill(MAX_INT256);
-    const deadline = MAX_UINT256;
-
-    beforeEach(() => {
-      tokenAddresses = [ETH_TOKEN_ADDRESS, tokens.DAI.address];
-    });
 
     context('with minimal swap info pool', () => {
       sharedBeforeEach('setup pool', async () => {
@@ -150,63 +122,48 @@ describe('Swaps', () => {
     function itSwapsWithETHCorrectly() {
       let sender: SignerWithAddress;
 
+      // Each step swaps 1e18 of its first asset for the second one in the main pool
+      const ethSwap = (steps: [SwapAsset, SwapAsset][], params: Partial<BatchSwap> = {}): BatchSwap => ({
+        kind: SWAP_KIND.GIVEN_IN,
+        swaps: steps.map(([assetIn, assetOut]) => ({
+          poolId: mainPoolId,
+          in: assetIn,
+          out: assetOut,
+          amount: bn(1e18),
+        })),
+        ...funds,
+        from: sender,
+        ...params,
+      });
+
       context('when the sender is the trader', () => {
         beforeEach(() => {
           sender = trader;
         });
 
         it('received ETH is wrapped into WETH', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 0, // ETH
-              assetOutIndex: 1,
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
           await expectBalanceChange(
-            () =>
-              vault
-                .connect(sender)
-                .batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline, { value: bn(1e18) }),
+            () => vault.batchSwap(ethSwap([[ETH_TOKEN_ADDRESS, tokens.DAI]], { value: bn(1e18) })),
             tokens,
             [
-              { account: vault, changes: { WETH: 1e18, DAI: -2e18 } },
+              { account: vault.address, changes: { WETH: 1e18, DAI: -2e18 } },
               { account: trader, changes: { DAI: 2e18 } },
             ]
           );
         });
 
         it('sent WETH is unwrapped into ETH', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 1,
-              assetOutIndex: 0, // ETH
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
           const traderBalanceBefore = await ethers.provider.getBalance(trader.address);
 
-          const gasPrice = 1;
-          const receipt: ContractReceipt = await (
-            await expectBalanceChange(
-              () =>
-                vault
-                  .connect(sender)
-                  .batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline, { gasPrice }),
-              tokens,
-              [
-                { account: vault, changes: { WETH: -2e18, DAI: 1e18 } },
-                { account: trader, changes: { DAI: -1e18 } },
-              ]
-            )
-          ).wait();
-          const ethSpent = receipt.gasUsed.mul(gasPrice);
+          const { receipt } = await expectBalanceChange(
+            () => vault.batchSwap(ethSwap([[tokens.DAI, ETH_TOKEN_ADDRESS]])),
+            tokens,
+            [
+              { account: vault.address, changes: { WETH: -2e18, DAI: 1e18 } },
+              { account: trader, changes: { DAI: -1e18 } },
+            ]
+          );
+          const ethSpent = await gasCost(receipt);
 
           const traderBalanceAfter = await ethers.provider.getBalance(trader.address);
 
@@ -214,27 +171,12 @@ describe('Swaps', () => {
         });
 
         it('emits an event with WETH as the token address', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 0, // ETH
-              assetOutIndex: 1,
-              amount: bn(1e18),
-              userData: '0x',
-            },
-
-            {
-              poolId: mainPoolId,
-              assetInIndex: 1,
-              assetOutIndex: 0, // ETH
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
-          const receipt = await (
-            await vault.connect(sender).batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline)
-          ).wait();
+          const { receipt } = await vault.batchSwap(
+            ethSwap([
+              [ETH_TOKEN_ADDRESS, tokens.DAI],
+              [tokens.DAI, ETH_TOKEN_ADDRESS],
+            ])
+          );
 
           expectEvent.inReceipt(receipt, 'Swap', {
             poolId: mainPoolId,
@@ -254,45 +196,18 @@ describe('Swaps', () => {
         });
 
         it('reverts if less ETH than required was supplied', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 0, // ETH
-              assetOutIndex: 1,
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
           await expect(
-            vault
-              .connect(sender)
-              .batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline, { value: bn(1e18).sub(1) })
+            vault.batchSwap(ethSwap([[ETH_TOKEN_ADDRESS, tokens.DAI]], { value: bn(1e18).sub(1) }))
           ).to.be.revertedWith('INSUFFICIENT_ETH');
         });
 
         it('returns excess ETH if more ETH than required was supplied', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 0, // ETH
-              assetOutIndex: 1,
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
           const previousBalance = await ethers.provider.getBalance(sender.address);
 
-          const gasPrice = 1;
-          const receipt: ContractReceipt = await (
-            await vault.connect(sender).batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline, {
-              value: bn(1e18).add(42), // Only 1e18 is required
-              gasPrice,
-            })
-          ).wait();
-
-          const ethSpent = receipt.gasUsed.mul(gasPrice);
+          const { receipt } = await vault.batchSwap(
+            ethSwap([[ETH_TOKEN_ADDRESS, tokens.DAI]], { value: bn(1e18).add(42) }) // Only 1e18 is required
+          );
+          const ethSpent = await gasCost(receipt);
 
           const currentBalance = await ethers.provider.getBalance(sender.address);
           expect(previousBalance.sub(currentBalance)).to.equal(ethSpent.add(bn(1e18)));
@@ -301,33 +216,21 @@ describe('Swaps', () => {
 
       context('when the sender is an approved relayer', () => {
         sharedBeforeEach(async () => {
-          const action = await actionId(vault, 'batchSwap');
-          await authorizer.connect(admin).grantRole(action, other.address);
+          await relayer.authorize(['batchSwap']);
+          await relayer.approve(trader);
+        });
 
-          await vault.connect(trader).setRelayerApproval(trader.address, other.address, true);
+        beforeEach(() => {
+          sender = other;
         });
 
         it('returns excess sent ETH to the relayer', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 0, // ETH
-              assetOutIndex: 1,
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
           const relayerBalanceBefore = await ethers.provider.getBalance(other.address);
 
-          const gasPrice = 1;
-          const receipt: ContractReceipt = await (
-            await vault.connect(other).batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline, {
-              value: bn(1e18).add(42), // Only 1e18 is required
-              gasPrice,
-            })
-          ).wait();
-          const ethSpent = receipt.gasUsed.mul(gasPrice);
+          const { receipt } = await vault.batchSwap(
+            ethSwap([[ETH_TOKEN_ADDRESS, tokens.DAI]], { value: bn(1e18).add(42) }) // Only 1e18 is required
+          );
+          const ethSpent = await gasCost(receipt);
 
           const relayerBalanceAfter = await ethers.provider.getBalance(other.address);
 
@@ -335,26 +238,10 @@ describe('Swaps', () => {
         });
 
         it('returns unreceived ETH to the relayer', async () => {
-          const swaps = [
-            {
-              poolId: mainPoolId,
-              assetInIndex: 1,
-              assetOutIndex: 0, // ETH
-              amount: bn(1e18),
-              userData: '0x',
-            },
-          ];
-
           const relayerBalanceBefore = await ethers.provider.getBalance(other.address);
 
-          const gasPrice = 1;
-          const receipt: ContractReceipt = await (
-            await vault.connect(other).batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokenAddresses, funds, limits, deadline, {
-              value: 42,
-              gasPrice,
-            })
-          ).wait();
-          const ethSpent = receipt.gasUsed.mul(gasPrice);
+          const { receipt } = await vault.batchSwap(ethSwap([[tokens.DAI, ETH_TOKEN_ADDRESS]], { value: 42 }));
+          const ethSpent = await gasCost(receipt);
 
           const relayerBalanceAfter = await ethers.provider.getBalance(other.address);
 
@@ -364,28 +251,51 @@ describe('Swaps', () => {
     }
   });
 
-  function toBatchSwap(input: SwapInput): Swap[] {
-    return input.swaps.map((data) => ({
-      poolId: ((data.pool ?? 0) == 0 ? mainPoolId : secondaryPoolId) || ZERO_BYTES32,
-      amount: data.amount.toString(),
-      assetInIndex: data.in,
-      assetOutIndex: data.out,
-      userData: data.data ?? '0x',
-    }));
+  async function gasCost(receipt: ContractReceipt): Promise<BigNumber> {
+    const { gasPrice } = await ethers.provider.getTransaction(receipt.transactionHash);
+    return receipt.gasUsed.mul(gasPrice);
+  }
+
+  function toBatchSwap(kind: number, input: SwapInput): BatchSwap {
+    return {
+      kind,
+      swaps: input.swaps.map((data) => ({
+        poolId: ((data.pool ?? 0) == 0 ? mainPoolId : secondaryPoolId) || ZERO_BYTES32,
+        amount: bn(data.amount),
+        in: data.in,
+        out: data.out,
+        data: data.data,
+      })),
+      tokens,
+      ...funds,
+    };
   }
 
   function toSingleSwap(kind: number, input: SwapInput): SingleSwap {
-    const data = toBatchSwap(input)[0];
+    const [swap] = toBatchSwap(kind, input).swaps;
     return {
+      ...swap,
       kind,
-      poolId: data.poolId,
-      amount: data.amount,
-      assetIn: tokens.addresses[data.assetInIndex] || ZERO_ADDRESS,
-      assetOut: tokens.addresses[data.assetOutIndex] || ZERO_ADDRESS,
-      userData: data.userData,
+      // Invalid indexes are swapped for the zero address, which is never registered
+      in: tokens.addresses[input.swaps[0].in] || ZERO_ADDRESS,
+      out: tokens.addresses[input.swaps[0].out] || ZERO_ADDRESS,
+      ...funds,
     };
   }
 
+  async function swap(kind: number, input: SwapInput, single: boolean): Promise<unknown> {
+    if (input.signature) {
+      // Invalid authorizations are the ones signed by someone other than the trader
+      const call = { authorizedBy: input.signature === 'valid' ? trader : other };
+      return single ? relayer.swap(toSingleSwap(kind, input), call) : relayer.batchSwap(toBatchSwap(kind, input), call);
+    }
+
+    const from = input.fromOther ? other : trader;
+    return single
+      ? vault.swap({ ...toSingleSwap(kind, input), from })
+      : vault.batchSwap({ ...toBatchSwap(kind, input), from });
+  }
+
   async function deployPool(specialization: PoolSpecializationSetting, tokenSymbols: string[]): Promise<string> {
     const pool = await deploy('MockPool', { args: [vault.address, specialization] });
     await pool.setMultiplier(fp(2));
@@ -404,7 +314,7 @@ describe('Swaps', () => {
     const tokenAmounts = sortedTokenAddresses.map(() => poolInitialBalance);
 
     const poolId = pool.getPoolId();
-    await vault.connect(lp).joinPool(poolId, lp.address, other.address, {
+    await vault.instance.connect(lp).joinPool(poolId, lp.address, other.address, {
       assets: sortedTokenAddresses,
       maxAmountsIn: tokenAmounts,
       fromInternalBalance: false,
@@ -429,99 +339,68 @@ describe('Swaps', () => {
   function itHandlesSwapsProperly(specialization: PoolSpecializationSetting, tokenSymbols: string[]) {
     deployMainPool(specialization, tokenSymbols);
 
-    describe('swap given in', () => {
-      const assertSwapGivenIn = (
-        input: SwapInput,
-        changes?: Dictionary<BigNumberish | Comparison>,
-        expectedInternalBalance?: Dictionary<BigNumberish>
-      ) => {
-        const isSingleSwap = input.swaps.length === 1;
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const assertSwap = async (data: string, sender: SignerWithAddress, expectedChanges: any[]): Promise<void> => {
-          // Hardcoding a gas limit prevents (slow) gas estimation
-          await expectBalanceChange(
-            () => sender.sendTransaction({ to: vault.address, data, gasLimit: MAX_GAS_LIMIT }),
-            tokens,
-            expectedChanges
-          );
-
-          if (expectedInternalBalance) {
-            for (const symbol in expectedInternalBalance) {
-              const token = tokens.findBySymbol(symbol);
-              const internalBalance = await vault.getInternalBalance(sender.address, [token.address]);
-              expect(internalBalance[0]).to.be.equal(bn(expectedInternalBalance[symbol]));
-            }
+    const assertSwap = (
+      kind: number,
+      input: SwapInput,
+      changes?: Dictionary<BigNumberish | Comparison>,
+      expectedInternalBalance?: Dictionary<BigNumberish>
+    ) => {
+      const isSingleSwap = input.swaps.length === 1;
+
+      const itTrades = (single: boolean) => async () => {
+        const sender = input.fromOther ? other : trader;
+        const recipient = input.toOther ? other : trader;
+
+        await expectBalanceChange(() => swap(kind, input, single), tokens, [{ account: recipient, changes }]);
+
+        if (expectedInternalBalance) {
+          for (const symbol in expectedInternalBalance) {
+            const token = tokens.findBySymbol(symbol);
+            const internalBalance = await vault.getInternalBalance(sender, [token.address]);
+            expect(internalBalance[0]).to.be.equal(bn(expectedInternalBalance[symbol]));
           }
-        };
-
-        if (isSingleSwap) {
-          it('trades the expected amount (single)', async () => {
-            const sender = input.fromOther ? other : trader;
-            const recipient = input.toOther ? other : trader;
-            const swap = toSingleSwap(SWAP_KIND.GIVEN_IN, input);
-
-            let calldata = vault.interface.encodeFunctionData('swap', [swap, funds, 0, MAX_UINT256]);
-
-            if (input.signature) {
-              const nonce = await vault.getNextNonce(trader.address);
-              const authorization = await signSwapAuthorization(vault, trader, sender, calldata, nonce, MAX_UINT256);
-              const signature = typeof input.signature === 'string' ? input.signature : authorization;
-              calldata = encodeCalldataAuthorization(calldata, MAX_UINT256, signature);
-            }
-
-            await assertSwap(calldata, sender, [{ account: recipient, changes }]);
-          });
         }
-
-        it(`trades the expected amount ${isSingleSwap ? '(batch)' : ''}`, async () => {
-          const sender = input.fromOther ? other : trader;
-          const recipient = input.toOther ? other : trader;
-          const swaps = toBatchSwap(input);
-          const limits = Array(tokens.length).fill(MAX_INT256);
-
-          const args = [SWAP_KIND.GIVEN_IN, swaps, tokens.addresses, funds, limits, MAX_UINT256];
-          let calldata = vault.interface.encodeFunctionData('batchSwap', args);
-
-          if (input.signature) {
-            const nonce = await vault.getNextNonce(trader.address);
-            const authorization = await signBatchSwapAuthorization(vault, trader, sender, calldata, nonce, MAX_UINT256);
-            const signature = typeof input.signature === 'string' ? input.signature : authorization;
-            calldata = encodeCalldataAuthorization(calldata, MAX_UINT256, signature);
-          }
-
-          await assertSwap(calldata, sender, [{ account: recipient, changes }]);
-        });
       };
 
-      const assertSwapGivenInReverts = (input: SwapInput, defaultReason?: string, singleSwapReason = defaultReason) => {
-        const isSingleSwap = input.swaps.length === 1;
+      if (isSingleSwap) {
+        it('trades the expected amount (single)', itTrades(true));
+      }
 
-        if (isSingleSwap) {
-          it(`reverts ${isSingleSwap ? '(single)' : ''}`, async () => {
-            const sender = input.fromOther ? other : trader;
-            const swap = toSingleSwap(SWAP_KIND.GIVEN_IN, input);
-            const call = vault.connect(sender).swap(swap, funds, MAX_UINT256, MAX_UINT256);
+      it(`trades the expected amount ${isSingleSwap ? '(batch)' : ''}`, itTrades(false));
+    };
 
-            singleSwapReason
-              ? await expect(call).to.be.revertedWith(singleSwapReason)
-              : await expect(call).to.be.reverted;
-          });
-        }
+    const assertSwapReverts = (
+      kind: number,
+      input: SwapInput,
+      defaultReason?: string,
+      singleSwapReason = defaultReason
+    ) => {
+      const isSingleSwap = input.swaps.length === 1;
+
+      if (isSingleSwap) {
+        it(`reverts ${isSingleSwap ? '(single)' : ''}`, async () => {
+          const call = swap(kind, input, true);
+          singleSwapReason
+            ? await expect(call).to.be.revertedWith(singleSwapReason)
+            : await expect(call).to.be.reverted;
+        });
+      }
 
-        it(`reverts ${isSingleSwap ? '(batch)' : ''}`, async () => {
-          const sender = input.fromOther ? other : trader;
-          const swaps = toBatchSwap(input);
+      it(`reverts ${isSingleSwap ? '(batch)' : ''}`, async () => {
+        const call = swap(kind, input, false);
+        defaultReason ? await expect(call).to.be.revertedWith(defaultReason) : await expect(call).to.be.reverted;
+      });
+    };
 
-          const limits = Array(tokens.length).fill(MAX_INT256);
-          const deadline = MAX_UINT256;
+    describe('swap given in', () => {
+      const assertSwapGivenIn = (
+        input: SwapInput,
+        changes?: Dictionary<BigNumberish | Comparison>,
+        expectedInternalBalance?: Dictionary<BigNumberish>
+      ) => assertSwap(SWAP_KIND.GIVEN_IN, input, changes, expectedInternalBalance);
 
-          const call = vault
-            .connect(sender)
-            .batchSwap(SWAP_KIND.GIVEN_IN, swaps, tokens.addresses, funds, limits, deadline);
-          defaultReason ? await expect(call).to.be.revertedWith(defaultReason) : await expect(call).to.be.reverted;
-        });
-      };
+      const assertSwapGivenInReverts = (input: SwapInput, defaultReason?: string, singleSwapReason = defaultReason) =>
+        assertSwapReverts(SWAP_KIND.GIVEN_IN, input, defaultReason, singleSwapReason);
 
       context('for a single swap', () => {
         context('when the pool is registered', () => {
@@ -546,14 +425,12 @@ describe('Swaps', () => {
 
                           context('when the relayer is whitelisted by the authorizer', () => {
                             sharedBeforeEach('grant permission to relayer', async () => {
-                              const single = await actionId(vault, 'swap');
-                              const batch = await actionId(vault, 'batchSwap');
-                              await authorizer.connect(admin).grantRoles([single, batch], other.address);
+                              await relayer.authorize(['swap', 'batchSwap']);
                             });
 
                             context('when the relayer is allowed by the user', () => {
                               sharedBeforeEach('allow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, true);
+                                await relayer.approve(trader);
                               });
 
                               assertSwapGivenIn({ swaps, fromOther }, { DAI: 2e18, MKR: -1e18 });
@@ -561,16 +438,16 @@ describe('Swaps', () => {
 
                             context('when the relayer is not allowed by the user', () => {
                               sharedBeforeEach('disallow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, false);
+                                await relayer.approve(trader, false);
                               });
 
                               context('when the relayer has a valid signature from the user', () => {
-                                assertSwapGivenIn({ swaps, fromOther, signature: true }, { DAI: 2e18, MKR: -1e18 });
+                                assertSwapGivenIn({ swaps, fromOther, signature: 'valid' }, { DAI: 2e18, MKR: -1e18 });
                               });
 
                               context('when the relayer has an invalid signature from the user', () => {
                                 assertSwapGivenInReverts(
-                                  { swaps, fromOther, signature: ZERO_BYTES32 },
+                                  { swaps, fromOther, signature: 'invalid' },
                                   'USER_DOESNT_ALLOW_RELAYER'
                                 );
                               });
@@ -582,15 +459,9 @@ describe('Swaps', () => {
                           });
 
                           context('when the relayer is not whitelisted by the authorizer', () => {
-                            sharedBeforeEach('revoke permission from relayer', async () => {
-                              const single = await actionId(vault, 'swap');
-                              const batch = await actionId(vault, 'batchSwap');
-                              await authorizer.connect(admin).revokeRoles([single, batch], other.address);
-                            });
-
                             context('when the relayer is allowed by the user', () => {
                               sharedBeforeEach('allow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, true);
+                                await relayer.approve(trader);
                               });
 
                               assertSwapGivenInReverts({ swaps, fromOther }, 'SENDER_NOT_ALLOWED');
@@ -598,7 +469,7 @@ describe('Swaps', () => {
 
                             context('when the relayer is not allowed by the user', () => {
                               sharedBeforeEach('disallow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, false);
+                                await relayer.approve(trader, false);
                               });
 
                               assertSwapGivenInReverts({ swaps, fromOther }, 'SENDER_NOT_ALLOWED');
@@ -614,22 +485,13 @@ describe('Swaps', () => {
 
                         context('when using less than available as internal balance', () => {
                           sharedBeforeEach('deposit to internal balance', async () => {
-                            await vault.connect(trader).manageUserBalance([
-                              {
-                                kind: 0, // deposit
-                                asset: tokens.DAI.address,
-                                amount: bn(1e18),
-                                sender: trader.address,
-                                recipient: trader.address,
-                              },
-                              {
-                                kind: 0, // deposit
-                                asset: tokens.MKR.address,
-                                amount: bn(1e18),
-                                sender: trader.address,
-                                recipient: trader.address,
-                              },
-                            ]);
+                            await vault.manageUserBalance(
+                              [
+                                { kind: UserBalanceOpKind.DEPOSIT_INTERNAL, asset: tokens.DAI, amount: bn(1e18) },
+                                { kind: UserBalanceOpKind.DEPOSIT_INTERNAL, asset: tokens.MKR, amount: bn(1e18) },
+                              ],
+                              { from: trader }
+                            );
                           });
 
                           assertSwapGivenIn({ swaps }, { DAI: 2e18 }, { MKR: 0, DAI: 1e18 });
@@ -637,15 +499,11 @@ describe('Swaps', () => {
 
                         context('when using more than available as internal balance', () => {
                           sharedBeforeEach('deposit to internal balance', async () => {
-                            await vault.connect(trader).manageUserBalance([
-                              {
-                                kind: 0, // deposit
-                                asset: tokens.MKR.address,
-                                amount: bn(0.3e18),
-                                sender: trader.address,
-                                recipient: trader.address,
-                              },
-                            ]);
+                            await vault.depositToInternalBalance({
+                              asset: tokens.MKR,
+                              amount: bn(0.3e18),
+                              from: trader,
+                            });
                           });
 
                           assertSwapGivenIn({ swaps }, { DAI: 2e18, MKR: -0.7e18 }, { MKR: 0 });
@@ -768,8 +626,8 @@ describe('Swaps', () => {
 
                   context('when pools do not offer same price', () => {
                     sharedBeforeEach('tweak the main pool to give back as much as it receives', async () => {
-                      const [poolAddress] = (await vault.getPool(mainPoolId)) as [string, unknown];
-                      const pool = await deployedAt('MockPool', poolAddress);
+                      const { address } = await vault.getPool(mainPoolId);
+                      const pool = await deployedAt('MockPool', address);
                       await pool.setMultiplier(fp(1));
                     });
 
@@ -936,87 +794,10 @@ describe('Swaps', () => {
         input: SwapInput,
         changes?: Dictionary<BigNumberish | Comparison>,
         expectedInternalBalance?: Dictionary<BigNumberish>
-      ) => {
-        const isSingleSwap = input.swaps.length === 1;
-
-        if (isSingleSwap) {
-          it('trades the expected amount (single)', async () => {
-            const sender = input.fromOther ? other : trader;
-            const recipient = input.toOther ? other : trader;
-            const swap = toSingleSwap(SWAP_KIND.GIVEN_OUT, input);
-
-            await expectBalanceChange(() => vault.connect(sender).swap(swap, funds, MAX_UINT256, MAX_UINT256), tokens, [
-              { account: recipient, changes },
-            ]);
-
-            if (expectedInternalBalance) {
-              for (const symbol in expectedInternalBalance) {
-                const token = tokens.findBySymbol(symbol);
-                const internalBalance = await vault.getInternalBalance(sender.address, [token.address]);
-                expect(internalBalance[0]).to.be.equal(bn(expectedInternalBalance[symbol]));
-              }
-            }
-          });
-        }
-
-        it(`trades the expected amount ${isSingleSwap ? '(batch)' : ''}`, async () => {
-          const sender = input.fromOther ? other : trader;
-          const recipient = input.toOther ? other : trader;
-          const swaps = toBatchSwap(input);
-
-          const limits = Array(tokens.length).fill(MAX_INT256);
-          const deadline = MAX_UINT256;
-
-          await expectBalanceChange(
-            () =>
-              vault.connect(sender).batchSwap(SWAP_KIND.GIVEN_OUT, swaps, tokens.addresses, funds, limits, deadline),
-            tokens,
-            [{ account: recipient, changes }]
-          );
-
-          if (expectedInternalBalance) {
-            for (const symbol in expectedInternalBalance) {
-              const token = tokens.findBySymbol(symbol);
-              const internalBalance = await vault.getInternalBalance(sender.address, [token.address]);
-              expect(internalBalance[0]).to.be.equal(bn(expectedInternalBalance[symbol]));
-            }
-          }
-        });
-      };
+      ) => assertSwap(SWAP_KIND.GIVEN_OUT, input, changes, expectedInternalBalance);
 
-      const assertSwapGivenOutReverts = (
-        input: SwapInput,
-        defaultReason?: string,
-        singleSwapReason = defaultReason
-      ) => {
-        const isSingleSwap = input.swaps.length === 1;
-
-        if (isSingleSwap) {
-          it(`reverts ${isSingleSwap ? '(single)' : ''}`, async () => {
-            const sender = input.fromOther ? other : trader;
-            const swap = toSingleSwap(SWAP_KIND.GIVEN_OUT, input);
-            const call = vault.connect(sender).swap(swap, funds, MAX_UINT256, MAX_UINT256);
-
-            singleSwapReason
-              ? await expect(call).to.be.revertedWith(singleSwapReason)
-              : await expect(call).to.be.reverted;
-          });
-        }
-
-        it(`reverts ${isSingleSwap ? '(batch)' : ''}`, async () => {
-          const sender = input.fromOther ? other : trader;
-          const swaps = toBatchSwap(input);
-
-          const limits = Array(tokens.length).fill(MAX_INT256);
-          const deadline = MAX_UINT256;
-
-          const call = vault
-            .connect(sender)
-            .batchSwap(SWAP_KIND.GIVEN_OUT, swaps, tokens.addresses, funds, limits, deadline);
-
-          defaultReason ? await expect(call).to.be.revertedWith(defaultReason) : await expect(call).to.be.reverted;
-        });
-      };
+      const assertSwapGivenOutReverts = (input: SwapInput, defaultReason?: string, singleSwapReason = defaultReason) =>
+        assertSwapReverts(SWAP_KIND.GIVEN_OUT, input, defaultReason, singleSwapReason);
 
       context('for a single swap', () => {
         context('when the pool is registered', () => {
@@ -1041,14 +822,12 @@ describe('Swaps', () => {
 
                           context('when the relayer is whitelisted by the authorizer', () => {
                             sharedBeforeEach('grant permission to relayer', async () => {
-                              const single = await actionId(vault, 'swap');
-                              const batch = await actionId(vault, 'batchSwap');
-                              await authorizer.connect(admin).grantRoles([single, batch], other.address);
+                              await relayer.authorize(['swap', 'batchSwap']);
                             });
 
                             context('when the relayer is allowed by the user', () => {
                               sharedBeforeEach('allow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, true);
+                                await relayer.approve(trader);
                               });
 
                               assertSwapGivenOut({ swaps, fromOther }, { DAI: 1e18, MKR: -0.5e18 });
@@ -1056,7 +835,7 @@ describe('Swaps', () => {
 
                             context('when the relayer is not allowed by the user', () => {
                               sharedBeforeEach('disallow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, false);
+                                await relayer.approve(trader, false);
                               });
 
                               assertSwapGivenOutReverts({ swaps, fromOther }, 'USER_DOESNT_ALLOW_RELAYER');
@@ -1064,15 +843,9 @@ describe('Swaps', () => {
                           });
 
                           context('when the relayer is not whitelisted by the authorizer', () => {
-                            sharedBeforeEach('revoke permission from relayer', async () => {
-                              const single = await actionId(vault, 'swap');
-                              const batch = await actionId(vault, 'batchSwap');
-                              await authorizer.connect(admin).revokeRoles([single, batch], other.address);
-                            });
-
                             context('when the relayer is allowed by the user', () => {
                               sharedBeforeEach('allow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, true);
+                                await relayer.approve(trader);
                               });
 
                               assertSwapGivenOutReverts({ swaps, fromOther }, 'SENDER_NOT_ALLOWED');
@@ -1080,7 +853,7 @@ describe('Swaps', () => {
 
                             context('when the relayer is not allowed by the user', () => {
                               sharedBeforeEach('disallow relayer', async () => {
-                                await vault.connect(trader).setRelayerApproval(trader.address, other.address, false);
+                                await relayer.approve(trader, false);
                               });
 
                               assertSwapGivenOutReverts({ swaps, fromOther }, 'SENDER_NOT_ALLOWED');
@@ -1096,22 +869,13 @@ describe('Swaps', () => {
 
                         context('when using less than available as internal balance', () => {
                           sharedBeforeEach('deposit to internal balance', async () => {
-                            await vault.connect(trader).manageUserBalance([
-                              {
-                                kind: 0, // deposit
-                                asset: tokens.DAI.address,
-                                amount: bn(1e18),
-                                sender: trader.address,
-                                recipient: trader.address,
-                              },
-                              {
-                                kind: 0, // deposit
-                                asset: tokens.MKR.address,
-                                amount: bn(0.5e18),
-                                sender: trader.address,
-                                recipient: trader.address,
-                              },
-                            ]);
+                            await vault.manageUserBalance(
+                              [
+                                { kind: UserBalanceOpKind.DEPOSIT_INTERNAL, asset: tokens.DAI, amount: bn(1e18) },
+                                { kind: UserBalanceOpKind.DEPOSIT_INTERNAL, asset: tokens.MKR, amount: bn(0.5e18) },
+                              ],
+                              { from: trader }
+                            );
                           });
 
                           assertSwapGivenOut({ swaps }, { DAI: 1e18 }, { MKR: 0, DAI: 1e18 });
@@ -1119,15 +883,11 @@ describe('Swaps', () => {
 
                         context('when using more than available as internal balance', () => {
                           sharedBeforeEach('deposit to internal balance', async () => {
-                            await vault.connect(trader).manageUserBalance([
-                              {
-                                kind: 0, // deposit
-                                asset: tokens.MKR.address,
-                                amount: bn(0.3e18),
-                                sender: trader.address,
-                                recipient: trader.address,
-                              },
-                            ]);
+                            await vault.depositToInternalBalance({
+                              asset: tokens.MKR,
+                              amount: bn(0.3e18),
+                              from: trader,
+                            });
                           });
 
                           assertSwapGivenOut({ swaps }, { DAI: 1e18, MKR: -0.2e18 });
@@ -1253,8 +1013,8 @@ describe('Swaps', () => {
 
                   context('when pools do not offer same price', () => {
                     beforeEach('tweak the main pool to give back as much as it receives', async () => {
-                      const [poolAddress] = (await vault.getPool(mainPoolId)) as [string, unknown];
-                      const pool = await deployedAt('MockPool', poolAddress);
+                      const { address } = await vault.getPool(mainPoolId);
+                      const pool = await deployedAt('MockPool', address);
                       await pool.setMultiplier(fp(1));
                     });
 
@@ -3,15 +3,18 @@ import { expect } from 'chai';
 import { Contract, ContractTransaction } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
-import { deploy } from '@balancer-labs/v2-helpers/src/contract';
-import { actionId } from '@balancer-labs/v2-helpers/src/models/misc/actions';
+import { deploy, deployedAt } from '@balancer-labs/v2-helpers/src/contract';
+import {
+  actionId,
+  actionIdRegistryToJSON,
+  buildActionIdRegistryFromArtifacts,
+} from '@balancer-labs/v2-helpers/src/models/misc/actions';
 import { MONTH } from '@balancer-labs/v2-helpers/src/time';
-import { MAX_GAS_LIMIT, MAX_UINT256, ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
+import { ZERO_ADDRESS } from '@balancer-labs/v2-helpers/src/constants';
 import * as expectEvent from '@balancer-labs/v2-helpers/src/test/expectEvent';
-import {
-  encodeCalldataAuthorization,
-  signSetRelayerApprovalAuthorization,
-} from '@balancer-labs/v2-helpers/src/models/misc/signatures';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import Relayer from '@balancer-labs/v2-helpers/src/models/vault/Relayer';
+import Authorizer from '@balancer-labs/v2-helpers/src/models/authorizer/Authorizer';
 
 describe('VaultAuthorization', function () {
   let authorizer: Contract, vault: Contract;
@@ -93,8 +96,11 @@ describe('VaultAuthorization', function () {
   });
 
   describe('set relayer approval', () => {
+    let vaultModel: Vault;
+
     sharedBeforeEach('deploy vault', async () => {
       vault = await deployVault(authorizer.address);
+      vaultModel = new Vault(false, vault, authorizer, admin);
     });
 
     let sender: SignerWithAddress;
@@ -114,13 +120,12 @@ describe('VaultAuthorization', function () {
 
       context('when the sender is allowed by the authorizer', () => {
         sharedBeforeEach('grant permission to sender', async () => {
-          const action = await actionId(vault, 'setRelayerApproval');
-          await authorizer.connect(admin).grantRole(action, sender.address);
+          await new Relayer(vaultModel, sender).authorize(['setRelayerApproval']);
         });
 
         context('when the sender is approved by the user', () => {
           sharedBeforeEach('approve sender', async () => {
-            await vault.connect(user).setRelayerApproval(user.address, sender.address, true);
+            await new Relayer(vaultModel, sender).approve(user);
           });
 
           itApprovesAndDisapprovesRelayer();
@@ -128,12 +133,30 @@ describe('VaultAuthorization', function () {
 
         context('when the sender is not approved by the user', () => {
           sharedBeforeEach('disapprove sender', async () => {
-            await vault.connect(user).setRelayerApproval(user.address, sender.address, false);
+            await new Relayer(vaultModel, sender).approve(user, false);
           });
 
           context('when the sender is allowed by signature', () => {
             const signature = true;
             itApprovesAndDisapprovesRelayer(signature);
+
+            it('consumes a nonce of the user', async () => {
+              const previousNonce = await vaultModel.getNextNonce(user);
+
+              await new Relayer(vaultModel, sender).call('setRelayerApproval', [user.address, relayer.address, true], {
+                authorizedBy: user,
+              });
+
+              expect(await vaultModel.getNextNonce(user)).to.equal(previousNonce.add(1));
+            });
+          });
+
+          context('when the sender approves itself by signature', () => {
+            it('approves the sender', async () => {
+              await new Relayer(vaultModel, sender).approveBySignature(user);
+
+              expect(await new Relayer(vaultModel, sender).isApprovedBy(user)).to.be.true;
+            });
           });
 
           context('with no signature', () => {
@@ -154,7 +177,7 @@ describe('VaultAuthorization', function () {
 
         context('when the sender is approved by the user', () => {
           sharedBeforeEach('approve sender', async () => {
-            await vault.connect(user).setRelayerApproval(user.address, sender.address, true);
+            await new Relayer(vaultModel, sender).approve(user);
           });
 
           it('reverts', async () => {
@@ -166,7 +189,7 @@ describe('VaultAuthorization', function () {
 
         context('when the sender is not approved by the user', () => {
           sharedBeforeEach('disapprove sender', async () => {
-            await vault.connect(user).setRelayerApproval(user.address, sender.address, false);
+            await new Relayer(vaultModel, sender).approve(user, false);
           });
 
           it('reverts', async () => {
@@ -181,7 +204,7 @@ describe('VaultAuthorization', function () {
     function itApprovesAndDisapprovesRelayer(withSignature?: boolean) {
       context('when the relayer was not approved', () => {
         sharedBeforeEach('disapprove relayer', async () => {
-          await vault.connect(user).setRelayerApproval(user.address, relayer.address, false);
+          await new Relayer(vaultModel, relayer).approve(user, false);
         });
 
         itSetsTheRelayerApproval(true, withSignature);
@@ -190,7 +213,7 @@ describe('VaultAuthorization', function () {
 
       context('when the relayer was approved', () => {
         sharedBeforeEach('approve relayer', async () => {
-          await vault.connect(user).setRelayerApproval(user.address, relayer.address, true);
+          await new Relayer(vaultModel, relayer).approve(user);
         });
 
         itSetsTheRelayerApproval(true, withSignature);
@@ -200,7 +223,7 @@ describe('VaultAuthorization', function () {
       function itSetsTheRelayerApproval(approved: boolean, withSignature?: boolean) {
         it(`${approved ? 'sets' : 'resets'} the approval`, async () => {
           await setApproval();
-          expect(await vault.hasApprovedRelayer(user.address, relayer.address)).to.equal(approved);
+          expect(await new Relayer(vaultModel, relayer).isApprovedBy(user)).to.equal(approved);
         });
 
         it(`emits an event when ${approved ? 'setting' : 'resetting'} relayer approval`, async () => {
@@ -214,23 +237,9 @@ describe('VaultAuthorization', function () {
         });
 
         async function setApproval(): Promise<ContractTransaction> {
-          let calldata = vault.interface.encodeFunctionData('setRelayerApproval', [
-            user.address,
-            relayer.address,
-            approved,
-          ]);
-
-          if (withSignature) {
-            const signature = await signSetRelayerApprovalAuthorization(vault, user, sender, calldata);
-            calldata = encodeCalldataAuthorization(calldata, MAX_UINT256, signature);
-          }
-
-          // Hardcoding a gas limit prevents (slow) gas estimation
-          return sender.sendTransaction({
-            to: vault.address,
-            data: calldata,
-            gasLimit: MAX_GAS_LIMIT,
-          });
+          const authorizedBy = withSignature ? user : undefined;
+          const args = [user.address, relayer.address, approved];
+          return new Relayer(vaultModel, sender).call('setRelayerApproval', args, { authorizedBy });
         }
       }
     }
@@ -284,4 +293,91 @@ describe('VaultAuthorization', function () {
       });
     });
   });
+
+  describe('permissions report', () => {
+    let authorizerModel: Authorizer, vaultModel: Vault;
+
+    sharedBeforeEach('deploy vault', async () => {
+      // The pausable tests above replace the shared authorizer, so these ones deploy their own
+      const instance = await deploy('Authorizer', { args: [admin.address] });
+      authorizerModel = new Authorizer(instance, admin);
+      vaultModel = new Vault(false, await deployVault(instance.address), instance, admin);
+    });
+
+    it('reports the accounts allowed to call each permissioned function', async () => {
+      const feesCollector = await vaultModel.getFeesCollector();
+      await authorizerModel.grantRoles({ contract: vaultModel.instance, method: 'setPaused' }, admin);
+      await authorizerModel.grantRolesToMany(
+        [
+          { contract: vaultModel.instance, method: 'swap' },
+          { contract: feesCollector, method: 'withdrawCollectedFees' },
+        ],
+        [relayer, other]
+      );
+
+      const report = await authorizerModel.getPermissionsReport(await vaultModel.getPermissionsTargets());
+      const entries = report.map(({ target, method, accounts }) => [`${target}.${method}`, accounts]);
+
+      expect(Object.fromEntries(entries)).to.deep.equal({
+        'Vault.setAuthorizer': [],
+        'Vault.setPaused': [admin.address],
+        'Vault.setRelayerApproval': [],
+        'Vault.manageUserBalance': [],
+        'Vault.joinPool': [],
+        'Vault.exitPool': [],
+        'Vault.swap': [relayer.address],
+        'Vault.batchSwap': [],
+        'ProtocolFeesCollector.setSwapFeePercentage': [],
+        'ProtocolFeesCollector.setFlashLoanFeePercentage': [],
+        'ProtocolFeesCollector.withdrawCollectedFees': [other.address],
+      });
+    });
+
+    it('stops reporting accounts once their roles are revoked or renounced', async () => {
+      const roles = [
+        { contract: vaultModel.instance, method: 'joinPool' },
+        { contract: vaultModel.instance, method: 'exitPool' },
+      ];
+      await authorizerModel.grantRoles(roles, relayer);
+
+      await authorizerModel.revokeRoles(roles[0], relayer);
+      await authorizerModel.renounceRole(roles[1], relayer);
+
+      expect(await authorizerModel.hasRole(roles[0], relayer)).to.be.false;
+      expect(await authorizerModel.getRoleMembers(roles[1])).to.be.empty;
+    });
+  });
+
+  describe('action ID registry', () => {
+    let feesCollector: Contract;
+
+    sharedBeforeEach('deploy vault', async () => {
+      vault = await deployVault(authorizer.address);
+      feesCollector = await deployedAt('ProtocolFeesCollector', await vault.getProtocolFeesCollector());
+    });
+
+    it('computes the action IDs of every permissioned function offline', async () => {
+      const registry = await buildActionIdRegistryFromArtifacts([
+        { contract: 'Vault', disambiguator: vault },
+        { contract: 'ProtocolFeesCollector', disambiguator: feesCollector },
+      ]);
+
+      const entries = Object.entries(registry);
+      expect(entries).to.have.lengthOf(11);
+
+      for (const [id, { contract, signature, selector }] of entries) {
+        const instance = contract === 'Vault' ? vault : feesCollector;
+        expect(instance.interface.getSighash(signature)).to.equal(selector);
+        expect(await instance.getActionId(selector)).to.equal(id);
+      }
+    });
+
+    it('exports a JSON map of action IDs', async () => {
+      const registry = await buildActionIdRegistryFromArtifacts([{ contract: 'Vault', disambiguator: vault }]);
+      const action = await actionId(vault, 'setAuthorizer');
+
+      const json = JSON.parse(actionIdRegistryToJSON(registry));
+      expect(json[action]).to.include({ contract: 'Vault', signature: 'setAuthorizer(address)' });
+    });
+  });
 });
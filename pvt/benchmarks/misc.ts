@@ -12,6 +12,8 @@ import { encodeJoinWeightedPool } from '@balancer-labs/v2-helpers/src/models/poo
 import { bn } from '@balancer-labs/v2-helpers/src/numbers';
 import { deploySortedTokens, mintTokens, TokenList } from '@balancer-labs/v2-helpers/src/tokens';
 import { advanceTime, MONTH } from '@balancer-labs/v2-helpers/src/time';
+import { RouterPool } from '@balancer-labs/v2-helpers/src/models/vault/router';
+import { UserBalanceOpKind } from '@balancer-labs/v2-helpers/src/models/vault/balances';
 
 export const tokenSymbols = ['AAA', 'BBB', 'CCC', 'DDD', 'EEE', 'FFF', 'GGG', 'HHH'];
 
@@ -47,7 +49,7 @@ export async function setupEnvironment(): Promise<{
 
   for (let idx = 0; idx < tokenAddresses.length; ++idx) {
     transfers.push({
-      kind: 0, // deposit
+      kind: UserBalanceOpKind.DEPOSIT_INTERNAL,
       asset: tokenAddresses[idx],
       amount: bn(100e18),
       sender: trader.address,
@@ -134,6 +136,23 @@ export async function getStablePool(
   return deployPool(vault, pickTokens(tokens, size, offset), 'StablePool');
 }
 
+export async function getRouterPool(vault: Contract, poolId: string, poolName: PoolName): Promise<RouterPool> {
+  const [poolAddress] = await vault.getPool(poolId);
+  const { tokens, balances } = await vault.getPoolTokens(poolId);
+
+  const pool = await deployedAt(getPoolArtifact(poolName), poolAddress);
+
+  const swapFeePercentage = await pool.getSwapFeePercentage();
+
+  if (poolName == 'StablePool') {
+    const amplificationParameter = await pool.getAmplificationParameter();
+    return { kind: poolName, poolId, tokens, balances, amplificationParameter, swapFeePercentage };
+  } else {
+    const weights = await pool.getNormalizedWeights();
+    return { kind: poolName, poolId, tokens, balances, weights, swapFeePercentage };
+  }
+}
+
 function pickTokens(tokens: TokenList, size: number, offset?: number): TokenList {
   return pick(tokens, tokenSymbols.slice(offset ?? 0, size + (offset ?? 0)));
 }
@@ -160,14 +179,14 @@ export function printGas(gas: number | BigNumber): string {
   return `${(gas / 1000).toFixed(1)}k`;
 }
 
-type PoolName = 'WeightedPool' | 'WeightedPool2Tokens' | 'StablePool';
+export type PoolName = 'WeightedPool' | 'WeightedPool2Tokens' | 'StablePool';
 
 async function deployPoolFromFactory(
   vault: Contract,
   poolName: PoolName,
   args: { from: SignerWithAddress; parameters: Array<unknown> }
 ): Promise<Contract> {
-  const fullName = `${poolName == 'StablePool' ? 'v2-pool-stable' : 'v2-pool-weighted'}/${poolName}`;
+  const fullName = getPoolArtifact(poolName);
   const factory = await deploy(`${fullName}Factory`, { args: [vault.address] });
   // We could reuse this factory if we saved it across pool deployments
 
@@ -186,3 +205,7 @@ async function deployPoolFromFactory(
 
   return deployedAt(fullName, event.args?.pool);
 }
+
+function getPoolArtifact(poolName: PoolName): string {
+  return `${poolName == 'StablePool' ? 'v2-pool-stable' : 'v2-pool-weighted'}/${poolName}`;
+}
@@ -1,54 +1,57 @@
-import { Contract } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
 import { TokenList } from '@balancer-labs/v2-helpers/src/tokens';
-import { MAX_INT256, MAX_UINT256 } from '@balancer-labs/v2-helpers/src/constants';
-import { FundManagement, getTokensSwaps, SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
-import { getWeightedPool, getStablePool, printGas, setupEnvironment, tokenSymbols } from './misc';
+import { SWAP_KIND } from '@balancer-labs/v2-helpers/src/models/vault/swaps';
+import { findRoute } from '@balancer-labs/v2-helpers/src/models/vault/router';
+import {
+  getRouterPool,
+  getWeightedPool,
+  getStablePool,
+  PoolName,
+  printGas,
+  setupEnvironment,
+  tokenSymbols,
+} from './misc';
 import { fp } from '@balancer-labs/v2-helpers/src/numbers';
 
-let vault: Contract;
+let vault: Vault;
 let tokens: TokenList;
 let trader: SignerWithAddress;
 
 const MAX_HOPS = 3;
 
 async function main() {
-  ({ vault, tokens, trader } = await setupEnvironment());
+  const environment = await setupEnvironment();
+  ({ tokens, trader } = environment);
+  vault = new Vault(false, environment.vault);
 
   console.log('== One token in for one token out, multiple hops ==');
 
   console.log(`\n# Weighted Pool with 2 tokens`);
 
-  await multihop((index: number) => getWeightedPool(vault, tokens, 2, index), false);
-  await multihop((index: number) => getWeightedPool(vault, tokens, 2, index), true);
+  await multihop((index: number) => getWeightedPool(vault.instance, tokens, 2, index), 'WeightedPool2Tokens', false);
+  await multihop((index: number) => getWeightedPool(vault.instance, tokens, 2, index), 'WeightedPool2Tokens', true);
 
   console.log(`\n# Weighted Pool with 4 tokens`);
 
-  await multihop((index: number) => getWeightedPool(vault, tokens, 4, index), false);
-  await multihop((index: number) => getWeightedPool(vault, tokens, 4, index), true);
+  await multihop((index: number) => getWeightedPool(vault.instance, tokens, 4, index), 'WeightedPool', false);
+  await multihop((index: number) => getWeightedPool(vault.instance, tokens, 4, index), 'WeightedPool', true);
 
   console.log(`\n# Stable Pool with 2 tokens`);
 
-  await multihop((index: number) => getStablePool(vault, tokens, 2, index), false);
-  await multihop((index: number) => getStablePool(vault, tokens, 2, index), true);
+  await multihop((index: number) => getStablePool(vault.instance, tokens, 2, index), 'StablePool', false);
+  await multihop((index: number) => getStablePool(vault.instance, tokens, 2, index), 'StablePool', true);
 
   console.log(`\n# Stable Pool with 4 tokens`);
 
-  await multihop((index: number) => getStablePool(vault, tokens, 4, index), false);
-  await multihop((index: number) => getStablePool(vault, tokens, 4, index), true);
+  await multihop((index: number) => getStablePool(vault.instance, tokens, 4, index), 'StablePool', false);
+  await multihop((index: number) => getStablePool(vault.instance, tokens, 4, index), 'StablePool', true);
 }
 
-async function multihop(getPool: (index: number) => Promise<string>, useInternalBalance: boolean) {
+async function multihop(getPool: (index: number) => Promise<string>, poolName: PoolName, useInternalBalance: boolean) {
   console.log(`\n## ${useInternalBalance ? 'Using Internal Balance' : 'Sending and receiving tokens'}`);
 
-  const funds: FundManagement = {
-    sender: trader.address,
-    recipient: trader.address,
-    fromInternalBalance: useInternalBalance,
-    toInternalBalance: useInternalBalance,
-  };
-
   const pools: Array<string> = [];
   for (let i = 0; i < MAX_HOPS + 1; ++i) {
     // To do n hops, we need n+1 pools
@@ -56,36 +59,52 @@ async function multihop(getPool: (index: number) => Promise<string>, useInternal
   }
 
   for (let numHops = 1; numHops <= MAX_HOPS; ++numHops) {
-    const trades = pools.slice(0, numHops).map((poolId, index) => {
-      const tokenIn = tokenSymbols[index];
-      const tokenOut = tokenSymbols[index + 1];
-
-      const trade = { poolId, tokenIn, tokenOut };
-
-      if (index == 0) {
-        return { ...trade, amount: fp(0.1).toString() };
-      } else {
-        return trade;
-      }
+    const swaps = pools.slice(0, numHops).map((poolId, index) => ({
+      poolId,
+      in: tokens[tokenSymbols[index]].address,
+      out: tokens[tokenSymbols[index + 1]].address,
+      // Only the first swap specifies an amount, the following ones are multihops
+      amount: index == 0 ? fp(0.1) : 0,
+    }));
+
+    const { receipt } = await vault.batchSwap({
+      kind: SWAP_KIND.GIVEN_IN,
+      swaps,
+      fromInternalBalance: useInternalBalance,
+      toInternalBalance: useInternalBalance,
+      from: trader,
     });
 
-    const [tokenAddresses, swaps] = getTokensSwaps(tokens, trades);
-
-    const receipt = await (
-      await vault
-        .connect(trader)
-        .batchSwap(
-          SWAP_KIND.GIVEN_IN,
-          swaps,
-          tokenAddresses,
-          funds,
-          Array(tokenAddresses.length).fill(MAX_INT256),
-          MAX_UINT256
-        )
-    ).wait();
-
-    console.log(`${numHops} hops: ${printGas(receipt.gasUsed)} (${printGas(receipt.gasUsed / numHops)} per swap)`);
+    console.log(`${numHops} hops: ${printGas(receipt.gasUsed)} (${printGas(receipt.gasUsed.div(numHops))} per swap)`);
   }
+
+  // The same pools are then used to trade through the best paths found by the router, splitting the amount among them
+  const routerPools = await Promise.all(pools.map((poolId) => getRouterPool(vault.instance, poolId, poolName)));
+  const route = findRoute(routerPools, {
+    kind: SWAP_KIND.GIVEN_IN,
+    tokenIn: tokens[tokenSymbols[0]].address,
+    tokenOut: tokens[tokenSymbols[MAX_HOPS]].address,
+    amount: fp(10),
+    maxHops: MAX_HOPS,
+  });
+
+  const { receipt } = await vault.batchSwap({
+    kind: SWAP_KIND.GIVEN_IN,
+    swaps: route.swaps.map(({ poolId, assetInIndex, assetOutIndex, amount }) => ({
+      poolId,
+      in: route.assets[assetInIndex],
+      out: route.assets[assetOutIndex],
+      amount,
+    })),
+    fromInternalBalance: useInternalBalance,
+    toInternalBalance: useInternalBalance,
+    from: trader,
+  });
+
+  const numSwaps = route.swaps.length;
+  console.log(
+    `routed (${numSwaps} swaps): ${printGas(receipt.gasUsed)} (${printGas(receipt.gasUsed.div(numSwaps))} per swap)`
+  );
 }
 
 main()
@@ -16,6 +16,7 @@ export const MAX_INT53: BigNumber = maxInt(53);
 export const MAX_INT256: BigNumber = maxInt(256);
 
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+export const DELEGATE_OWNER = '0xBA1BA1ba1BA1bA1bA1Ba1BA1ba1BA1bA1ba1ba1B';
 export const ZERO_BYTES32 = '0x0000000000000000000000000000000000000000000000000000000000000000';
 
 export const MAX_GAS_LIMIT = 8e6;
@@ -37,7 +37,8 @@ export async function deployedAt(contract: string, address: string): Promise<Con
   return ethers.getContractAt(artifact.abi, address);
 }
 
-function getArtifact(contract: string): Promise<Artifact> {
+// Reads the artifact of a contract, following the same naming rules as in `deploy`.
+export function getArtifact(contract: string): Promise<Artifact> {
   let artifactsPath: string;
   if (!contract.includes('/')) {
     artifactsPath = path.resolve('./artifacts');
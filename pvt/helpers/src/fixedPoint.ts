@@ -0,0 +1,86 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from './numbers';
+import { MAX_UINT256 } from './constants';
+import { pow } from './logExpMath';
+
+// Port of `FixedPoint.sol` and the unsigned operations of `Math.sol`. Rounding directions and overflow checks mirror the
+// Solidity ones, so results (and failures) match the contracts to the wei.
+
+export const ONE = bn(10).pow(18);
+export const MAX_POW_RELATIVE_ERROR = bn(10000);
+export const MIN_POW_BASE_FREE_EXPONENT = bn(10).pow(17).mul(7);
+
+export function add(a: BigNumberish, b: BigNumberish): BigNumber {
+  return checked(bn(a).add(b), 'ADD_OVERFLOW');
+}
+
+export function sub(a: BigNumberish, b: BigNumberish): BigNumber {
+  if (bn(b).gt(a)) throw Error('SUB_OVERFLOW');
+  return bn(a).sub(b);
+}
+
+export function mulDown(a: BigNumberish, b: BigNumberish): BigNumber {
+  return mul(a, b).div(ONE);
+}
+
+export function mulUp(a: BigNumberish, b: BigNumberish): BigNumber {
+  const product = mul(a, b);
+  return product.isZero() ? product : product.sub(1).div(ONE).add(1);
+}
+
+export function divDown(a: BigNumberish, b: BigNumberish): BigNumber {
+  if (bn(b).isZero()) throw Error('ZERO_DIVISION');
+  if (bn(a).isZero()) return bn(0);
+  return checked(bn(a).mul(ONE), 'DIV_INTERNAL').div(b);
+}
+
+export function divUp(a: BigNumberish, b: BigNumberish): BigNumber {
+  if (bn(b).isZero()) throw Error('ZERO_DIVISION');
+  if (bn(a).isZero()) return bn(0);
+  return checked(bn(a).mul(ONE), 'DIV_INTERNAL').sub(1).div(b).add(1);
+}
+
+export function powDown(x: BigNumberish, y: BigNumberish): BigNumber {
+  const raw = pow(x, y);
+  const maxError = add(mulUp(raw, MAX_POW_RELATIVE_ERROR), 1);
+  return raw.lt(maxError) ? bn(0) : sub(raw, maxError);
+}
+
+export function powUp(x: BigNumberish, y: BigNumberish): BigNumber {
+  const raw = pow(x, y);
+  const maxError = add(mulUp(raw, MAX_POW_RELATIVE_ERROR), 1);
+  return add(raw, maxError);
+}
+
+export function complement(x: BigNumberish): BigNumber {
+  return bn(x).lt(ONE) ? ONE.sub(x) : bn(0);
+}
+
+/**
+ * Plain integer multiplication, as `Math.mul`.
+ */
+export function mul(a: BigNumberish, b: BigNumberish): BigNumber {
+  return checked(bn(a).mul(b), 'MUL_OVERFLOW');
+}
+
+/**
+ * Plain integer division rounding down, as `Math.divDown`.
+ */
+export function divDownRaw(a: BigNumberish, b: BigNumberish): BigNumber {
+  if (bn(b).isZero()) throw Error('ZERO_DIVISION');
+  return bn(a).div(b);
+}
+
+/**
+ * Plain integer division rounding up, as `Math.divUp`.
+ */
+export function divUpRaw(a: BigNumberish, b: BigNumberish): BigNumber {
+  if (bn(b).isZero()) throw Error('ZERO_DIVISION');
+  return bn(a).isZero() ? bn(0) : bn(a).sub(1).div(b).add(1);
+}
+
+function checked(value: BigNumber, error: string): BigNumber {
+  if (value.gt(MAX_UINT256)) throw Error(error);
+  return value;
+}
@@ -0,0 +1,218 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from './numbers';
+
+// Port of `LogExpMath.sol` and the low resolution logarithms of `WeightedOracleMath.sol`. Every operation mirrors the
+// Solidity one, including its truncating signed divisions, so results match the contracts to the wei.
+
+const ONE_18 = bn(10).pow(18);
+const ONE_20 = bn(10).pow(20);
+const ONE_36 = bn(10).pow(36);
+
+const MAX_NATURAL_EXPONENT = bn(130).mul(ONE_18);
+const MIN_NATURAL_EXPONENT = bn(-41).mul(ONE_18);
+
+const LN_36_LOWER_BOUND = ONE_18.sub(bn(10).pow(17));
+const LN_36_UPPER_BOUND = ONE_18.add(bn(10).pow(17));
+
+const MILD_EXPONENT_BOUND = bn(2).pow(254).div(ONE_20);
+
+const LOG_COMPRESSION_FACTOR = bn(10).pow(14);
+const HALF_LOG_COMPRESSION_FACTOR = LOG_COMPRESSION_FACTOR.div(2);
+
+// 18 decimal constants, where a0 and a1 have no decimals
+const x0 = bn('128000000000000000000');
+const a0 = bn('38877084059945950922200000000000000000000000000000000000');
+const x1 = bn('64000000000000000000');
+const a1 = bn('6235149080811616882910000000');
+
+// 20 decimal constants
+const X = [
+  '3200000000000000000000',
+  '1600000000000000000000',
+  '800000000000000000000',
+  '400000000000000000000',
+  '200000000000000000000',
+  '100000000000000000000',
+  '50000000000000000000',
+  '25000000000000000000',
+  '12500000000000000000',
+  '6250000000000000000',
+].map(bn);
+
+const A = [
+  '7896296018268069516100000000000000',
+  '888611052050787263676000000',
+  '298095798704172827474000',
+  '5459815003314423907810',
+  '738905609893065022723',
+  '271828182845904523536',
+  '164872127070012814685',
+  '128402541668774148407',
+  '113314845306682631683',
+  '106449445891785942956',
+].map(bn);
+
+/**
+ * Exponentiation (x^y) with unsigned 18 decimal fixed point base and exponent, as `LogExpMath.pow`.
+ */
+export function pow(x: BigNumberish, y: BigNumberish): BigNumber {
+  x = bn(x);
+  y = bn(y);
+
+  if (y.isZero()) return ONE_18;
+  if (x.isZero()) return bn(0);
+
+  if (x.gte(bn(2).pow(255))) throw Error('X_OUT_OF_BOUNDS');
+  if (y.gte(MILD_EXPONENT_BOUND)) throw Error('Y_OUT_OF_BOUNDS');
+
+  let logXTimesY: BigNumber;
+  if (LN_36_LOWER_BOUND.lt(x) && x.lt(LN_36_UPPER_BOUND)) {
+    const ln36X = _ln36(x);
+    logXTimesY = ln36X.div(ONE_18).mul(y).add(rem(ln36X, ONE_18).mul(y).div(ONE_18));
+  } else {
+    logXTimesY = _ln(x).mul(y);
+  }
+  logXTimesY = logXTimesY.div(ONE_18);
+
+  if (logXTimesY.lt(MIN_NATURAL_EXPONENT) || logXTimesY.gt(MAX_NATURAL_EXPONENT)) throw Error('PRODUCT_OUT_OF_BOUNDS');
+  return exp(logXTimesY);
+}
+
+/**
+ * Natural exponentiation (e^x) with signed 18 decimal fixed point exponent, as `LogExpMath.exp`.
+ */
+export function exp(x: BigNumberish): BigNumber {
+  x = bn(x);
+  if (x.lt(MIN_NATURAL_EXPONENT) || x.gt(MAX_NATURAL_EXPONENT)) throw Error('INVALID_EXPONENT');
+
+  if (x.isNegative()) return ONE_18.mul(ONE_18).div(exp(x.mul(-1)));
+
+  let firstAN = bn(1);
+  if (x.gte(x0)) {
+    x = x.sub(x0);
+    firstAN = a0;
+  } else if (x.gte(x1)) {
+    x = x.sub(x1);
+    firstAN = a1;
+  }
+
+  x = x.mul(100);
+
+  // x10 and x11 are not used for exponentiation
+  let product = ONE_20;
+  for (let i = 0; i < 8; i++) {
+    if (x.gte(X[i])) {
+      x = x.sub(X[i]);
+      product = product.mul(A[i]).div(ONE_20);
+    }
+  }
+
+  let seriesSum = ONE_20;
+  let term = x;
+  seriesSum = seriesSum.add(term);
+  for (let n = 2; n <= 12; n++) {
+    term = term.mul(x).div(ONE_20).div(n);
+    seriesSum = seriesSum.add(term);
+  }
+
+  return product.mul(seriesSum).div(ONE_20).mul(firstAN).div(100);
+}
+
+/**
+ * Logarithm (log(arg, base)) with signed 18 decimal fixed point base and argument, as `LogExpMath.log`.
+ */
+export function log(arg: BigNumberish, base: BigNumberish): BigNumber {
+  const logBase = _ln36OrUpscaledLn(bn(base));
+  const logArg = _ln36OrUpscaledLn(bn(arg));
+  return logArg.mul(ONE_18).div(logBase);
+}
+
+/**
+ * Natural logarithm (ln(a)) with signed 18 decimal fixed point argument, as `LogExpMath.ln`.
+ */
+export function ln(a: BigNumberish): BigNumber {
+  a = bn(a);
+  if (a.lte(0)) throw Error('OUT_OF_BOUNDS');
+
+  if (LN_36_LOWER_BOUND.lt(a) && a.lt(LN_36_UPPER_BOUND)) return _ln36(a).div(ONE_18);
+  return _ln(a);
+}
+
+/**
+ * Returns the natural logarithm of an 18 decimal fixed point `value` as a 4 decimal fixed point number, as
+ * `WeightedOracleMath._toLowResLog`.
+ */
+export function toLowResLog(value: BigNumberish): BigNumber {
+  const result = ln(value);
+  const rounding = result.gt(0) ? HALF_LOG_COMPRESSION_FACTOR : HALF_LOG_COMPRESSION_FACTOR.mul(-1);
+  return result.add(rounding).div(LOG_COMPRESSION_FACTOR);
+}
+
+/**
+ * Restores an 18 decimal fixed point value from a 4 decimal fixed point logarithm, as
+ * `WeightedOracleMath._fromLowResLog`.
+ */
+export function fromLowResLog(value: BigNumberish): BigNumber {
+  return exp(bn(value).mul(LOG_COMPRESSION_FACTOR));
+}
+
+function _ln(a: BigNumber): BigNumber {
+  if (a.lt(ONE_18)) return _ln(ONE_18.mul(ONE_18).div(a)).mul(-1);
+
+  let sum = bn(0);
+  if (a.gte(a0.mul(ONE_18))) {
+    a = a.div(a0);
+    sum = sum.add(x0);
+  }
+
+  if (a.gte(a1.mul(ONE_18))) {
+    a = a.div(a1);
+    sum = sum.add(x1);
+  }
+
+  sum = sum.mul(100);
+  a = a.mul(100);
+
+  for (let i = 0; i < A.length; i++) {
+    if (a.gte(A[i])) {
+      a = a.mul(ONE_20).div(A[i]);
+      sum = sum.add(X[i]);
+    }
+  }
+
+  const z = a.sub(ONE_20).mul(ONE_20).div(a.add(ONE_20));
+  const seriesSum = _oddPowersSeries(z, ONE_20, 11);
+
+  return sum.add(seriesSum.mul(2)).div(100);
+}
+
+function _ln36(x: BigNumber): BigNumber {
+  x = x.mul(ONE_18);
+
+  const z = x.sub(ONE_36).mul(ONE_36).div(x.add(ONE_36));
+  return _oddPowersSeries(z, ONE_36, 15).mul(2);
+}
+
+function _ln36OrUpscaledLn(x: BigNumber): BigNumber {
+  return LN_36_LOWER_BOUND.lt(x) && x.lt(LN_36_UPPER_BOUND) ? _ln36(x) : _ln(x).mul(ONE_18);
+}
+
+// Computes z + z^3 / 3 + z^5 / 5 + ... + z^n / n with `one` as the fixed point unit
+function _oddPowersSeries(z: BigNumber, one: BigNumber, n: number): BigNumber {
+  const zSquared = z.mul(z).div(one);
+
+  let num = z;
+  let seriesSum = num;
+  for (let i = 3; i <= n; i += 2) {
+    num = num.mul(zSquared).div(one);
+    seriesSum = seriesSum.add(num.div(i));
+  }
+
+  return seriesSum;
+}
+
+// Signed remainder, truncated towards zero like Solidity's `%`
+function rem(a: BigNumber, b: BigNumber): BigNumber {
+  return a.sub(a.div(b).mul(b));
+}
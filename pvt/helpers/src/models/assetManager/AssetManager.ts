@@ -0,0 +1,245 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn, fp } from '../../numbers';
+import { PoolConfig, PoolTokenBalance, RawPoolConfig, SharePricing } from './types';
+
+const ONE = fp(1);
+
+/**
+ * Mints and burns shares proportionally to the assets under management
+ */
+export const PROPORTIONAL_SHARE_PRICING: SharePricing = {
+  invest: (amount, aum, totalSupply) => ({
+    shares: totalSupply.isZero() ? amount : amount.mul(totalSupply).div(aum),
+    aum: aum.add(amount),
+  }),
+  divest: (shares, aum, totalSupply) => {
+    const amount = shares.mul(aum).div(totalSupply);
+    return { amount, aum: aum.sub(amount) };
+  },
+};
+
+/**
+ * Mirrors `TestAssetManager.sol`, which mints `amount / aum` shares once it holds assets and doesn't lower the AUM it
+ * reports when divesting
+ */
+export const TEST_ASSET_MANAGER_SHARE_PRICING: SharePricing = {
+  invest: (amount, aum) => ({ shares: aum.isZero() ? amount : amount.div(aum), aum: aum.add(amount) }),
+  divest: (shares, aum, totalSupply) => ({ amount: shares.mul(aum).div(totalSupply), aum }),
+};
+
+/**
+ * Off-chain model of `AssetManager.sol`. It tracks the cash and managed balances the Vault holds for each pool, so that
+ * the splits resulting from investing, divesting and rebalancing can be predicted and compared against
+ * `getPoolTokenInfo`. Shares are minted and burned as the given pricing says, which defaults to doing it proportionally
+ * to the assets under management.
+ */
+export default class AssetManager {
+  pricing: SharePricing;
+  aum: BigNumber;
+  totalAUM: BigNumber;
+  totalSupply: BigNumber;
+  shares: { [poolId: string]: BigNumber };
+  configs: { [poolId: string]: PoolConfig };
+  poolBalances: { [poolId: string]: PoolTokenBalance };
+
+  constructor(pricing: SharePricing = PROPORTIONAL_SHARE_PRICING) {
+    this.pricing = pricing;
+    this.aum = bn(0);
+    this.totalAUM = bn(0);
+    this.totalSupply = bn(0);
+    this.shares = {};
+    this.configs = {};
+    this.poolBalances = {};
+  }
+
+  registerPool(poolId: string, cash: BigNumberish, config: RawPoolConfig = {}): void {
+    this.shares[poolId] = bn(0);
+    this.poolBalances[poolId] = { cash: bn(cash), managed: bn(0) };
+    this.setPoolConfig(poolId, config);
+  }
+
+  readAUM(): BigNumber {
+    return this.aum;
+  }
+
+  /**
+   * Simulates a return (or a loss) on the investment, which is not accounted for until gains are realized
+   */
+  setAUM(aum: BigNumberish): void {
+    this.aum = bn(aum);
+  }
+
+  realizeGains(): void {
+    this.totalAUM = this.readAUM();
+  }
+
+  balanceOf(poolId: string): BigNumber {
+    if (this.totalSupply.isZero()) return bn(0);
+    return this.balanceOfShares(poolId).mul(this.totalAUM).div(this.totalSupply);
+  }
+
+  balanceOfShares(poolId: string): BigNumber {
+    return this.shares[poolId] ?? bn(0);
+  }
+
+  getPoolConfig(poolId: string): PoolConfig {
+    return this._poolConfig(poolId);
+  }
+
+  setPoolConfig(poolId: string, config: RawPoolConfig): void {
+    const targetPercentage = bn(config.targetPercentage ?? 0);
+    const criticalPercentage = bn(config.criticalPercentage ?? 0);
+    const feePercentage = bn(config.feePercentage ?? 0);
+
+    if (targetPercentage.gt(ONE)) throw Error('Investment target must be less than 100%');
+    if (criticalPercentage.gt(targetPercentage)) throw Error('Critical level must be less than target');
+    if (feePercentage.gt(ONE.div(10))) throw Error('Fee on critical rebalances must be less than 10%');
+
+    this.configs[poolId] = { targetPercentage, criticalPercentage, feePercentage };
+  }
+
+  /**
+   * Returns the cash and managed balances the Vault reports for the pool's token
+   */
+  getPoolTokenInfo(poolId: string): PoolTokenBalance {
+    const { cash, managed } = this._poolBalance(poolId);
+    return { cash, managed };
+  }
+
+  maxInvestableBalance(poolId: string): BigNumber {
+    const { poolCash, poolManaged } = this._getPoolBalances(poolId, this.readAUM());
+    return this._getTargetInvestment(poolCash, poolManaged, poolId).sub(poolManaged);
+  }
+
+  getRebalanceFee(poolId: string): BigNumber {
+    const { poolCash, poolManaged } = this._getPoolBalances(poolId, this.readAUM());
+    return this._getRebalanceFee(poolCash, poolManaged, this._poolConfig(poolId));
+  }
+
+  updateBalanceOfPool(poolId: string): void {
+    this._update(poolId, this.balanceOf(poolId));
+  }
+
+  /**
+   * Rebalances the pool towards its target investment, returning the fee paid to the rebalancer
+   */
+  rebalance(poolId: string): BigNumber {
+    const aum = this.readAUM();
+    const { poolCash, poolManaged } = this._getPoolBalances(poolId, aum);
+    const config = this._poolConfig(poolId);
+
+    const targetInvestment = this._getTargetInvestment(poolCash, poolManaged, poolId);
+    if (targetInvestment.lte(poolManaged)) {
+      this.capitalOut(poolId, poolManaged.sub(targetInvestment));
+      return bn(0);
+    }
+
+    // Paying out fees reduces the pool's balance, so the invested amount is corrected to account for it
+    const feeAmount = this._getRebalanceFee(poolCash, poolManaged, config);
+    const rebalanceAmount = targetInvestment.sub(poolManaged);
+    this.capitalIn(poolId, rebalanceAmount.sub(feeAmount.mul(config.targetPercentage).div(ONE)));
+
+    // The fee is pulled from the Vault and sent to the rebalancer, so the Vault reports it as managed
+    if (feeAmount.gt(0)) this._withdraw(poolId, feeAmount);
+    return feeAmount;
+  }
+
+  capitalIn(poolId: string, amount: BigNumberish): void {
+    const aum = this.readAUM();
+    const { poolCash, poolManaged } = this._getPoolBalances(poolId, aum);
+    const targetInvestment = this._getTargetInvestment(poolCash, poolManaged, poolId);
+
+    if (targetInvestment.lt(poolManaged.add(amount))) throw Error('investment amount exceeds target');
+
+    this._update(poolId, poolManaged);
+    this._withdraw(poolId, bn(amount));
+
+    const mintAmount = this._invest(bn(amount), aum);
+    this.totalAUM = aum.add(amount);
+    this.shares[poolId] = this.balanceOfShares(poolId).add(mintAmount);
+    this.totalSupply = this.totalSupply.add(mintAmount);
+  }
+
+  capitalOut(poolId: string, amount: BigNumberish): void {
+    const aum = this.readAUM();
+    const sharesToBurn = this.totalSupply.mul(amount).div(aum);
+    this._redeemShares(poolId, sharesToBurn, aum);
+  }
+
+  redeemShares(poolId: string, shares: BigNumberish): void {
+    this._redeemShares(poolId, bn(shares), this.readAUM());
+  }
+
+  private _redeemShares(poolId: string, shares: BigNumber, aum: BigNumber): void {
+    const tokensOut = this._divest(shares, aum);
+    const { poolCash, poolManaged } = this._getPoolBalances(poolId, aum);
+    const targetInvestment = this._getTargetInvestment(poolCash, poolManaged, poolId);
+
+    if (poolManaged.lt(targetInvestment.add(tokensOut))) throw Error('withdrawal leaves insufficient balance invested');
+
+    this.totalAUM = aum.sub(tokensOut);
+    this.shares[poolId] = this.balanceOfShares(poolId).sub(shares);
+    this.totalSupply = this.totalSupply.sub(shares);
+
+    this._deposit(poolId, tokensOut);
+    this._update(poolId, this.balanceOf(poolId));
+  }
+
+  private _invest(amount: BigNumber, aum: BigNumber): BigNumber {
+    const invested = this.pricing.invest(amount, aum, this.totalSupply);
+    this.aum = invested.aum;
+    return invested.shares;
+  }
+
+  private _divest(shares: BigNumber, aum: BigNumber): BigNumber {
+    const divested = this.pricing.divest(shares, aum, this.totalSupply);
+    this.aum = divested.aum;
+    return divested.amount;
+  }
+
+  private _getPoolBalances(poolId: string, aum: BigNumber): { poolCash: BigNumber; poolManaged: BigNumber } {
+    const poolCash = this._poolBalance(poolId).cash;
+    // The managed balance is computed locally since the Vault is unaware of returns
+    const poolManaged = this.totalSupply.gt(0) ? this.balanceOfShares(poolId).mul(aum).div(this.totalSupply) : bn(0);
+    return { poolCash, poolManaged };
+  }
+
+  private _getTargetInvestment(poolCash: BigNumber, poolManaged: BigNumber, poolId: string): BigNumber {
+    return poolCash.add(poolManaged).mul(this._poolConfig(poolId).targetPercentage).div(ONE);
+  }
+
+  private _getRebalanceFee(poolCash: BigNumber, poolManaged: BigNumber, config: PoolConfig): BigNumber {
+    const criticalManagedBalance = poolCash.add(poolManaged).mul(config.criticalPercentage).div(ONE);
+    if (poolManaged.gte(criticalManagedBalance)) return bn(0);
+    return criticalManagedBalance.sub(poolManaged).mul(config.feePercentage).div(ONE);
+  }
+
+  private _withdraw(poolId: string, amount: BigNumber): void {
+    const balance = this._poolBalance(poolId);
+    if (amount.gt(balance.cash)) throw Error('SUB_OVERFLOW');
+    balance.cash = balance.cash.sub(amount);
+    balance.managed = balance.managed.add(amount);
+  }
+
+  private _deposit(poolId: string, amount: BigNumber): void {
+    const balance = this._poolBalance(poolId);
+    if (amount.gt(balance.managed)) throw Error('SUB_OVERFLOW');
+    balance.cash = balance.cash.add(amount);
+    balance.managed = balance.managed.sub(amount);
+  }
+
+  private _update(poolId: string, amount: BigNumber): void {
+    this._poolBalance(poolId).managed = amount;
+  }
+
+  private _poolBalance(poolId: string): PoolTokenBalance {
+    const balance = this.poolBalances[poolId];
+    if (!balance) throw Error('Pool not registered in the asset manager');
+    return balance;
+  }
+
+  private _poolConfig(poolId: string): PoolConfig {
+    return this.configs[poolId] ?? { targetPercentage: bn(0), criticalPercentage: bn(0), feePercentage: bn(0) };
+  }
+}
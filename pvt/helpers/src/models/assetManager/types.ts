@@ -0,0 +1,29 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish } from '../../numbers';
+
+export type RawPoolConfig = {
+  targetPercentage?: BigNumberish;
+  criticalPercentage?: BigNumberish;
+  feePercentage?: BigNumberish;
+};
+
+export type PoolConfig = {
+  targetPercentage: BigNumber;
+  criticalPercentage: BigNumber;
+  feePercentage: BigNumber;
+};
+
+export type PoolTokenBalance = {
+  cash: BigNumber;
+  managed: BigNumber;
+};
+
+/**
+ * Share accounting of a concrete asset manager, which implements the `_invest` and `_divest` hooks of
+ * `AssetManager.sol`. Both hooks return the AUM the asset manager reports afterwards besides their own result.
+ */
+export type SharePricing = {
+  invest(amount: BigNumber, aum: BigNumber, totalSupply: BigNumber): { shares: BigNumber; aum: BigNumber };
+  divest(shares: BigNumber, aum: BigNumber, totalSupply: BigNumber): { amount: BigNumber; aum: BigNumber };
+};
@@ -0,0 +1,107 @@
+import { Contract, ContractTransaction } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { ZERO_ADDRESS } from '../../constants';
+
+import AuthorizerDeployer from './AuthorizerDeployer';
+import TypesConverter from '../types/TypesConverter';
+import { actionId } from '../misc/actions';
+import { Account, NAry, TxParams } from '../types/types';
+import { AuthorizerDeployment, Permission, PermissionsTarget, Role } from './types';
+
+export default class Authorizer {
+  instance: Contract;
+  admin?: SignerWithAddress;
+
+  static async create(deployment: AuthorizerDeployment = {}): Promise<Authorizer> {
+    return AuthorizerDeployer.deploy(deployment);
+  }
+
+  constructor(instance: Contract, admin?: SignerWithAddress) {
+    this.instance = instance;
+    this.admin = admin;
+  }
+
+  get address(): string {
+    return this.instance.address;
+  }
+
+  async roleOf(role: Role): Promise<string> {
+    return typeof role === 'string' ? role : actionId(role.contract, role.method);
+  }
+
+  async hasRole(role: Role, account: Account): Promise<boolean> {
+    return this.instance.hasRole(await this.roleOf(role), TypesConverter.toAddress(account));
+  }
+
+  async canPerform(role: Role, account: Account, where: Account = ZERO_ADDRESS): Promise<boolean> {
+    const id = await this.roleOf(role);
+    return this.instance.canPerform(id, TypesConverter.toAddress(account), TypesConverter.toAddress(where));
+  }
+
+  async getRoleMembers(role: Role): Promise<string[]> {
+    const id = await this.roleOf(role);
+    const count = await this.instance.getRoleMemberCount(id);
+
+    const members: string[] = [];
+    for (let i = 0; i < count.toNumber(); i++) members.push(await this.instance.getRoleMember(id, i));
+    return members;
+  }
+
+  async grantRoles(roles: NAry<Role>, account: Account, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const ids = await this._rolesOf(roles);
+    return this._connect(from).grantRoles(ids, TypesConverter.toAddress(account));
+  }
+
+  async grantRolesToMany(roles: Role[], accounts: Account[], { from }: TxParams = {}): Promise<ContractTransaction> {
+    const ids = await this._rolesOf(roles);
+    return this._connect(from).grantRolesToMany(
+      ids,
+      accounts.map((account) => TypesConverter.toAddress(account))
+    );
+  }
+
+  async revokeRoles(roles: NAry<Role>, account: Account, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const ids = await this._rolesOf(roles);
+    return this._connect(from).revokeRoles(ids, TypesConverter.toAddress(account));
+  }
+
+  async revokeRolesFromMany(roles: Role[], accounts: Account[], { from }: TxParams = {}): Promise<ContractTransaction> {
+    const ids = await this._rolesOf(roles);
+    return this._connect(from).revokeRolesFromMany(
+      ids,
+      accounts.map((account) => TypesConverter.toAddress(account))
+    );
+  }
+
+  async renounceRole(role: Role, account: SignerWithAddress): Promise<ContractTransaction> {
+    return this.instance.connect(account).renounceRole(await this.roleOf(role), account.address);
+  }
+
+  /**
+   * Lists which accounts can call each of the permissioned methods of the given targets. Methods reserved to an owner
+   * are reported as callable by it alone, since the authorizer is not consulted for them.
+   */
+  async getPermissionsReport(targets: PermissionsTarget[]): Promise<Permission[]> {
+    const permissions: Permission[] = [];
+
+    for (const { name, contract, methods, owner, ownerOnlyMethods } of targets) {
+      for (const method of methods) {
+        const id = await actionId(contract, method);
+        const accounts = owner && ownerOnlyMethods?.includes(method) ? [owner] : await this.getRoleMembers(id);
+        permissions.push({ target: name, address: contract.address, method, actionId: id, accounts });
+      }
+    }
+
+    return permissions;
+  }
+
+  private async _rolesOf(roles: NAry<Role>): Promise<string[]> {
+    return Promise.all((Array.isArray(roles) ? roles : [roles]).map((role) => this.roleOf(role)));
+  }
+
+  private _connect(from?: SignerWithAddress): Contract {
+    const sender = from || this.admin;
+    return sender ? this.instance.connect(sender) : this.instance;
+  }
+}
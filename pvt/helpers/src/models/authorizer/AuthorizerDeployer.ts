@@ -1,14 +1,16 @@
 import { ethers } from 'hardhat';
-import { Contract } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
 import { deploy } from '../../contract';
 
+import Authorizer from './Authorizer';
 import { AuthorizerDeployment } from './types';
 import TypesConverter from '../types/TypesConverter';
 
 export default {
-  async deploy(deployment: AuthorizerDeployment): Promise<Contract> {
+  async deploy(deployment: AuthorizerDeployment): Promise<Authorizer> {
     const admin = deployment.admin || deployment.from || (await ethers.getSigners())[0];
-    return deploy('Authorizer', { args: [TypesConverter.toAddress(admin)] });
+    const instance = await deploy('v2-vault/Authorizer', { args: [TypesConverter.toAddress(admin)] });
+    return new Authorizer(instance, admin instanceof SignerWithAddress ? admin : undefined);
   },
 };
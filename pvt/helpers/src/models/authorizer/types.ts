@@ -1,3 +1,4 @@
+import { Contract } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
 import { Account } from '../types/types';
@@ -6,3 +7,22 @@ export type AuthorizerDeployment = {
   admin?: Account;
   from?: SignerWithAddress;
 };
+
+// Roles can be given either by their raw identifier or by the contract and method whose action they control
+export type Role = string | { contract: Contract; method: string };
+
+export type PermissionsTarget = {
+  name: string;
+  contract: Contract;
+  methods: string[];
+  owner?: string;
+  ownerOnlyMethods?: string[];
+};
+
+export type Permission = {
+  target: string;
+  address: string;
+  method: string;
+  actionId: string;
+  accounts: string[];
+};
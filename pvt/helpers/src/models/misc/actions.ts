@@ -1,6 +1,115 @@
-import { Contract } from 'ethers';
+import { Contract, ContractInterface, utils } from 'ethers';
+
+import { getArtifact } from '../../contract';
+import TypesConverter from '../types/TypesConverter';
+import { Account } from '../types/types';
 
 export const actionId = (instance: Contract, method: string): Promise<string> => {
   const selector = instance.interface.getSighash(method);
   return instance.getActionId(selector);
 };
+
+// Functions each contract checks permissions for. The Vault functions acting on behalf of a user are the ones relayers
+// need to be authorized for.
+export const PERMISSIONED_METHODS: { [contract: string]: string[] } = {
+  Vault: [
+    'setAuthorizer',
+    'setPaused',
+    'setRelayerApproval',
+    'manageUserBalance',
+    'joinPool',
+    'exitPool',
+    'swap',
+    'batchSwap',
+  ],
+  ProtocolFeesCollector: ['setSwapFeePercentage', 'setFlashLoanFeePercentage', 'withdrawCollectedFees'],
+  WeightedPool: ['setSwapFeePercentage', 'setAssetManagerPoolConfig', 'setPaused'],
+  WeightedPool2Tokens: ['setSwapFeePercentage', 'setPaused', 'enableOracle'],
+  StablePool: ['setSwapFeePercentage', 'setAssetManagerPoolConfig', 'setPaused'],
+};
+
+// Pool actions `BasePoolAuthorization` reserves to the pool owner, unless ownership is delegated to the authorizer
+export const OWNER_ONLY_ACTIONS = ['setSwapFeePercentage', 'setAssetManagerPoolConfig'];
+
+export type ActionIdEntry = {
+  contract: string;
+  signature: string;
+  selector: string;
+  disambiguator: string;
+};
+
+export type ActionIdRegistry = { [actionId: string]: ActionIdEntry };
+
+export type ActionIdSource = {
+  contract: string;
+  abi: ContractInterface;
+  disambiguator: Account;
+  methods?: string[];
+};
+
+/**
+ * Computes the action ID of a function without querying the contract, as `Authentication.getActionId` does. Singletons
+ * such as the Vault use their own address as disambiguator, while pools use the one of the account that created them,
+ * usually their factory, so that every pool created by it shares the same action IDs.
+ */
+export function computeActionId(disambiguator: Account, selector: string): string {
+  return utils.solidityKeccak256(['bytes32', 'bytes4'], [toDisambiguator(disambiguator), selector]);
+}
+
+/**
+ * Builds the registry of action IDs of the given contracts. Methods can be given either by name, which includes all of
+ * their overloads, or by signature. They default to the known permissioned methods of each contract, or to every
+ * non-view function for contracts with no known permissioned methods.
+ */
+export function buildActionIdRegistry(sources: ActionIdSource[]): ActionIdRegistry {
+  const registry: ActionIdRegistry = {};
+
+  for (const { contract, abi, disambiguator, methods = PERMISSIONED_METHODS[contract] } of sources) {
+    const contractInterface = abi instanceof utils.Interface ? abi : new utils.Interface(abi);
+    const functions = Object.values(contractInterface.functions).filter((fn) =>
+      methods ? methods.includes(fn.name) || methods.includes(fn.format()) : !fn.constant
+    );
+
+    for (const fn of functions) {
+      const selector = contractInterface.getSighash(fn);
+      const entry = { contract, signature: fn.format(), selector, disambiguator: toDisambiguator(disambiguator) };
+
+      // Contracts sharing a disambiguator, such as pools created by the same factory, share their action IDs too
+      const id = computeActionId(disambiguator, selector);
+      const registered = registry[id];
+      if (registered && (registered.contract !== contract || registered.signature !== entry.signature)) {
+        throw Error(`Action ID collision between ${registered.contract} and ${contract}`);
+      }
+
+      registry[id] = entry;
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Builds the registry of action IDs reading the ABIs from the artifacts of the given contracts, which follow the same
+ * naming rules as in `deploy`. Entries are named after the contracts without their package.
+ */
+export async function buildActionIdRegistryFromArtifacts(
+  sources: Omit<ActionIdSource, 'abi'>[]
+): Promise<ActionIdRegistry> {
+  const sourcesWithAbi = await Promise.all(
+    sources.map(async (source) => ({
+      ...source,
+      contract: source.contract.split('/').slice(-1)[0],
+      abi: (await getArtifact(source.contract)).abi,
+    }))
+  );
+
+  return buildActionIdRegistry(sourcesWithAbi);
+}
+
+function toDisambiguator(account: Account): string {
+  return utils.hexZeroPad(TypesConverter.toAddress(account), 32);
+}
+
+export function actionIdRegistryToJSON(registry: ActionIdRegistry): string {
+  return JSON.stringify(registry, null, 2);
+}
@@ -0,0 +1,576 @@
+import { BigNumber, Contract, ContractFunction, ContractReceipt, ContractTransaction } from 'ethers';
+
+import { actionId, OWNER_ONLY_ACTIONS } from '../../misc/actions';
+import { BigNumberish, bn, fp } from '../../../numbers';
+import { DELEGATE_OWNER, MAX_UINT256, ZERO_ADDRESS } from '../../../constants';
+
+import * as expectEvent from '../../../test/expectEvent';
+import Vault from '../../vault/Vault';
+import { decodePoolId } from '../../vault/poolId';
+import { PoolSpecializationSetting } from '../../vault/pools';
+import Token from '../../tokens/Token';
+import TokenList from '../../tokens/TokenList';
+import TypesConverter from '../../types/TypesConverter';
+import { Account } from '../../types/types';
+import {
+  ExitGivenOutPool,
+  ExitQueryResult,
+  ExitResult,
+  InitPool,
+  JoinExitPool,
+  JoinGivenInPool,
+  JoinGivenOutPool,
+  JoinQueryResult,
+  JoinResult,
+  MultiExitGivenInPool,
+  PoolAdminAction,
+  PoolEncoding,
+  PoolMath,
+  PoolQueryResult,
+  PoolSimulation,
+  PoolSimulationMath,
+  PoolSnapshot,
+  SimulatedOperation,
+  SingleExitGivenInPool,
+} from './types';
+import { calculateDueProtocolFeeAmounts, simulate } from './simulation';
+import { PermissionsTarget } from '../../authorizer/types';
+import { computeScalingFactor, downscaleDown, downscaleUp, upscaleArray } from './scaling';
+
+/**
+ * Behavior shared by every pool model. Pool types only need to provide their join/exit encoding, their math modules and
+ * the parameter their invariant depends on, which is passed to every math function. Estimations use the bit-exact
+ * simulation math, and can be given a different parameter to model pools whose parameter changes over time.
+ */
+export default abstract class BasePool<P> {
+  instance: Contract;
+  poolId: string;
+  tokens: TokenList;
+  swapFeePercentage: BigNumberish;
+  vault: Vault;
+  encoding: PoolEncoding;
+  math: PoolMath<P>;
+  simulationMath: PoolSimulationMath<P>;
+
+  constructor(
+    instance: Contract,
+    poolId: string,
+    vault: Vault,
+    tokens: TokenList,
+    swapFeePercentage: BigNumberish,
+    encoding: PoolEncoding,
+    math: PoolMath<P>,
+    simulationMath: PoolSimulationMath<P>
+  ) {
+    this.instance = instance;
+    this.poolId = poolId;
+    this.vault = vault;
+    this.tokens = tokens;
+    this.swapFeePercentage = swapFeePercentage;
+    this.encoding = encoding;
+    this.math = math;
+    this.simulationMath = simulationMath;
+  }
+
+  /**
+   * Parameter the invariant depends on used by default in estimations, which may change over time.
+   */
+  protected abstract getMathParams(): Promise<P>;
+
+  abstract get permissionedMethods(): string[];
+
+  /**
+   * Current value of the parameter the invariant depends on, as reported by the pool.
+   */
+  protected abstract getCurrentMathParams(): Promise<P>;
+
+  /**
+   * Invariant protocol swap fees are measured against when capturing a snapshot, along with the math parameter it was
+   * computed with.
+   */
+  protected abstract getSnapshotLastInvariant(): Promise<{ lastInvariant: BigNumber; lastInvariantMathParams: P }>;
+
+  get address(): string {
+    return this.instance.address;
+  }
+
+  get specialization(): PoolSpecializationSetting {
+    return decodePoolId(this.poolId).specialization;
+  }
+
+  get nonce(): BigNumber {
+    return decodePoolId(this.poolId).nonce;
+  }
+
+  get scalingFactors(): BigNumber[] {
+    return this.tokens.map((token) => computeScalingFactor(token.decimals));
+  }
+
+  async name(): Promise<string> {
+    return this.instance.name();
+  }
+
+  async symbol(): Promise<string> {
+    return this.instance.symbol();
+  }
+
+  async decimals(): Promise<BigNumber> {
+    return this.instance.decimals();
+  }
+
+  async totalSupply(): Promise<BigNumber> {
+    return this.instance.totalSupply();
+  }
+
+  async balanceOf(account: Account): Promise<BigNumber> {
+    return this.instance.balanceOf(TypesConverter.toAddress(account));
+  }
+
+  async getVault(): Promise<string> {
+    return this.instance.getVault();
+  }
+
+  async getRegisteredInfo(): Promise<{ address: string; specialization: BigNumber }> {
+    return this.vault.getPool(this.poolId);
+  }
+
+  async getPoolId(): Promise<string> {
+    return this.instance.getPoolId();
+  }
+
+  async getLastInvariant(): Promise<BigNumber> {
+    return this.instance.getLastInvariant();
+  }
+
+  async getSwapFeePercentage(): Promise<BigNumber> {
+    return this.instance.getSwapFeePercentage();
+  }
+
+  async getOwner(): Promise<string> {
+    return this.instance.getOwner();
+  }
+
+  async isOwnerOnlyAction(method: string): Promise<boolean> {
+    return OWNER_ONLY_ACTIONS.includes(method) && (await this.getOwner()) !== DELEGATE_OWNER;
+  }
+
+  /**
+   * Tells whether `account` can call `method` on the pool: owner-only actions can only be performed by the owner, while
+   * the rest are controlled by the Vault's authorizer.
+   */
+  async canPerform(method: string, account: Account): Promise<boolean> {
+    const address = TypesConverter.toAddress(account);
+    if (await this.isOwnerOnlyAction(method)) return address.toLowerCase() === (await this.getOwner()).toLowerCase();
+
+    if (!this.vault.authorizer) throw Error("Missing Vault's authorizer instance");
+    return this.vault.authorizer.canPerform(await actionId(this.instance, method), address, this.address);
+  }
+
+  async getTokens(): Promise<{ tokens: string[]; balances: BigNumber[]; lastChangeBlock: BigNumber }> {
+    return this.vault.getPoolTokens(this.poolId);
+  }
+
+  async getBalances(): Promise<BigNumber[]> {
+    const { balances } = await this.getTokens();
+    return balances;
+  }
+
+  async getTokenInfo(
+    token: Token
+  ): Promise<{ cash: BigNumber; managed: BigNumber; lastChangeBlock: BigNumber; assetManager: string }> {
+    return this.vault.getPoolTokenInfo(this.poolId, token);
+  }
+
+  /**
+   * Captures the current state of the pool, to simulate operations on it off-chain. The protocol swap fee percentage
+   * is the one set in the Vault, or zero if the Vault is mocked.
+   */
+  async snapshot(): Promise<PoolSnapshot<P>> {
+    const { tokens, balances } = await this.getTokens();
+    const { lastInvariant, lastInvariantMathParams } = await this.getSnapshotLastInvariant();
+
+    return {
+      tokens,
+      balances,
+      scalingFactors: this.scalingFactors,
+      mathParams: await this.getCurrentMathParams(),
+      swapFeePercentage: await this.getSwapFeePercentage(),
+      protocolSwapFeePercentage: this.vault.mocked ? bn(0) : await this.vault.getSwapFeePercentage(),
+      totalSupply: await this.totalSupply(),
+      lastInvariant,
+      lastInvariantMathParams,
+      paidProtocolFeeAmounts: tokens.map(() => bn(0)),
+    };
+  }
+
+  /**
+   * Simulates `operations` off-chain, starting from the given snapshot or from the current state of the pool.
+   */
+  async simulate(operations: SimulatedOperation[], snapshot?: PoolSnapshot<P>): Promise<PoolSimulation<P>> {
+    if (!snapshot) snapshot = await this.snapshot();
+    return simulate(this.simulationMath, snapshot, operations);
+  }
+
+  /**
+   * Estimates the protocol swap fees the pool will pay on its next join or exit. The snapshot must have been captured
+   * after the last join or exit and include every swap since, which is always the case for the current state of the
+   * pool.
+   */
+  async estimateDueProtocolFeeAmounts(snapshot?: PoolSnapshot<P>): Promise<BigNumber[]> {
+    if (!snapshot) snapshot = await this.snapshot();
+    return calculateDueProtocolFeeAmounts(this.simulationMath, snapshot);
+  }
+
+  async estimateInvariant(currentBalances?: BigNumberish[], mathParams?: P): Promise<BigNumber> {
+    if (!currentBalances) currentBalances = await this.getBalances();
+    if (!mathParams) mathParams = await this.getMathParams();
+    return this.simulationMath.calculateInvariant(upscaleArray(currentBalances, this.scalingFactors), mathParams);
+  }
+
+  async estimateSwapFeeAmount(
+    paidToken: number | Token,
+    protocolFeePercentage: BigNumberish,
+    currentBalances?: BigNumberish[]
+  ): Promise<BigNumber> {
+    if (!currentBalances) currentBalances = await this.getBalances();
+    const lastInvariant = await this.estimateInvariant();
+    const paidTokenIndex = this.tokens.indexOf(paidToken);
+    const feeAmount = this.math.calculateOneTokenSwapFeeAmount(
+      upscaleArray(currentBalances, this.scalingFactors),
+      await this.getMathParams(),
+      lastInvariant,
+      paidTokenIndex
+    );
+
+    const protocolFeeAmount = bn(feeAmount).mul(protocolFeePercentage).div(fp(1));
+    return downscaleDown(protocolFeeAmount, this.scalingFactors[paidTokenIndex]);
+  }
+
+  async estimateBptOut(
+    amountsIn: BigNumberish[],
+    currentBalances?: BigNumberish[],
+    supply?: BigNumberish,
+    mathParams?: P
+  ): Promise<BigNumberish> {
+    if (!supply) supply = await this.totalSupply();
+    if (!currentBalances) currentBalances = await this.getBalances();
+    if (!mathParams) mathParams = await this.getMathParams();
+
+    return this.simulationMath.calcBptOutGivenExactTokensIn(
+      upscaleArray(currentBalances, this.scalingFactors),
+      mathParams,
+      upscaleArray(amountsIn, this.scalingFactors),
+      supply,
+      this.swapFeePercentage
+    );
+  }
+
+  async estimateTokenIn(
+    token: number | Token,
+    bptOut: BigNumberish,
+    currentBalances?: BigNumberish[],
+    supply?: BigNumberish,
+    mathParams?: P
+  ): Promise<BigNumberish> {
+    if (!supply) supply = await this.totalSupply();
+    if (!currentBalances) currentBalances = await this.getBalances();
+    if (!mathParams) mathParams = await this.getMathParams();
+    const tokenIndex = this.tokens.indexOf(token);
+
+    const amountIn = this.simulationMath.calcTokenInGivenExactBptOut(
+      tokenIndex,
+      upscaleArray(currentBalances, this.scalingFactors),
+      mathParams,
+      bptOut,
+      supply,
+      this.swapFeePercentage
+    );
+
+    return downscaleUp(amountIn, this.scalingFactors[tokenIndex]);
+  }
+
+  async estimateTokenOut(
+    token: number | Token,
+    bptIn: BigNumberish,
+    currentBalances?: BigNumberish[],
+    supply?: BigNumberish,
+    mathParams?: P
+  ): Promise<BigNumberish> {
+    if (!supply) supply = await this.totalSupply();
+    if (!currentBalances) currentBalances = await this.getBalances();
+    if (!mathParams) mathParams = await this.getMathParams();
+    const tokenIndex = this.tokens.indexOf(token);
+
+    const amountOut = this.simulationMath.calcTokenOutGivenExactBptIn(
+      tokenIndex,
+      upscaleArray(currentBalances, this.scalingFactors),
+      mathParams,
+      bptIn,
+      supply,
+      this.swapFeePercentage
+    );
+
+    return downscaleDown(amountOut, this.scalingFactors[tokenIndex]);
+  }
+
+  async init(params: InitPool): Promise<JoinResult> {
+    return this.join(this._buildInitParams(params));
+  }
+
+  async joinGivenIn(params: JoinGivenInPool): Promise<JoinResult> {
+    return this.join(this._buildJoinGivenInParams(params));
+  }
+
+  async queryJoinGivenIn(params: JoinGivenInPool): Promise<JoinQueryResult> {
+    return this.queryJoin(this._buildJoinGivenInParams(params));
+  }
+
+  async joinGivenOut(params: JoinGivenOutPool): Promise<JoinResult> {
+    return this.join(this._buildJoinGivenOutParams(params));
+  }
+
+  async queryJoinGivenOut(params: JoinGivenOutPool): Promise<JoinQueryResult> {
+    return this.queryJoin(this._buildJoinGivenOutParams(params));
+  }
+
+  async exitGivenOut(params: ExitGivenOutPool): Promise<ExitResult> {
+    return this.exit(this._buildExitGivenOutParams(params));
+  }
+
+  async queryExitGivenOut(params: ExitGivenOutPool): Promise<ExitQueryResult> {
+    return this.queryExit(this._buildExitGivenOutParams(params));
+  }
+
+  async singleExitGivenIn(params: SingleExitGivenInPool): Promise<ExitResult> {
+    return this.exit(this._buildSingleExitGivenInParams(params));
+  }
+
+  async querySingleExitGivenIn(params: SingleExitGivenInPool): Promise<ExitQueryResult> {
+    return this.queryExit(this._buildSingleExitGivenInParams(params));
+  }
+
+  async multiExitGivenIn(params: MultiExitGivenInPool): Promise<ExitResult> {
+    return this.exit(this._buildMultiExitGivenInParams(params));
+  }
+
+  async queryMultiExitGivenIn(params: MultiExitGivenInPool): Promise<ExitQueryResult> {
+    return this.queryExit(this._buildMultiExitGivenInParams(params));
+  }
+
+  async queryJoin(params: JoinExitPool): Promise<JoinQueryResult> {
+    const fn = this.instance.queryJoin;
+    return (await this._executeQuery(params, fn)) as JoinQueryResult;
+  }
+
+  async join(params: JoinExitPool): Promise<JoinResult> {
+    const currentBalances = params.currentBalances || (await this.getBalances());
+    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
+
+    const tx = this.vault.joinPool({
+      poolAddress: this.address,
+      poolId: this.poolId,
+      recipient: to,
+      currentBalances,
+      tokens: this.tokens.addresses,
+      lastChangeBlock: params.lastChangeBlock ?? 0,
+      protocolFeePercentage: params.protocolFeePercentage ?? 0,
+      data: params.data ?? '0x',
+      from: params.from,
+    });
+
+    const receipt = await (await tx).wait();
+    const { deltas, protocolFeeAmounts } = this._decodeBalanceChange(receipt);
+    return { amountsIn: deltas, dueProtocolFeeAmounts: protocolFeeAmounts };
+  }
+
+  async queryExit(params: JoinExitPool): Promise<ExitQueryResult> {
+    const fn = this.instance.queryExit;
+    return (await this._executeQuery(params, fn)) as ExitQueryResult;
+  }
+
+  async exit(params: JoinExitPool): Promise<ExitResult> {
+    const currentBalances = params.currentBalances || (await this.getBalances());
+    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
+
+    const tx = await this.vault.exitPool({
+      poolAddress: this.address,
+      poolId: this.poolId,
+      recipient: to,
+      currentBalances,
+      tokens: this.tokens.addresses,
+      lastChangeBlock: params.lastChangeBlock ?? 0,
+      protocolFeePercentage: params.protocolFeePercentage ?? 0,
+      data: params.data ?? '0x',
+      from: params.from,
+    });
+
+    const receipt = await (await tx).wait();
+    const { deltas, protocolFeeAmounts } = this._decodeBalanceChange(receipt);
+    return { amountsOut: deltas.map((x: BigNumber) => x.mul(-1)), dueProtocolFeeAmounts: protocolFeeAmounts };
+  }
+
+  async getPermissionsTarget(): Promise<PermissionsTarget> {
+    const ownerOnlyMethods: string[] = [];
+    for (const method of this.permissionedMethods) {
+      if (await this.isOwnerOnlyAction(method)) ownerOnlyMethods.push(method);
+    }
+
+    const name = await this.name();
+    return {
+      name,
+      contract: this.instance,
+      methods: this.permissionedMethods,
+      owner: await this.getOwner(),
+      ownerOnlyMethods,
+    };
+  }
+
+  async setSwapFeePercentage(
+    swapFeePercentage: BigNumberish,
+    params: PoolAdminAction = {}
+  ): Promise<ContractTransaction> {
+    const tx = await this.performAdminAction('setSwapFeePercentage', [swapFeePercentage], params);
+    this.swapFeePercentage = swapFeePercentage;
+    return tx;
+  }
+
+  async setPaused(paused: boolean, params: PoolAdminAction = {}): Promise<ContractTransaction> {
+    return this.performAdminAction('setPaused', [paused], params);
+  }
+
+  async pause(): Promise<void> {
+    await this.setPaused(true, { grantRole: true });
+  }
+
+  /**
+   * Calls a permissioned `method` of the pool, first granting its role to the sender in the authorizer if requested.
+   * Roles are only granted for actions the authorizer controls: owner-only actions are left to the pool owner.
+   */
+  protected async performAdminAction(
+    method: string,
+    args: unknown[],
+    { from, grantRole }: PoolAdminAction
+  ): Promise<ContractTransaction> {
+    if (grantRole && !(await this.isOwnerOnlyAction(method))) {
+      await this.vault.grantRole(await actionId(this.instance, method), from);
+    }
+
+    const pool = from ? this.instance.connect(from) : this.instance;
+    return pool[method](...args);
+  }
+
+  private async _executeQuery(params: JoinExitPool, fn: ContractFunction): Promise<PoolQueryResult> {
+    const currentBalances = params.currentBalances || (await this.getBalances());
+    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
+
+    return fn(
+      this.poolId,
+      params.from?.address || ZERO_ADDRESS,
+      to,
+      currentBalances,
+      params.lastChangeBlock ?? 0,
+      params.protocolFeePercentage ?? 0,
+      params.data ?? '0x'
+    );
+  }
+
+  // The Vault and its mock name the protocol fee amounts of their balance change events differently
+  private _decodeBalanceChange(receipt: ContractReceipt): { deltas: BigNumber[]; protocolFeeAmounts: BigNumber[] } {
+    const { deltas, protocolFeeAmounts, protocolFees } = expectEvent.inReceipt(receipt, 'PoolBalanceChanged').args;
+    return { deltas, protocolFeeAmounts: protocolFeeAmounts ?? protocolFees };
+  }
+
+  private _buildInitParams(params: InitPool): JoinExitPool {
+    const { initialBalances: balances } = params;
+    const amountsIn = Array.isArray(balances) ? balances : Array(this.tokens.length).fill(balances);
+
+    return {
+      from: params.from,
+      recipient: params.recipient,
+      protocolFeePercentage: params.protocolFeePercentage,
+      data: this.encoding.encodeJoin({
+        kind: 'Init',
+        amountsIn,
+      }),
+    };
+  }
+
+  private _buildJoinGivenInParams(params: JoinGivenInPool): JoinExitPool {
+    const { amountsIn: amounts } = params;
+    const amountsIn = Array.isArray(amounts) ? amounts : Array(this.tokens.length).fill(amounts);
+
+    return {
+      from: params.from,
+      recipient: params.recipient,
+      lastChangeBlock: params.lastChangeBlock,
+      currentBalances: params.currentBalances,
+      protocolFeePercentage: params.protocolFeePercentage,
+      data: this.encoding.encodeJoin({
+        kind: 'ExactTokensInForBPTOut',
+        amountsIn,
+        minimumBPT: params.minimumBptOut ?? 0,
+      }),
+    };
+  }
+
+  private _buildJoinGivenOutParams(params: JoinGivenOutPool): JoinExitPool {
+    return {
+      from: params.from,
+      recipient: params.recipient,
+      lastChangeBlock: params.lastChangeBlock,
+      currentBalances: params.currentBalances,
+      protocolFeePercentage: params.protocolFeePercentage,
+      data: this.encoding.encodeJoin({
+        kind: 'TokenInForExactBPTOut',
+        bptAmountOut: params.bptOut,
+        enterTokenIndex: this.tokens.indexOf(params.token),
+      }),
+    };
+  }
+
+  private _buildExitGivenOutParams(params: ExitGivenOutPool): JoinExitPool {
+    const { amountsOut: amounts } = params;
+    const amountsOut = Array.isArray(amounts) ? amounts : Array(this.tokens.length).fill(amounts);
+    return {
+      from: params.from,
+      recipient: params.recipient,
+      lastChangeBlock: params.lastChangeBlock,
+      currentBalances: params.currentBalances,
+      protocolFeePercentage: params.protocolFeePercentage,
+      data: this.encoding.encodeExit({
+        kind: 'BPTInForExactTokensOut',
+        amountsOut,
+        maxBPTAmountIn: params.maximumBptIn ?? MAX_UINT256,
+      }),
+    };
+  }
+
+  private _buildSingleExitGivenInParams(params: SingleExitGivenInPool): JoinExitPool {
+    return {
+      from: params.from,
+      recipient: params.recipient,
+      lastChangeBlock: params.lastChangeBlock,
+      currentBalances: params.currentBalances,
+      protocolFeePercentage: params.protocolFeePercentage,
+      data: this.encoding.encodeExit({
+        kind: 'ExactBPTInForOneTokenOut',
+        bptAmountIn: params.bptIn,
+        exitTokenIndex: this.tokens.indexOf(params.token),
+      }),
+    };
+  }
+
+  private _buildMultiExitGivenInParams(params: MultiExitGivenInPool): JoinExitPool {
+    return {
+      from: params.from,
+      recipient: params.recipient,
+      lastChangeBlock: params.lastChangeBlock,
+      currentBalances: params.currentBalances,
+      protocolFeePercentage: params.protocolFeePercentage,
+      data: this.encoding.encodeExit({
+        kind: 'ExactBPTInForTokensOut',
+        bptAmountIn: params.bptIn,
+      }),
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { Decimal } from 'decimal.js';
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn, decimal } from '../../../numbers';
+import { mul, divDownRaw, divUpRaw } from '../../../fixedPoint';
+
+// Scaling of token amounts to 18 decimals, mirroring `BasePool._upscale`, `_downscaleDown` and `_downscaleUp`. Pools
+// round amounts entering them up and amounts leaving them down. Downscaling also accepts the non-integer results of the
+// math models, which are rounded in the same direction.
+
+export function computeScalingFactor(decimals: number): BigNumber {
+  if (decimals > 18) throw Error('SUB_OVERFLOW');
+  return bn(10).pow(18 - decimals);
+}
+
+export function upscale(amount: BigNumberish, scalingFactor: BigNumberish): BigNumber {
+  return mul(amount, scalingFactor);
+}
+
+export function upscaleArray(amounts: BigNumberish[], scalingFactors: BigNumberish[]): BigNumber[] {
+  return amounts.map((amount, i) => upscale(amount, scalingFactors[i]));
+}
+
+export function downscaleDown(amount: BigNumberish | Decimal, scalingFactor: BigNumberish): BigNumber {
+  return divDownRaw(bn(decimal(amount).floor().toFixed(0)), scalingFactor);
+}
+
+export function downscaleDownArray(amounts: (BigNumberish | Decimal)[], scalingFactors: BigNumberish[]): BigNumber[] {
+  return amounts.map((amount, i) => downscaleDown(amount, scalingFactors[i]));
+}
+
+export function downscaleUp(amount: BigNumberish | Decimal, scalingFactor: BigNumberish): BigNumber {
+  return divUpRaw(bn(decimal(amount).ceil().toFixed(0)), scalingFactor);
+}
+
+export function downscaleUpArray(amounts: (BigNumberish | Decimal)[], scalingFactors: BigNumberish[]): BigNumber[] {
+  return amounts.map((amount, i) => downscaleUp(amount, scalingFactors[i]));
+}
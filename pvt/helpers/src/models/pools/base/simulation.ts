@@ -0,0 +1,311 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from '../../../numbers';
+import { add, sub, mulUp, divUp, complement } from '../../../fixedPoint';
+
+import Token from '../../tokens/Token';
+import {
+  PoolSimulation,
+  PoolSimulationMath,
+  PoolSnapshot,
+  SimulatedOperation,
+  SimulatedOperationResult,
+} from './types';
+import { upscale, upscaleArray, downscaleDown, downscaleDownArray, downscaleUp, downscaleUpArray } from './scaling';
+
+// Off-chain simulation of pool operations, mirroring how `BasePool` and its derived contracts scale amounts, charge
+// swap fees and protocol swap fees, and how the Vault updates pool balances afterwards.
+
+const MINIMUM_BPT = bn(1e6);
+
+/**
+ * Applies `operations` in order to `snapshot`, returning the resulting snapshot along with the result of every
+ * operation. The given snapshot is not modified. Operations the pool would reject throw the same error as the
+ * contracts.
+ */
+export function simulate<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  operations: SimulatedOperation[]
+): PoolSimulation<P> {
+  const results: SimulatedOperationResult[] = [];
+
+  for (const operation of operations) {
+    const { snapshot: next, result } = applyOperation(math, snapshot, operation);
+    snapshot = next;
+    results.push(result);
+  }
+
+  return { snapshot, results };
+}
+
+export function applyOperation<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  operation: SimulatedOperation
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  switch (operation.kind) {
+    case 'Init':
+      return initialize(math, snapshot, operation.amountsIn);
+    case 'SwapGivenIn':
+      return swapGivenIn(math, snapshot, operation);
+    case 'SwapGivenOut':
+      return swapGivenOut(math, snapshot, operation);
+    case 'JoinGivenIn':
+    case 'JoinGivenOut':
+      return join(math, snapshot, operation);
+    default:
+      return exit(math, snapshot, operation);
+  }
+}
+
+function initialize<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  amountsIn: BigNumberish[]
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  if (!snapshot.totalSupply.isZero()) throw Error('UNHANDLED_JOIN_KIND');
+  if (amountsIn.length !== snapshot.tokens.length) throw Error('INPUT_LENGTH_MISMATCH');
+
+  const { scalingFactors } = snapshot;
+  const upscaledAmountsIn = upscaleArray(amountsIn, scalingFactors);
+  const invariant = math.calculateInvariant(upscaledAmountsIn, snapshot.mathParams);
+  const bptOut = math.calcInitialBptOut(invariant, snapshot.tokens.length);
+  if (bptOut.lt(MINIMUM_BPT)) throw Error('MINIMUM_BPT');
+
+  // The minimum BPT is minted for the zero address, so the whole amount adds up to the total supply
+  const roundedAmountsIn = downscaleUpArray(upscaledAmountsIn, scalingFactors);
+  return {
+    snapshot: {
+      ...snapshot,
+      balances: snapshot.balances.map((balance, i) => add(balance, roundedAmountsIn[i])),
+      totalSupply: bptOut,
+      lastInvariant: invariant,
+      lastInvariantMathParams: snapshot.mathParams,
+    },
+    result: { ...emptyResult(snapshot), amountsIn: roundedAmountsIn, bptOut },
+  };
+}
+
+function swapGivenIn<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  { in: tokenIn, out: tokenOut, amount }: { in: number | Token; out: number | Token; amount: BigNumberish }
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  const [indexIn, indexOut] = [tokenIndex(snapshot, tokenIn), tokenIndex(snapshot, tokenOut)];
+  const { scalingFactors } = snapshot;
+
+  // Fees are subtracted before scaling, as the pools do
+  const amountInWithoutFee = sub(amount, mulUp(amount, snapshot.swapFeePercentage));
+  const upscaledAmountIn = upscale(amountInWithoutFee, scalingFactors[indexIn]);
+  const upscaledBalances = upscaleArray(snapshot.balances, scalingFactors);
+  const upscaledAmountOut = math.calcOutGivenIn(
+    upscaledBalances,
+    snapshot.mathParams,
+    indexIn,
+    indexOut,
+    upscaledAmountIn
+  );
+
+  const amountOut = downscaleDown(upscaledAmountOut, scalingFactors[indexOut]);
+  return applySwap(snapshot, indexIn, indexOut, bn(amount), amountOut);
+}
+
+function swapGivenOut<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  { in: tokenIn, out: tokenOut, amount }: { in: number | Token; out: number | Token; amount: BigNumberish }
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  const [indexIn, indexOut] = [tokenIndex(snapshot, tokenIn), tokenIndex(snapshot, tokenOut)];
+  const { scalingFactors } = snapshot;
+
+  const upscaledAmountOut = upscale(amount, scalingFactors[indexOut]);
+  const upscaledBalances = upscaleArray(snapshot.balances, scalingFactors);
+  const upscaledAmountIn = math.calcInGivenOut(
+    upscaledBalances,
+    snapshot.mathParams,
+    indexIn,
+    indexOut,
+    upscaledAmountOut
+  );
+
+  // Fees are added after scaling, as the pools do
+  const amountInWithoutFee = downscaleUp(upscaledAmountIn, scalingFactors[indexIn]);
+  const amountIn = divUp(amountInWithoutFee, complement(snapshot.swapFeePercentage));
+  return applySwap(snapshot, indexIn, indexOut, amountIn, bn(amount));
+}
+
+function applySwap<P>(
+  snapshot: PoolSnapshot<P>,
+  indexIn: number,
+  indexOut: number,
+  amountIn: BigNumber,
+  amountOut: BigNumber
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  const result = emptyResult(snapshot);
+  result.amountsIn[indexIn] = amountIn;
+  result.amountsOut[indexOut] = amountOut;
+
+  const balances = snapshot.balances.map((balance, i) => sub(add(balance, result.amountsIn[i]), result.amountsOut[i]));
+  return { snapshot: { ...snapshot, balances }, result };
+}
+
+function join<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  operation: Extract<SimulatedOperation, { kind: 'JoinGivenIn' | 'JoinGivenOut' }>
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  if (snapshot.totalSupply.isZero()) throw Error('UNINITIALIZED');
+
+  const { mathParams, scalingFactors, totalSupply, swapFeePercentage } = snapshot;
+  const { balances, dueProtocolFeeAmounts } = chargeProtocolFees(math, snapshot);
+
+  let bptOut: BigNumber;
+  let amountsIn: BigNumber[];
+  if (operation.kind === 'JoinGivenIn') {
+    if (operation.amountsIn.length !== balances.length) throw Error('INPUT_LENGTH_MISMATCH');
+    amountsIn = upscaleArray(operation.amountsIn, scalingFactors);
+    bptOut = math.calcBptOutGivenExactTokensIn(balances, mathParams, amountsIn, totalSupply, swapFeePercentage);
+    if (bptOut.lt(operation.minimumBptOut ?? 0)) throw Error('BPT_OUT_MIN_AMOUNT');
+  } else {
+    const index = tokenIndex(snapshot, operation.token);
+    bptOut = bn(operation.bptOut);
+    amountsIn = balances.map(() => bn(0));
+    amountsIn[index] = math.calcTokenInGivenExactBptOut(
+      index,
+      balances,
+      mathParams,
+      bptOut,
+      totalSupply,
+      swapFeePercentage
+    );
+  }
+
+  const lastInvariant = math.calculateInvariant(
+    balances.map((balance, i) => add(balance, amountsIn[i])),
+    mathParams
+  );
+
+  const result = {
+    ...emptyResult(snapshot),
+    amountsIn: downscaleUpArray(amountsIn, scalingFactors),
+    bptOut,
+    dueProtocolFeeAmounts: downscaleDownArray(dueProtocolFeeAmounts, scalingFactors),
+  };
+
+  return { snapshot: applyJoinExit(snapshot, result, lastInvariant), result };
+}
+
+function exit<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>,
+  operation: Extract<SimulatedOperation, { kind: 'ExitGivenOut' | 'SingleExitGivenIn' | 'MultiExitGivenIn' }>
+): { snapshot: PoolSnapshot<P>; result: SimulatedOperationResult } {
+  const { mathParams, scalingFactors, totalSupply, swapFeePercentage } = snapshot;
+  const { balances, dueProtocolFeeAmounts } = chargeProtocolFees(math, snapshot);
+
+  let bptIn: BigNumber;
+  let amountsOut: BigNumber[];
+  if (operation.kind === 'ExitGivenOut') {
+    if (operation.amountsOut.length !== balances.length) throw Error('INPUT_LENGTH_MISMATCH');
+    amountsOut = upscaleArray(operation.amountsOut, scalingFactors);
+    bptIn = math.calcBptInGivenExactTokensOut(balances, mathParams, amountsOut, totalSupply, swapFeePercentage);
+    if (operation.maximumBptIn !== undefined && bptIn.gt(operation.maximumBptIn)) throw Error('BPT_IN_MAX_AMOUNT');
+  } else if (operation.kind === 'SingleExitGivenIn') {
+    const index = tokenIndex(snapshot, operation.token);
+    bptIn = bn(operation.bptIn);
+    amountsOut = balances.map(() => bn(0));
+    amountsOut[index] = math.calcTokenOutGivenExactBptIn(
+      index,
+      balances,
+      mathParams,
+      bptIn,
+      totalSupply,
+      swapFeePercentage
+    );
+  } else {
+    bptIn = bn(operation.bptIn);
+    amountsOut = math.calcTokensOutGivenExactBptIn(balances, bptIn, totalSupply);
+  }
+
+  const lastInvariant = math.calculateInvariant(
+    balances.map((balance, i) => sub(balance, amountsOut[i])),
+    mathParams
+  );
+
+  const result = {
+    ...emptyResult(snapshot),
+    amountsOut: downscaleDownArray(amountsOut, scalingFactors),
+    bptIn,
+    dueProtocolFeeAmounts: downscaleDownArray(dueProtocolFeeAmounts, scalingFactors),
+  };
+
+  return { snapshot: applyJoinExit(snapshot, result, lastInvariant), result };
+}
+
+/**
+ * Computes the protocol swap fees the pool would pay on a join or exit in the state captured by `snapshot`, that is,
+ * the share of the invariant growth since the last join or exit owed to the protocol, paid in a single token.
+ */
+export function calculateDueProtocolFeeAmounts<P>(math: PoolSimulationMath<P>, snapshot: PoolSnapshot<P>): BigNumber[] {
+  if (snapshot.totalSupply.isZero()) return snapshot.tokens.map(() => bn(0));
+
+  const { dueProtocolFeeAmounts } = chargeProtocolFees(math, snapshot);
+  return downscaleDownArray(dueProtocolFeeAmounts, snapshot.scalingFactors);
+}
+
+/**
+ * Computes the protocol swap fees due since the last join or exit, returning them along with the upscaled balances
+ * remaining after paying them, which are the ones joins and exits operate on. The invariant growth is measured with
+ * the math parameter the last invariant was computed with.
+ */
+function chargeProtocolFees<P>(
+  math: PoolSimulationMath<P>,
+  snapshot: PoolSnapshot<P>
+): { balances: BigNumber[]; dueProtocolFeeAmounts: BigNumber[] } {
+  const upscaledBalances = upscaleArray(snapshot.balances, snapshot.scalingFactors);
+  const dueProtocolFeeAmounts = math.calcDueProtocolFeeAmounts(
+    upscaledBalances,
+    snapshot.lastInvariantMathParams,
+    snapshot.lastInvariant,
+    snapshot.protocolSwapFeePercentage
+  );
+
+  const balances = upscaledBalances.map((balance, i) => sub(balance, dueProtocolFeeAmounts[i]));
+  return { balances, dueProtocolFeeAmounts };
+}
+
+// The Vault adds the amounts in and subtracts the amounts out and the protocol fees from the pool balances
+function applyJoinExit<P>(
+  snapshot: PoolSnapshot<P>,
+  result: SimulatedOperationResult,
+  lastInvariant: BigNumber
+): PoolSnapshot<P> {
+  const { amountsIn, amountsOut, dueProtocolFeeAmounts, bptOut, bptIn } = result;
+
+  return {
+    ...snapshot,
+    balances: snapshot.balances.map((balance, i) =>
+      sub(sub(add(balance, amountsIn[i]), amountsOut[i]), dueProtocolFeeAmounts[i])
+    ),
+    totalSupply: sub(add(snapshot.totalSupply, bptOut), bptIn),
+    lastInvariant,
+    lastInvariantMathParams: snapshot.mathParams,
+    paidProtocolFeeAmounts: snapshot.paidProtocolFeeAmounts.map((paid, i) => add(paid, dueProtocolFeeAmounts[i])),
+  };
+}
+
+function tokenIndex<P>(snapshot: PoolSnapshot<P>, token: number | Token): number {
+  const index =
+    typeof token === 'number'
+      ? token
+      : snapshot.tokens.findIndex((address) => address.toLowerCase() === token.address.toLowerCase());
+
+  if (index < 0 || index >= snapshot.tokens.length) throw Error('INVALID_TOKEN');
+  return index;
+}
+
+function emptyResult<P>(snapshot: PoolSnapshot<P>): SimulatedOperationResult {
+  const zeros = () => snapshot.tokens.map(() => bn(0));
+  return { amountsIn: zeros(), amountsOut: zeros(), bptOut: bn(0), bptIn: bn(0), dueProtocolFeeAmounts: zeros() };
+}
@@ -0,0 +1,297 @@
+import { BigNumber } from 'ethers';
+import { Decimal } from 'decimal.js';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { BigNumberish } from '../../../numbers';
+
+import Token from '../../tokens/Token';
+import { Account, NAry } from '../../types/types';
+
+export type JoinPoolInit = {
+  kind: 'Init';
+  amountsIn: BigNumberish[];
+};
+
+export type JoinPoolExactTokensInForBPTOut = {
+  kind: 'ExactTokensInForBPTOut';
+  amountsIn: BigNumberish[];
+  minimumBPT: BigNumberish;
+};
+
+export type JoinPoolTokenInForExactBPTOut = {
+  kind: 'TokenInForExactBPTOut';
+  bptAmountOut: BigNumberish;
+  enterTokenIndex: number;
+};
+
+export type JoinPoolData = JoinPoolInit | JoinPoolExactTokensInForBPTOut | JoinPoolTokenInForExactBPTOut;
+
+export type ExitPoolExactBPTInForOneTokenOut = {
+  kind: 'ExactBPTInForOneTokenOut';
+  bptAmountIn: BigNumberish;
+  exitTokenIndex: number;
+};
+
+export type ExitPoolExactBPTInForTokensOut = {
+  kind: 'ExactBPTInForTokensOut';
+  bptAmountIn: BigNumberish;
+};
+
+export type ExitPoolBPTInForExactTokensOut = {
+  kind: 'BPTInForExactTokensOut';
+  amountsOut: BigNumberish[];
+  maxBPTAmountIn: BigNumberish;
+};
+
+export type ExitPoolData =
+  | ExitPoolExactBPTInForOneTokenOut
+  | ExitPoolExactBPTInForTokensOut
+  | ExitPoolBPTInForExactTokensOut;
+
+export type PoolEncoding = {
+  encodeJoin(joinData: JoinPoolData): string;
+  encodeExit(exitData: ExitPoolData): string;
+};
+
+/**
+ * Math functions shared by every pool type, where `P` is the pool specific parameter the invariant depends on
+ * (e.g. the normalized weights of a weighted pool or the amplification parameter of a stable pool)
+ */
+export type PoolMath<P> = {
+  calculateInvariant(fpRawBalances: BigNumberish[], params: P): BigNumber;
+  calcBptOutGivenExactTokensIn(
+    fpBalances: BigNumberish[],
+    params: P,
+    fpAmountsIn: BigNumberish[],
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumberish;
+  calcTokenInGivenExactBptOut(
+    tokenIndex: number,
+    fpBalances: BigNumberish[],
+    params: P,
+    fpBptAmountOut: BigNumberish,
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumberish;
+  calcTokenOutGivenExactBptIn(
+    tokenIndex: number,
+    fpBalances: BigNumberish[],
+    params: P,
+    fpBptAmountIn: BigNumberish,
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumberish;
+  calculateOneTokenSwapFeeAmount(
+    fpBalances: BigNumberish[],
+    params: P,
+    lastInvariant: BigNumberish,
+    tokenIndex: number
+  ): Decimal | BigNumber;
+};
+
+export type SwapPool = {
+  in: number | Token;
+  out: number | Token;
+  amount: BigNumberish;
+  recipient?: Account;
+  from?: SignerWithAddress;
+  lastChangeBlock?: BigNumberish;
+  data?: string;
+};
+
+export type JoinExitPool = {
+  recipient?: Account;
+  currentBalances?: BigNumberish[];
+  lastChangeBlock?: BigNumberish;
+  protocolFeePercentage?: BigNumberish;
+  data?: string;
+  from?: SignerWithAddress;
+};
+
+export type InitPool = {
+  initialBalances: NAry<BigNumberish>;
+  from?: SignerWithAddress;
+  recipient?: Account;
+  protocolFeePercentage?: BigNumberish;
+};
+
+export type JoinGivenInPool = {
+  amountsIn: NAry<BigNumberish>;
+  minimumBptOut?: BigNumberish;
+  from?: SignerWithAddress;
+  recipient?: Account;
+  lastChangeBlock?: BigNumberish;
+  currentBalances?: BigNumberish[];
+  protocolFeePercentage?: BigNumberish;
+};
+
+export type JoinGivenOutPool = {
+  token: number | Token;
+  bptOut: BigNumberish;
+  from?: SignerWithAddress;
+  recipient?: Account;
+  lastChangeBlock?: BigNumberish;
+  currentBalances?: BigNumberish[];
+  protocolFeePercentage?: BigNumberish;
+};
+
+export type ExitGivenOutPool = {
+  amountsOut: NAry<BigNumberish>;
+  maximumBptIn?: BigNumberish;
+  recipient?: Account;
+  from?: SignerWithAddress;
+  lastChangeBlock?: BigNumberish;
+  currentBalances?: BigNumberish[];
+  protocolFeePercentage?: BigNumberish;
+};
+
+export type SingleExitGivenInPool = {
+  bptIn: BigNumberish;
+  token: number | Token;
+  recipient?: Account;
+  from?: SignerWithAddress;
+  lastChangeBlock?: BigNumberish;
+  currentBalances?: BigNumberish[];
+  protocolFeePercentage?: BigNumberish;
+};
+
+export type MultiExitGivenInPool = {
+  bptIn: BigNumberish;
+  recipient?: Account;
+  from?: SignerWithAddress;
+  lastChangeBlock?: BigNumberish;
+  currentBalances?: BigNumberish[];
+  protocolFeePercentage?: BigNumberish;
+};
+
+export type JoinResult = {
+  amountsIn: BigNumber[];
+  dueProtocolFeeAmounts: BigNumber[];
+};
+
+export type ExitResult = {
+  amountsOut: BigNumber[];
+  dueProtocolFeeAmounts: BigNumber[];
+};
+
+export type JoinQueryResult = {
+  bptOut: BigNumber;
+  amountsIn: BigNumber[];
+};
+
+export type ExitQueryResult = {
+  bptIn: BigNumber;
+  amountsOut: BigNumber[];
+};
+
+export type PoolQueryResult = JoinQueryResult | ExitQueryResult;
+
+export type PoolAdminAction = {
+  from?: SignerWithAddress;
+  grantRole?: boolean;
+};
+
+/**
+ * State of a pool at a given point in time, holding everything needed to simulate operations on it off-chain. Balances
+ * are expressed in token units, as held by the Vault, and the scaling factors normalize them to 18 decimals.
+ */
+export type PoolSnapshot<P> = {
+  tokens: string[];
+  balances: BigNumber[];
+  scalingFactors: BigNumber[];
+  mathParams: P;
+  swapFeePercentage: BigNumber;
+  protocolSwapFeePercentage: BigNumber;
+  totalSupply: BigNumber;
+  lastInvariant: BigNumber;
+  lastInvariantMathParams: P;
+  paidProtocolFeeAmounts: BigNumber[];
+};
+
+export type SimulatedOperation =
+  | { kind: 'Init'; amountsIn: BigNumberish[] }
+  | { kind: 'SwapGivenIn'; in: number | Token; out: number | Token; amount: BigNumberish }
+  | { kind: 'SwapGivenOut'; in: number | Token; out: number | Token; amount: BigNumberish }
+  | { kind: 'JoinGivenIn'; amountsIn: BigNumberish[]; minimumBptOut?: BigNumberish }
+  | { kind: 'JoinGivenOut'; token: number | Token; bptOut: BigNumberish }
+  | { kind: 'ExitGivenOut'; amountsOut: BigNumberish[]; maximumBptIn?: BigNumberish }
+  | { kind: 'SingleExitGivenIn'; token: number | Token; bptIn: BigNumberish }
+  | { kind: 'MultiExitGivenIn'; bptIn: BigNumberish };
+
+export type SimulatedOperationResult = {
+  amountsIn: BigNumber[];
+  amountsOut: BigNumber[];
+  bptOut: BigNumber;
+  bptIn: BigNumber;
+  dueProtocolFeeAmounts: BigNumber[];
+};
+
+export type PoolSimulation<P> = {
+  snapshot: PoolSnapshot<P>;
+  results: SimulatedOperationResult[];
+};
+
+/**
+ * Bit-exact math used to simulate operations, where every amount is upscaled to 18 decimals. Swap functions take every
+ * balance of the pool, so that pools with and without a general specialization can be simulated alike.
+ */
+export type PoolSimulationMath<P> = {
+  calculateInvariant(fpBalances: BigNumberish[], params: P): BigNumber;
+  calcInitialBptOut(invariant: BigNumber, numTokens: number): BigNumber;
+  calcOutGivenIn(
+    fpBalances: BigNumberish[],
+    params: P,
+    tokenIndexIn: number,
+    tokenIndexOut: number,
+    fpAmountIn: BigNumberish
+  ): BigNumber;
+  calcInGivenOut(
+    fpBalances: BigNumberish[],
+    params: P,
+    tokenIndexIn: number,
+    tokenIndexOut: number,
+    fpAmountOut: BigNumberish
+  ): BigNumber;
+  calcBptOutGivenExactTokensIn(
+    fpBalances: BigNumberish[],
+    params: P,
+    fpAmountsIn: BigNumberish[],
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumber;
+  calcTokenInGivenExactBptOut(
+    tokenIndex: number,
+    fpBalances: BigNumberish[],
+    params: P,
+    fpBptAmountOut: BigNumberish,
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumber;
+  calcBptInGivenExactTokensOut(
+    fpBalances: BigNumberish[],
+    params: P,
+    fpAmountsOut: BigNumberish[],
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumber;
+  calcTokenOutGivenExactBptIn(
+    tokenIndex: number,
+    fpBalances: BigNumberish[],
+    params: P,
+    fpBptAmountIn: BigNumberish,
+    fpBptTotalSupply: BigNumberish,
+    fpSwapFeePercentage: BigNumberish
+  ): BigNumber;
+  calcTokensOutGivenExactBptIn(
+    fpBalances: BigNumberish[],
+    fpBptAmountIn: BigNumberish,
+    fpBptTotalSupply: BigNumberish
+  ): BigNumber[];
+  calcDueProtocolFeeAmounts(
+    fpBalances: BigNumberish[],
+    lastInvariantParams: P,
+    lastInvariant: BigNumberish,
+    fpProtocolSwapFeePercentage: BigNumberish
+  ): BigNumber[];
+};
@@ -1,52 +1,24 @@
-import { BigNumber, Contract, ContractFunction } from 'ethers';
+import { BigNumber, Contract } from 'ethers';
 
-import { actionId } from '../../../models/misc/actions';
-import { BigNumberish, bn, fp } from '../../../numbers';
-import { MAX_UINT256, ZERO_ADDRESS } from '../../../constants';
+import { BigNumberish, bn } from '../../../numbers';
+import { ZERO_ADDRESS } from '../../../constants';
+import { currentTimestamp } from '../../../time';
 
-import * as expectEvent from '../../../test/expectEvent';
 import Vault from '../../vault/Vault';
-import Token from '../../tokens/Token';
 import TokenList from '../../tokens/TokenList';
-import TypesConverter from '../../types/TypesConverter';
+import BasePool from '../base/BasePool';
+import { PERMISSIONED_METHODS } from '../../misc/actions';
 import StablePoolDeployer from './StablePoolDeployer';
-import { Account } from '../../types/types';
-import {
-  JoinExitStablePool,
-  InitStablePool,
-  JoinGivenInStablePool,
-  JoinGivenOutStablePool,
-  JoinResult,
-  RawStablePoolDeployment,
-  ExitResult,
-  SingleExitGivenInStablePool,
-  MultiExitGivenInStablePool,
-  ExitGivenOutStablePool,
-  SwapStablePool,
-  ExitQueryResult,
-  JoinQueryResult,
-  PoolQueryResult,
-} from './types';
-import {
-  calculateInvariant,
-  calcBptOutGivenExactTokensIn,
-  calcTokenInGivenExactBptOut,
-  calcTokenOutGivenExactBptIn,
-  calcOutGivenIn,
-  calculateOneTokenSwapFeeAmount,
-  calcInGivenOut,
-} from './math';
+import { AmplificationParameterUpdate, RawStablePoolDeployment, SwapStablePool } from './types';
+import * as math from './math';
+import { simulationMath } from './simulation';
+import { downscaleDown, downscaleUp, upscale, upscaleArray } from '../base/scaling';
 import { encodeExitStablePool, encodeJoinStablePool } from './encoding';
 
 const SWAP_GIVEN = { IN: 0, OUT: 1 };
 
-export default class StablePool {
-  instance: Contract;
-  poolId: string;
-  tokens: TokenList;
-  swapFeePercentage: BigNumberish;
-  amplificationParameter: BigNumberish;
-  vault: Vault;
+export default class StablePool extends BasePool<BigNumberish> {
+  amplificationParameterUpdate: AmplificationParameterUpdate;
 
   static async create(params: RawStablePoolDeployment = {}): Promise<StablePool> {
     return StablePoolDeployer.deploy(params);
@@ -60,170 +32,111 @@ export default class StablePool {
     amplificationParameter: BigNumberish,
     swapFeePercentage: BigNumberish
   ) {
-    this.instance = instance;
-    this.poolId = poolId;
-    this.vault = vault;
-    this.tokens = tokens;
-    this.amplificationParameter = amplificationParameter;
-    this.swapFeePercentage = swapFeePercentage;
+    const encoding = { encodeJoin: encodeJoinStablePool, encodeExit: encodeExitStablePool };
+    super(instance, poolId, vault, tokens, swapFeePercentage, encoding, math, simulationMath);
+    this.amplificationParameterUpdate = fixedAmplificationParameter(amplificationParameter, 0);
   }
 
-  get address(): string {
-    return this.instance.address;
+  protected async getMathParams(): Promise<BigNumberish> {
+    return this.getAmplificationParameter();
   }
 
-  async name(): Promise<string> {
-    return this.instance.name();
+  protected async getCurrentMathParams(): Promise<BigNumberish> {
+    return this.getAmplificationParameter();
   }
 
-  async symbol(): Promise<string> {
-    return this.instance.symbol();
-  }
-
-  async decimals(): Promise<BigNumber> {
-    return this.instance.decimals();
-  }
-
-  async totalSupply(): Promise<BigNumber> {
-    return this.instance.totalSupply();
-  }
-
-  async balanceOf(account: Account): Promise<BigNumber> {
-    return this.instance.balanceOf(TypesConverter.toAddress(account));
-  }
-
-  async getVault(): Promise<string> {
-    return this.instance.getVault();
-  }
-
-  async getRegisteredInfo(): Promise<{ address: string; specialization: BigNumber }> {
-    return this.vault.getPool(this.poolId);
-  }
-
-  async getPoolId(): Promise<string> {
-    return this.instance.getPoolId();
+  protected async getSnapshotLastInvariant(): Promise<{
+    lastInvariant: BigNumber;
+    lastInvariantMathParams: BigNumber;
+  }> {
+    return {
+      lastInvariant: await this.getLastInvariant(),
+      lastInvariantMathParams: await this.getAmplificationParameter(),
+    };
   }
 
+  /**
+   * Stable pools don't expose their last invariant: only the MockStablePool used by standalone deployments does, so
+   * pools created from the factory can't be snapshotted.
+   */
   async getLastInvariant(): Promise<BigNumber> {
     return this.instance.getLastInvariant();
   }
 
-  async getSwapFeePercentage(): Promise<BigNumber> {
-    return this.instance.getSwapFeePercentage();
-  }
-
   async getAmplificationParameter(): Promise<BigNumber> {
     return this.instance.getAmplificationParameter();
   }
 
-  async getTokens(): Promise<{ tokens: string[]; balances: BigNumber[]; lastChangeBlock: BigNumber }> {
-    return this.vault.getPoolTokens(this.poolId);
+  get permissionedMethods(): string[] {
+    return PERMISSIONED_METHODS.StablePool;
   }
 
-  async getBalances(): Promise<BigNumber[]> {
-    const { balances } = await this.getTokens();
-    return balances;
+  /**
+   * The pool's amplification parameter is immutable, so amplification parameter updates are only modeled off-chain.
+   * Estimations, snapshots and simulations use the pool's own value unless they are given an interpolated one.
+   */
+  getAmplificationParameterAt(timestamp: BigNumberish): BigNumber {
+    const { startValue, endValue, startTime, endTime } = this.amplificationParameterUpdate;
+    return math.calculateAmplificationParameter(startValue, endValue, startTime, endTime, timestamp);
   }
 
-  async getTokenInfo(
-    token: Token
-  ): Promise<{ cash: BigNumber; managed: BigNumber; lastChangeBlock: BigNumber; assetManager: string }> {
-    return this.vault.getPoolTokenInfo(this.poolId, token);
+  async getCurrentAmplificationParameter(): Promise<BigNumber> {
+    return this.getAmplificationParameterAt(await currentTimestamp());
   }
 
-  async estimateInvariant(currentBalances?: BigNumberish[]): Promise<BigNumber> {
-    if (!currentBalances) currentBalances = await this.getBalances();
-
-    return calculateInvariant(currentBalances, this.amplificationParameter);
-  }
-
-  async estimateSwapFeeAmount(
-    paidToken: number | Token,
-    protocolFeePercentage: BigNumberish,
-    currentBalances?: BigNumberish[]
-  ): Promise<BigNumber> {
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const lastInvariant = await this.estimateInvariant();
-    const paidTokenIndex = this.tokens.indexOf(paidToken);
-    const feeAmount = calculateOneTokenSwapFeeAmount(
-      currentBalances,
-      this.amplificationParameter,
-      lastInvariant,
-      paidTokenIndex
-    );
+  async startAmpChange(endValue: BigNumberish, endTime: BigNumberish): Promise<void> {
+    const now = await currentTimestamp();
+    if (bn(endTime).lte(now)) throw Error('Amplification parameter update must end in the future');
 
-    return bn(feeAmount).mul(protocolFeePercentage).div(fp(1));
+    const startValue = this.getAmplificationParameterAt(now);
+    this.amplificationParameterUpdate = { startValue, endValue: bn(endValue), startTime: now, endTime: bn(endTime) };
   }
 
-  async estimateGivenIn(params: SwapStablePool, currentBalances?: BigNumberish[]): Promise<BigNumberish> {
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
-
-    return bn(calcOutGivenIn(currentBalances, this.amplificationParameter, tokenIn, tokenOut, params.amount));
+  async stopAmpChange(): Promise<void> {
+    const now = await currentTimestamp();
+    this.amplificationParameterUpdate = fixedAmplificationParameter(this.getAmplificationParameterAt(now), now);
   }
 
-  async estimateGivenOut(params: SwapStablePool, currentBalances?: BigNumberish[]): Promise<BigNumberish> {
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
-
-    return bn(calcInGivenOut(currentBalances, this.amplificationParameter, tokenIn, tokenOut, params.amount));
-  }
-
-  async estimateBptOut(
-    amountsIn: BigNumberish[],
+  async estimateGivenIn(
+    params: SwapStablePool,
     currentBalances?: BigNumberish[],
-    supply?: BigNumberish
+    amplificationParameter?: BigNumberish
   ): Promise<BigNumberish> {
-    if (!supply) supply = await this.totalSupply();
     if (!currentBalances) currentBalances = await this.getBalances();
+    if (!amplificationParameter) amplificationParameter = await this.getAmplificationParameter();
+    const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
+    const scalingFactors = this.scalingFactors;
 
-    return calcBptOutGivenExactTokensIn(
-      currentBalances,
-      this.amplificationParameter,
-      amountsIn,
-      supply,
-      this.swapFeePercentage
+    const amountOut = this.simulationMath.calcOutGivenIn(
+      upscaleArray(currentBalances, scalingFactors),
+      amplificationParameter,
+      tokenIn,
+      tokenOut,
+      upscale(params.amount, scalingFactors[tokenIn])
     );
-  }
-
-  async estimateTokenIn(
-    token: number | Token,
-    bptOut: BigNumberish,
-    currentBalances?: BigNumberish[],
-    supply?: BigNumberish
-  ): Promise<BigNumberish> {
-    if (!supply) supply = await this.totalSupply();
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const tokenIndex = this.tokens.indexOf(token);
 
-    return calcTokenInGivenExactBptOut(
-      tokenIndex,
-      currentBalances,
-      this.amplificationParameter,
-      bptOut,
-      supply,
-      this.swapFeePercentage
-    );
+    return downscaleDown(amountOut, scalingFactors[tokenOut]);
   }
 
-  async estimateTokenOut(
-    token: number | Token,
-    bptIn: BigNumberish,
+  async estimateGivenOut(
+    params: SwapStablePool,
     currentBalances?: BigNumberish[],
-    supply?: BigNumberish
+    amplificationParameter?: BigNumberish
   ): Promise<BigNumberish> {
-    if (!supply) supply = await this.totalSupply();
     if (!currentBalances) currentBalances = await this.getBalances();
-    const tokenIndex = this.tokens.indexOf(token);
+    if (!amplificationParameter) amplificationParameter = await this.getAmplificationParameter();
+    const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
+    const scalingFactors = this.scalingFactors;
 
-    return calcTokenOutGivenExactBptIn(
-      tokenIndex,
-      currentBalances,
-      this.amplificationParameter,
-      bptIn,
-      supply,
-      this.swapFeePercentage
+    const amountIn = this.simulationMath.calcInGivenOut(
+      upscaleArray(currentBalances, scalingFactors),
+      amplificationParameter,
+      tokenIn,
+      tokenOut,
+      upscale(params.amount, scalingFactors[tokenOut])
     );
+
+    return downscaleUp(amountIn, scalingFactors[tokenIn]);
   }
 
   async swapGivenIn(params: SwapStablePool): Promise<BigNumber> {
@@ -269,210 +182,8 @@ export default class StablePool {
       tokenOut
     );
   }
+}
 
-  async init(params: InitStablePool): Promise<JoinResult> {
-    return this.join(this._buildInitParams(params));
-  }
-
-  async joinGivenIn(params: JoinGivenInStablePool): Promise<JoinResult> {
-    return this.join(this._buildJoinGivenInParams(params));
-  }
-
-  async queryJoinGivenIn(params: JoinGivenInStablePool): Promise<JoinQueryResult> {
-    return this.queryJoin(this._buildJoinGivenInParams(params));
-  }
-
-  async joinGivenOut(params: JoinGivenOutStablePool): Promise<JoinResult> {
-    return this.join(this._buildJoinGivenOutParams(params));
-  }
-
-  async queryJoinGivenOut(params: JoinGivenOutStablePool): Promise<JoinQueryResult> {
-    return this.queryJoin(this._buildJoinGivenOutParams(params));
-  }
-
-  async exitGivenOut(params: ExitGivenOutStablePool): Promise<ExitResult> {
-    return this.exit(this._buildExitGivenOutParams(params));
-  }
-
-  async queryExitGivenOut(params: ExitGivenOutStablePool): Promise<ExitQueryResult> {
-    return this.queryExit(this._buildExitGivenOutParams(params));
-  }
-
-  async singleExitGivenIn(params: SingleExitGivenInStablePool): Promise<ExitResult> {
-    return this.exit(this._buildSingleExitGivenInParams(params));
-  }
-
-  async querySingleExitGivenIn(params: SingleExitGivenInStablePool): Promise<ExitQueryResult> {
-    return this.queryExit(this._buildSingleExitGivenInParams(params));
-  }
-
-  async multiExitGivenIn(params: MultiExitGivenInStablePool): Promise<ExitResult> {
-    return this.exit(this._buildMultiExitGivenInParams(params));
-  }
-
-  async queryMultiExitGivenIn(params: MultiExitGivenInStablePool): Promise<ExitQueryResult> {
-    return this.queryExit(this._buildMultiExitGivenInParams(params));
-  }
-
-  async queryJoin(params: JoinExitStablePool): Promise<JoinQueryResult> {
-    const fn = this.instance.queryJoin;
-    return (await this._executeQuery(params, fn)) as JoinQueryResult;
-  }
-
-  async join(params: JoinExitStablePool): Promise<JoinResult> {
-    const currentBalances = params.currentBalances || (await this.getBalances());
-    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
-
-    const tx = this.vault.joinPool({
-      poolAddress: this.address,
-      poolId: this.poolId,
-      recipient: to,
-      currentBalances,
-      tokens: this.tokens.addresses,
-      lastChangeBlock: params.lastChangeBlock ?? 0,
-      protocolFeePercentage: params.protocolFeePercentage ?? 0,
-      data: params.data ?? '0x',
-      from: params.from,
-    });
-
-    const receipt = await (await tx).wait();
-    const { deltas, protocolFees } = expectEvent.inReceipt(receipt, 'PoolBalanceChanged').args;
-    return { amountsIn: deltas, dueProtocolFeeAmounts: protocolFees };
-  }
-
-  async queryExit(params: JoinExitStablePool): Promise<ExitQueryResult> {
-    const fn = this.instance.queryExit;
-    return (await this._executeQuery(params, fn)) as ExitQueryResult;
-  }
-
-  async exit(params: JoinExitStablePool): Promise<ExitResult> {
-    const currentBalances = params.currentBalances || (await this.getBalances());
-    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
-
-    const tx = await this.vault.exitPool({
-      poolAddress: this.address,
-      poolId: this.poolId,
-      recipient: to,
-      currentBalances,
-      tokens: this.tokens.addresses,
-      lastChangeBlock: params.lastChangeBlock ?? 0,
-      protocolFeePercentage: params.protocolFeePercentage ?? 0,
-      data: params.data ?? '0x',
-      from: params.from,
-    });
-
-    const receipt = await (await tx).wait();
-    const { deltas, protocolFees } = expectEvent.inReceipt(receipt, 'PoolBalanceChanged').args;
-    return { amountsOut: deltas.map((x: BigNumber) => x.mul(-1)), dueProtocolFeeAmounts: protocolFees };
-  }
-
-  private async _executeQuery(params: JoinExitStablePool, fn: ContractFunction): Promise<PoolQueryResult> {
-    const currentBalances = params.currentBalances || (await this.getBalances());
-    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
-
-    return fn(
-      this.poolId,
-      params.from?.address || ZERO_ADDRESS,
-      to,
-      currentBalances,
-      params.lastChangeBlock ?? 0,
-      params.protocolFeePercentage ?? 0,
-      params.data ?? '0x'
-    );
-  }
-
-  private _buildInitParams(params: InitStablePool): JoinExitStablePool {
-    const { initialBalances: balances } = params;
-    const amountsIn = Array.isArray(balances) ? balances : Array(this.tokens.length).fill(balances);
-
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeJoinStablePool({
-        kind: 'Init',
-        amountsIn,
-      }),
-    };
-  }
-
-  private _buildJoinGivenInParams(params: JoinGivenInStablePool): JoinExitStablePool {
-    const { amountsIn: amounts } = params;
-    const amountsIn = Array.isArray(amounts) ? amounts : Array(this.tokens.length).fill(amounts);
-
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeJoinStablePool({
-        kind: 'ExactTokensInForBPTOut',
-        amountsIn,
-        minimumBPT: params.minimumBptOut ?? 0,
-      }),
-    };
-  }
-
-  private _buildJoinGivenOutParams(params: JoinGivenOutStablePool): JoinExitStablePool {
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeJoinStablePool({
-        kind: 'TokenInForExactBPTOut',
-        bptAmountOut: params.bptOut,
-        enterTokenIndex: this.tokens.indexOf(params.token),
-      }),
-    };
-  }
-
-  private _buildExitGivenOutParams(params: ExitGivenOutStablePool): JoinExitStablePool {
-    const { amountsOut: amounts } = params;
-    const amountsOut = Array.isArray(amounts) ? amounts : Array(this.tokens.length).fill(amounts);
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeExitStablePool({
-        kind: 'BPTInForExactTokensOut',
-        amountsOut,
-        maxBPTAmountIn: params.maximumBptIn ?? MAX_UINT256,
-      }),
-    };
-  }
-
-  private _buildSingleExitGivenInParams(params: SingleExitGivenInStablePool): JoinExitStablePool {
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeExitStablePool({
-        kind: 'ExactBPTInForOneTokenOut',
-        bptAmountIn: params.bptIn,
-        exitTokenIndex: this.tokens.indexOf(params.token),
-      }),
-    };
-  }
-
-  private _buildMultiExitGivenInParams(params: MultiExitGivenInStablePool): JoinExitStablePool {
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeExitStablePool({
-        kind: 'ExactBPTInForTokensOut',
-        bptAmountIn: params.bptIn,
-      }),
-    };
-  }
-
-  async pause(): Promise<void> {
-    const action = await actionId(this.instance, 'setPaused');
-    await this.vault.grantRole(action);
-    await this.instance.setPaused(true);
-  }
+function fixedAmplificationParameter(value: BigNumberish, since: BigNumberish): AmplificationParameterUpdate {
+  return { startValue: bn(value), endValue: bn(value), startTime: bn(since), endTime: bn(since) };
 }
@@ -15,7 +15,7 @@ const SYMBOL = 'BPT';
 export default {
   async deploy(params: RawStablePoolDeployment): Promise<StablePool> {
     const deployment = TypesConverter.toStablePoolDeployment(params);
-    const vault = await VaultDeployer.deploy(TypesConverter.toRawVaultDeployment(params));
+    const vault = params.vault ?? (await VaultDeployer.deploy(TypesConverter.toRawVaultDeployment(params)));
     const pool = await (params.fromFactory ? this._deployFromFactory : this._deployStandalone)(deployment, vault);
 
     const { tokens, amplificationParameter, swapFeePercentage } = deployment;
@@ -34,7 +34,7 @@ export default {
       from,
     } = params;
 
-    return deploy('v2-pool-stable/StablePool', {
+    return deploy('v2-pool-stable/MockStablePool', {
       args: [
         vault.address,
         NAME,
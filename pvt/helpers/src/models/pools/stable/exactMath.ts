@@ -0,0 +1,279 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from '../../../numbers';
+import {
+  ONE,
+  add,
+  sub,
+  mul,
+  mulDown,
+  mulUp,
+  divDown,
+  divUp,
+  divDownRaw,
+  divUpRaw,
+  complement,
+} from '../../../fixedPoint';
+
+// Bit-exact versions of the functions in `math.ts`, mirroring the rounding of `StableMath.sol`
+
+export function calculateInvariant(fpRawBalances: BigNumberish[], fpAmplificationParameter: BigNumberish): BigNumber {
+  const numTokens = fpRawBalances.length;
+  const sum = fpRawBalances.reduce((a: BigNumber, b) => add(a, b), bn(0));
+  if (sum.isZero()) return bn(0);
+
+  let prevInvariant: BigNumber;
+  let invariant = sum;
+  const ampTimesTotal = mul(fpAmplificationParameter, numTokens);
+
+  for (let i = 0; i < 255; i++) {
+    let P_D = mul(numTokens, fpRawBalances[0]);
+    for (let j = 1; j < numTokens; j++) {
+      P_D = divUpRaw(mul(mul(P_D, fpRawBalances[j]), numTokens), invariant);
+    }
+
+    prevInvariant = invariant;
+    invariant = divUpRaw(
+      add(mul(mul(numTokens, invariant), invariant), mul(mul(ampTimesTotal, sum), P_D)),
+      add(mul(numTokens + 1, invariant), mul(sub(ampTimesTotal, 1), P_D))
+    );
+
+    if (invariant.sub(prevInvariant).abs().lte(1)) break;
+  }
+
+  return invariant;
+}
+
+export function calcOutGivenIn(
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  tokenIndexIn: number,
+  tokenIndexOut: number,
+  fpTokenAmountIn: BigNumberish
+): BigNumber {
+  const invariant = calculateInvariant(fpBalances, fpAmplificationParameter);
+
+  const balances = fpBalances.map(bn);
+  balances[tokenIndexIn] = add(balances[tokenIndexIn], fpTokenAmountIn);
+
+  const finalBalanceOut = _getTokenBalanceGivenInvariantAndAllOtherBalances(
+    balances,
+    fpAmplificationParameter,
+    invariant,
+    tokenIndexOut
+  );
+
+  return sub(sub(balances[tokenIndexOut], finalBalanceOut), 1);
+}
+
+export function calcInGivenOut(
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  tokenIndexIn: number,
+  tokenIndexOut: number,
+  fpTokenAmountOut: BigNumberish
+): BigNumber {
+  const invariant = calculateInvariant(fpBalances, fpAmplificationParameter);
+
+  const balances = fpBalances.map(bn);
+  balances[tokenIndexOut] = sub(balances[tokenIndexOut], fpTokenAmountOut);
+
+  const finalBalanceIn = _getTokenBalanceGivenInvariantAndAllOtherBalances(
+    balances,
+    fpAmplificationParameter,
+    invariant,
+    tokenIndexIn
+  );
+
+  return add(sub(finalBalanceIn, balances[tokenIndexIn]), 1);
+}
+
+export function calcBptOutGivenExactTokensIn(
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  fpAmountsIn: BigNumberish[],
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const currentInvariant = calculateInvariant(fpBalances, fpAmplificationParameter);
+  const sumBalances = fpBalances.reduce((a: BigNumber, b) => add(a, b), bn(0));
+
+  const tokenBalanceRatiosWithoutFee: BigNumber[] = [];
+  let weightedBalanceRatio = bn(0);
+  for (let i = 0; i < fpBalances.length; i++) {
+    const currentWeight = divDown(fpBalances[i], sumBalances);
+    tokenBalanceRatiosWithoutFee[i] = divDown(add(fpBalances[i], fpAmountsIn[i]), fpBalances[i]);
+    weightedBalanceRatio = add(weightedBalanceRatio, mulDown(tokenBalanceRatiosWithoutFee[i], currentWeight));
+  }
+
+  const newBalances: BigNumber[] = [];
+  for (let i = 0; i < fpBalances.length; i++) {
+    const tokenBalancePercentageExcess = weightedBalanceRatio.gte(tokenBalanceRatiosWithoutFee[i])
+      ? bn(0)
+      : divUp(sub(tokenBalanceRatiosWithoutFee[i], weightedBalanceRatio), sub(tokenBalanceRatiosWithoutFee[i], ONE));
+
+    const swapFeeExcess = mulUp(fpSwapFeePercentage, tokenBalancePercentageExcess);
+    const amountInAfterFee = mulDown(fpAmountsIn[i], complement(swapFeeExcess));
+    newBalances[i] = add(fpBalances[i], amountInAfterFee);
+  }
+
+  const newInvariant = calculateInvariant(newBalances, fpAmplificationParameter);
+  return mulDown(fpBptTotalSupply, sub(divDown(newInvariant, currentInvariant), ONE));
+}
+
+export function calcTokenInGivenExactBptOut(
+  tokenIndex: number,
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  fpBptAmountOut: BigNumberish,
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const currentInvariant = calculateInvariant(fpBalances, fpAmplificationParameter);
+  const newInvariant = mulUp(divUp(add(fpBptTotalSupply, fpBptAmountOut), fpBptTotalSupply), currentInvariant);
+  const sumBalances = fpBalances.reduce((a: BigNumber, b) => add(a, b), bn(0));
+
+  const newBalanceTokenIndex = _getTokenBalanceGivenInvariantAndAllOtherBalances(
+    fpBalances,
+    fpAmplificationParameter,
+    newInvariant,
+    tokenIndex
+  );
+  const amountInAfterFee = sub(newBalanceTokenIndex, fpBalances[tokenIndex]);
+
+  const currentWeight = divDown(fpBalances[tokenIndex], sumBalances);
+  const tokenBalancePercentageExcess = complement(currentWeight);
+  const swapFeeExcess = mulUp(fpSwapFeePercentage, tokenBalancePercentageExcess);
+
+  return divUp(amountInAfterFee, complement(swapFeeExcess));
+}
+
+export function calcBptInGivenExactTokensOut(
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  fpAmountsOut: BigNumberish[],
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const currentInvariant = calculateInvariant(fpBalances, fpAmplificationParameter);
+  const sumBalances = fpBalances.reduce((a: BigNumber, b) => add(a, b), bn(0));
+
+  const tokenBalanceRatiosWithoutFee: BigNumber[] = [];
+  let weightedBalanceRatio = bn(0);
+  for (let i = 0; i < fpBalances.length; i++) {
+    const currentWeight = divUp(fpBalances[i], sumBalances);
+    tokenBalanceRatiosWithoutFee[i] = divUp(sub(fpBalances[i], fpAmountsOut[i]), fpBalances[i]);
+    weightedBalanceRatio = add(weightedBalanceRatio, mulUp(tokenBalanceRatiosWithoutFee[i], currentWeight));
+  }
+
+  const newBalances: BigNumber[] = [];
+  for (let i = 0; i < fpBalances.length; i++) {
+    const tokenBalancePercentageExcess = weightedBalanceRatio.lte(tokenBalanceRatiosWithoutFee[i])
+      ? bn(0)
+      : divUp(sub(weightedBalanceRatio, tokenBalanceRatiosWithoutFee[i]), complement(tokenBalanceRatiosWithoutFee[i]));
+
+    const swapFeeExcess = mulUp(fpSwapFeePercentage, tokenBalancePercentageExcess);
+    const amountOutBeforeFee = divUp(fpAmountsOut[i], complement(swapFeeExcess));
+    newBalances[i] = sub(fpBalances[i], amountOutBeforeFee);
+  }
+
+  const newInvariant = calculateInvariant(newBalances, fpAmplificationParameter);
+  return mulUp(fpBptTotalSupply, complement(divUp(newInvariant, currentInvariant)));
+}
+
+export function calcTokenOutGivenExactBptIn(
+  tokenIndex: number,
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  fpBptAmountIn: BigNumberish,
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const currentInvariant = calculateInvariant(fpBalances, fpAmplificationParameter);
+  const newInvariant = mulUp(divUp(sub(fpBptTotalSupply, fpBptAmountIn), fpBptTotalSupply), currentInvariant);
+  const sumBalances = fpBalances.reduce((a: BigNumber, b) => add(a, b), bn(0));
+
+  const newBalanceTokenIndex = _getTokenBalanceGivenInvariantAndAllOtherBalances(
+    fpBalances,
+    fpAmplificationParameter,
+    newInvariant,
+    tokenIndex
+  );
+  const amountOutBeforeFee = sub(fpBalances[tokenIndex], newBalanceTokenIndex);
+
+  const currentWeight = divDown(fpBalances[tokenIndex], sumBalances);
+  const tokenBalancePercentageExcess = complement(currentWeight);
+  const swapFeeExcess = mulUp(fpSwapFeePercentage, tokenBalancePercentageExcess);
+
+  return mulDown(amountOutBeforeFee, complement(swapFeeExcess));
+}
+
+export function calcTokensOutGivenExactBptIn(
+  fpBalances: BigNumberish[],
+  fpBptAmountIn: BigNumberish,
+  fpBptTotalSupply: BigNumberish
+): BigNumber[] {
+  const bptRatio = divDown(fpBptAmountIn, fpBptTotalSupply);
+  return fpBalances.map((balance) => mulDown(balance, bptRatio));
+}
+
+export function calculateOneTokenSwapFeeAmount(
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  lastInvariant: BigNumberish,
+  tokenIndex: number
+): BigNumber {
+  return calcDueTokenProtocolSwapFeeAmount(fpBalances, fpAmplificationParameter, lastInvariant, tokenIndex, ONE);
+}
+
+export function calcDueTokenProtocolSwapFeeAmount(
+  fpBalances: BigNumberish[],
+  fpAmplificationParameter: BigNumberish,
+  lastInvariant: BigNumberish,
+  tokenIndex: number,
+  fpProtocolSwapFeePercentage: BigNumberish
+): BigNumber {
+  const finalBalanceFeeToken = _getTokenBalanceGivenInvariantAndAllOtherBalances(
+    fpBalances,
+    fpAmplificationParameter,
+    lastInvariant,
+    tokenIndex
+  );
+
+  const balance = bn(fpBalances[tokenIndex]);
+  const accumulatedTokenSwapFees = balance.gt(finalBalanceFeeToken) ? sub(balance, finalBalanceFeeToken) : bn(0);
+  return divDown(mulDown(accumulatedTokenSwapFees, fpProtocolSwapFeePercentage), ONE);
+}
+
+function _getTokenBalanceGivenInvariantAndAllOtherBalances(
+  balances: BigNumberish[],
+  amplificationParameter: BigNumberish,
+  invariant: BigNumberish,
+  tokenIndex: number
+): BigNumber {
+  const ampTimesTotal = mul(amplificationParameter, balances.length);
+  let sum = bn(balances[0]);
+  let P_D = mul(balances.length, balances[0]);
+  for (let j = 1; j < balances.length; j++) {
+    P_D = divDownRaw(mul(mul(P_D, balances[j]), balances.length), invariant);
+    sum = add(sum, balances[j]);
+  }
+  sum = sub(sum, balances[tokenIndex]);
+
+  let c = divUpRaw(mul(invariant, invariant), ampTimesTotal);
+  c = divUp(mulUp(c, balances[tokenIndex]), P_D);
+
+  const b = add(sum, divDown(invariant, ampTimesTotal));
+
+  let prevTokenBalance: BigNumber;
+  let tokenBalance = divUp(add(mulUp(invariant, invariant), c), add(invariant, b));
+
+  for (let i = 0; i < 255; i++) {
+    prevTokenBalance = tokenBalance;
+    tokenBalance = divUp(add(mulUp(tokenBalance, tokenBalance), c), sub(add(mul(tokenBalance, 2), b), invariant));
+
+    if (tokenBalance.sub(prevTokenBalance).abs().lte(1)) break;
+  }
+
+  return tokenBalance;
+}
@@ -3,6 +3,8 @@ import { BigNumber } from 'ethers';
 
 import { BigNumberish, decimal, bn, fp, fromFp, toFp } from '../../../numbers';
 
+export * as exact from './exactMath';
+
 export function calculateInvariant(fpRawBalances: BigNumberish[], fpAmplificationParameter: BigNumberish): BigNumber {
   const totalCoins = fpRawBalances.length;
   const sum = fpRawBalances.reduce((a, b) => a.add(b.toString()), decimal(0));
@@ -29,7 +31,9 @@ export function calculateInvariant(fpRawBalances: BigNumberish[], fpAmplificatio
       .div(decimal(totalCoins).add(1).mul(inv).add(ampTimesTotal.sub(1).mul(P_D)));
     // Equality with the precision of 1
 
-    if (inv > prevInv) {
+    // Decimals must be compared with their own methods: relational operators compare their string representations,
+    // which don't sort by magnitude once they have different lengths or exponents
+    if (inv.gt(prevInv)) {
       if (inv.sub(prevInv).lte(1)) {
         break;
       }
@@ -41,6 +45,23 @@ export function calculateInvariant(fpRawBalances: BigNumberish[], fpAmplificatio
   return bn(inv);
 }
 
+export function calculateAmplificationParameter(
+  fpStartValue: BigNumberish,
+  fpEndValue: BigNumberish,
+  startTime: BigNumberish,
+  endTime: BigNumberish,
+  timestamp: BigNumberish
+): BigNumber {
+  if (bn(timestamp).gte(endTime)) return bn(fpEndValue);
+  if (bn(timestamp).lte(startTime)) return bn(fpStartValue);
+
+  // The value is linearly interpolated between the start and end values, rounding towards the start value
+  const elapsed = bn(timestamp).sub(startTime);
+  const duration = bn(endTime).sub(startTime);
+  const delta = bn(fpEndValue).sub(fpStartValue).abs().mul(elapsed).div(duration);
+  return bn(fpEndValue).gt(fpStartValue) ? bn(fpStartValue).add(delta) : bn(fpStartValue).sub(delta);
+}
+
 export function calculateAnalyticalInvariantForTwoTokens(
   fpRawBalances: BigNumberish[],
   fpAmplificationParameter: BigNumberish
@@ -380,7 +401,7 @@ function _getTokenBalanceGivenInvariantAndAllOtherBalances(
     prevTokenBalance = tokenBalance;
     tokenBalance = tokenBalance.mul(tokenBalance).add(c).div(tokenBalance.mul(2).add(b).sub(invariant));
 
-    if (tokenBalance > prevTokenBalance) {
+    if (tokenBalance.gt(prevTokenBalance)) {
       if (tokenBalance.sub(prevTokenBalance).lessThanOrEqualTo(1e-18)) {
         break;
       }
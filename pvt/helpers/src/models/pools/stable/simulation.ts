@@ -0,0 +1,43 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from '../../../numbers';
+
+import { PoolSimulationMath } from '../base/types';
+import * as exact from './exactMath';
+
+// Simulation math of stable pools, where the protocol swap fees are always paid in the token with the largest balance
+
+export const simulationMath: PoolSimulationMath<BigNumberish> = {
+  calculateInvariant: exact.calculateInvariant,
+  calcOutGivenIn: exact.calcOutGivenIn,
+  calcInGivenOut: exact.calcInGivenOut,
+  calcBptOutGivenExactTokensIn: exact.calcBptOutGivenExactTokensIn,
+  calcTokenInGivenExactBptOut: exact.calcTokenInGivenExactBptOut,
+  calcBptInGivenExactTokensOut: exact.calcBptInGivenExactTokensOut,
+  calcTokenOutGivenExactBptIn: exact.calcTokenOutGivenExactBptIn,
+  calcTokensOutGivenExactBptIn: exact.calcTokensOutGivenExactBptIn,
+
+  calcInitialBptOut(invariant: BigNumber): BigNumber {
+    return invariant;
+  },
+
+  calcDueProtocolFeeAmounts(fpBalances, fpLastInvariantAmp, lastInvariant, fpProtocolSwapFeePercentage): BigNumber[] {
+    const dueProtocolFeeAmounts = fpBalances.map(() => bn(0));
+    if (bn(fpProtocolSwapFeePercentage).isZero()) return dueProtocolFeeAmounts;
+
+    const index = maxBalanceTokenIndex(fpBalances);
+    dueProtocolFeeAmounts[index] = exact.calcDueTokenProtocolSwapFeeAmount(
+      fpBalances,
+      fpLastInvariantAmp,
+      lastInvariant,
+      index,
+      fpProtocolSwapFeePercentage
+    );
+    return dueProtocolFeeAmounts;
+  },
+};
+
+// Ties are resolved in favor of the first token, as the pools do
+export function maxBalanceTokenIndex(fpBalances: BigNumberish[]): number {
+  return fpBalances.reduce((maxIndex: number, balance, i) => (bn(balance).gt(fpBalances[maxIndex]) ? i : maxIndex), 0);
+}
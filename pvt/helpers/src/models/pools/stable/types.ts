@@ -3,9 +3,21 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-wit
 
 import { BigNumberish } from '../../../numbers';
 
-import Token from '../../tokens/Token';
+import Vault from '../../vault/Vault';
 import TokenList from '../../tokens/TokenList';
-import { Account, NAry } from '../../types/types';
+import { Account } from '../../types/types';
+import {
+  SwapPool,
+  JoinExitPool,
+  InitPool,
+  JoinGivenInPool,
+  JoinGivenOutPool,
+  ExitGivenOutPool,
+  SingleExitGivenInPool,
+  MultiExitGivenInPool,
+} from '../base/types';
+
+export { JoinResult, ExitResult, JoinQueryResult, ExitQueryResult, PoolQueryResult } from '../base/types';
 
 export type RawStablePoolDeployment = {
   tokens?: TokenList;
@@ -17,6 +29,7 @@ export type RawStablePoolDeployment = {
   admin?: SignerWithAddress;
   from?: SignerWithAddress;
   fromFactory?: boolean;
+  vault?: Vault;
 };
 
 export type StablePoolDeployment = {
@@ -30,94 +43,18 @@ export type StablePoolDeployment = {
   from?: SignerWithAddress;
 };
 
-export type SwapStablePool = {
-  in: number | Token;
-  out: number | Token;
-  amount: BigNumberish;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  lastChangeBlock?: BigNumberish;
-  data?: string;
-};
-
-export type JoinExitStablePool = {
-  recipient?: Account;
-  currentBalances?: BigNumberish[];
-  lastChangeBlock?: BigNumberish;
-  protocolFeePercentage?: BigNumberish;
-  data?: string;
-  from?: SignerWithAddress;
-};
-
-export type InitStablePool = {
-  initialBalances: NAry<BigNumberish>;
-  from?: SignerWithAddress;
-  recipient?: Account;
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type JoinGivenInStablePool = {
-  amountsIn: NAry<BigNumberish>;
-  minimumBptOut?: BigNumberish;
-  from?: SignerWithAddress;
-  recipient?: Account;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type JoinGivenOutStablePool = {
-  token: number | Token;
-  bptOut: BigNumberish;
-  from?: SignerWithAddress;
-  recipient?: Account;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type ExitGivenOutStablePool = {
-  amountsOut: NAry<BigNumberish>;
-  maximumBptIn?: BigNumberish;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type SingleExitGivenInStablePool = {
-  bptIn: BigNumberish;
-  token: number | Token;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type MultiExitGivenInStablePool = {
-  bptIn: BigNumberish;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type JoinResult = {
-  amountsIn: BigNumber[];
-  dueProtocolFeeAmounts: BigNumber[];
-};
-
-export type ExitResult = {
-  amountsOut: BigNumber[];
-  dueProtocolFeeAmounts: BigNumber[];
-};
-
-export type JoinQueryResult = {
-  bptOut: BigNumber;
-  amountsIn: BigNumber[];
-};
-
-export type ExitQueryResult = {
-  bptIn: BigNumber;
-  amountsOut: BigNumber[];
+export type AmplificationParameterUpdate = {
+  startValue: BigNumber;
+  endValue: BigNumber;
+  startTime: BigNumber;
+  endTime: BigNumber;
 };
 
-export type PoolQueryResult = JoinQueryResult | ExitQueryResult;
+export type SwapStablePool = SwapPool;
+export type JoinExitStablePool = JoinExitPool;
+export type InitStablePool = InitPool;
+export type JoinGivenInStablePool = JoinGivenInPool;
+export type JoinGivenOutStablePool = JoinGivenOutPool;
+export type ExitGivenOutStablePool = ExitGivenOutPool;
+export type SingleExitGivenInStablePool = SingleExitGivenInPool;
+export type MultiExitGivenInStablePool = MultiExitGivenInPool;
@@ -0,0 +1,226 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from '../../../numbers';
+import { MINUTE } from '../../../time';
+import { divUp } from '../../../fixedPoint';
+import { fromLowResLog, toLowResLog } from '../../../logExpMath';
+import { OracleAccumulatorQuery, OracleAverageQuery, OraclePriceData, Sample } from './types';
+
+export const ORACLE_BUFFER_SIZE = 1024;
+export const ORACLE_MAX_SAMPLE_DURATION = 2 * MINUTE;
+
+export enum OracleVariable {
+  PAIR_PRICE,
+  BPT_PRICE,
+  INVARIANT,
+}
+
+/**
+ * Off-chain model of the price oracle of two token weighted pools, mirroring `PoolPriceOracle`, `Buffer` and `Samples`.
+ *
+ * Samples hold the same low resolution logarithms the pool stores, which `calcPriceData` computes off-chain. Like the
+ * pool, latest values and averages are decoded while accumulators are not. Since the model has no notion of time,
+ * every update and query takes the timestamp of the block it would be executed in.
+ */
+export default class PoolPriceOracle {
+  samples: Sample[];
+  index: number;
+  sampleCreationTimestamp: BigNumber;
+
+  static emptySample(): Sample {
+    return {
+      logPairPrice: bn(0),
+      accLogPairPrice: bn(0),
+      logBptPrice: bn(0),
+      accLogBptPrice: bn(0),
+      logInvariant: bn(0),
+      accLogInvariant: bn(0),
+      timestamp: bn(0),
+    };
+  }
+
+  constructor(index = 0, sampleCreationTimestamp: BigNumberish = 0) {
+    this.samples = Array.from({ length: ORACLE_BUFFER_SIZE }, () => PoolPriceOracle.emptySample());
+    this.index = index;
+    this.sampleCreationTimestamp = bn(sampleCreationTimestamp);
+  }
+
+  getTotalSamples(): number {
+    return ORACLE_BUFFER_SIZE;
+  }
+
+  getSample(index: number = this.index): Sample {
+    if (index >= ORACLE_BUFFER_SIZE) throw Error('ORACLE_INVALID_INDEX');
+    return this.samples[index];
+  }
+
+  /**
+   * Replays a pool oracle update with the pre-action price data, updating the latest sample or creating a new one.
+   * Pools only update their oracle when it is enabled and the balances did not change in the same block.
+   * Returns the index of the latest sample.
+   */
+  processPriceData(data: OraclePriceData, timestamp: BigNumberish): number {
+    const sample = this._update(this.samples[this.index], data, bn(timestamp));
+
+    if (bn(timestamp).sub(this.sampleCreationTimestamp).gte(ORACLE_MAX_SAMPLE_DURATION)) {
+      this.index = next(this.index);
+      this.sampleCreationTimestamp = bn(timestamp);
+    }
+
+    this.samples[this.index] = sample;
+    return this.index;
+  }
+
+  getLatest(variable: OracleVariable): BigNumber {
+    const sample = this.samples[this.index];
+    if (sample.timestamp.isZero()) throw Error('ORACLE_NOT_INITIALIZED');
+    return fromLowResLog(instant(sample, variable));
+  }
+
+  getTimeWeightedAverage(queries: OracleAverageQuery[], now: BigNumberish): BigNumber[] {
+    return queries.map(({ variable, secs, ago }) => {
+      if (bn(secs).isZero()) throw Error('ORACLE_BAD_SECS');
+
+      const beginAccumulator = this.getPastAccumulator(variable, bn(ago).add(secs), now);
+      const endAccumulator = this.getPastAccumulator(variable, ago, now);
+      return fromLowResLog(endAccumulator.sub(beginAccumulator).div(secs));
+    });
+  }
+
+  getPastAccumulators(queries: OracleAccumulatorQuery[], now: BigNumberish): BigNumber[] {
+    return queries.map(({ variable, ago }) => this.getPastAccumulator(variable, ago, now));
+  }
+
+  getPastAccumulator(variable: OracleVariable, ago: BigNumberish, now: BigNumberish): BigNumber {
+    if (bn(now).lt(ago)) throw Error('ORACLE_INVALID_SECONDS_QUERY');
+    const lookUpTime = bn(now).sub(ago);
+
+    const latestSample = this.samples[this.index];
+    if (latestSample.timestamp.isZero()) throw Error('ORACLE_NOT_INITIALIZED');
+
+    if (latestSample.timestamp.lte(lookUpTime)) {
+      // Future accumulators are extrapolated assuming the instant value did not change since the latest sample
+      const elapsed = lookUpTime.sub(latestSample.timestamp);
+      return accumulator(latestSample, variable).add(instant(latestSample, variable).mul(elapsed));
+    }
+
+    // Past queries are only performed once the buffer has been fully initialized
+    const oldestIndex = next(this.index);
+    const oldestSample = this.samples[oldestIndex];
+    if (oldestSample.timestamp.isZero()) throw Error('ORACLE_NOT_INITIALIZED');
+    if (oldestSample.timestamp.gt(lookUpTime)) throw Error('ORACLE_QUERY_TOO_OLD');
+
+    const { prev, next: nextSample } = this.findNearestSample(lookUpTime, oldestIndex);
+    const samplesTimeDiff = nextSample.timestamp.sub(prev.timestamp);
+    if (samplesTimeDiff.isZero()) return accumulator(prev, variable);
+
+    // The accumulator is linearly interpolated between the nearest samples
+    const samplesAccDiff = accumulator(nextSample, variable).sub(accumulator(prev, variable));
+    const elapsed = lookUpTime.sub(prev.timestamp);
+    return accumulator(prev, variable).add(samplesAccDiff.mul(elapsed).div(samplesTimeDiff));
+  }
+
+  /**
+   * Performs the same binary search over the buffer the pool does, where `offset` is the index of the oldest sample.
+   * If a sample matches `lookUpDate` exactly it is returned as both `prev` and `next`.
+   */
+  findNearestSample(lookUpDate: BigNumberish, offset: number): { prev: Sample; next: Sample } {
+    let low = 0;
+    let high = ORACLE_BUFFER_SIZE - 1;
+    let mid = 0;
+    let sample = PoolPriceOracle.emptySample();
+
+    while (low <= high) {
+      const midWithoutOffset = Math.floor((high + low) / 2);
+      mid = (midWithoutOffset + offset) % ORACLE_BUFFER_SIZE;
+      sample = this.samples[mid];
+
+      if (sample.timestamp.lt(lookUpDate)) low = midWithoutOffset + 1;
+      else if (sample.timestamp.gt(lookUpDate)) high = midWithoutOffset - 1;
+      else return { prev: sample, next: sample };
+    }
+
+    return sample.timestamp.lt(lookUpDate)
+      ? { prev: sample, next: this.samples[next(mid)] }
+      : { prev: this.samples[prev(mid)], next: sample };
+  }
+
+  private _update(sample: Sample, data: OraclePriceData, timestamp: BigNumber): Sample {
+    const elapsed = timestamp.sub(sample.timestamp);
+    const [logPairPrice, logBptPrice, logInvariant] = [data.logPairPrice, data.logBptPrice, data.logInvariant].map(bn);
+
+    return {
+      logPairPrice,
+      accLogPairPrice: sample.accLogPairPrice.add(logPairPrice.mul(elapsed)),
+      logBptPrice,
+      accLogBptPrice: sample.accLogBptPrice.add(logBptPrice.mul(elapsed)),
+      logInvariant,
+      accLogInvariant: sample.accLogInvariant.add(logInvariant.mul(elapsed)),
+      timestamp,
+    };
+  }
+}
+
+/**
+ * Computes the price data a two token weighted pool feeds its oracle, as `WeightedPool2Tokens._updateOracle`. Balances
+ * must be upscaled, and `logTotalSupply` and `logInvariant` are the ones cached in the pool's misc data.
+ */
+export function calcPriceData(
+  normalizedWeights: BigNumberish[],
+  balances: BigNumberish[],
+  logTotalSupply: BigNumberish,
+  logInvariant: BigNumberish
+): OraclePriceData {
+  const [weight0, weight1] = normalizedWeights;
+  const [balance0, balance1] = balances;
+
+  return {
+    logPairPrice: calcLogSpotPrice(weight0, balance0, weight1, balance1),
+    logBptPrice: calcLogBptPrice(weight0, balance0, logTotalSupply),
+    logInvariant: bn(logInvariant),
+  };
+}
+
+/**
+ * Logarithm of the spot price of token B in token A, as `WeightedOracleMath._calcLogSpotPrice`.
+ */
+export function calcLogSpotPrice(
+  normalizedWeightA: BigNumberish,
+  balanceA: BigNumberish,
+  normalizedWeightB: BigNumberish,
+  balanceB: BigNumberish
+): BigNumber {
+  const spotPrice = divUp(divUp(balanceA, normalizedWeightA), divUp(balanceB, normalizedWeightB));
+  return toLowResLog(spotPrice);
+}
+
+/**
+ * Logarithm of the price of BPT in a token, as `WeightedOracleMath._calcLogBPTPrice`.
+ */
+export function calcLogBptPrice(
+  normalizedWeight: BigNumberish,
+  balance: BigNumberish,
+  logBptTotalSupply: BigNumberish
+): BigNumber {
+  return toLowResLog(divUp(balance, normalizedWeight)).sub(logBptTotalSupply);
+}
+
+function next(index: number): number {
+  return (index + 1) % ORACLE_BUFFER_SIZE;
+}
+
+function prev(index: number): number {
+  return (index + ORACLE_BUFFER_SIZE - 1) % ORACLE_BUFFER_SIZE;
+}
+
+function instant(sample: Sample, variable: OracleVariable): BigNumber {
+  if (variable == OracleVariable.PAIR_PRICE) return sample.logPairPrice;
+  else if (variable == OracleVariable.BPT_PRICE) return sample.logBptPrice;
+  else return sample.logInvariant;
+}
+
+function accumulator(sample: Sample, variable: OracleVariable): BigNumber {
+  if (variable == OracleVariable.PAIR_PRICE) return sample.accLogPairPrice;
+  else if (variable == OracleVariable.BPT_PRICE) return sample.accLogBptPrice;
+  else return sample.accLogInvariant;
+}
@@ -1,47 +1,31 @@
-import { BigNumber, Contract, ContractFunction } from 'ethers';
+import { BigNumber, Contract, ContractTransaction } from 'ethers';
 
-import { actionId } from '../../../models/misc/actions';
 import { BigNumberish, bn, fp } from '../../../numbers';
-import { MAX_UINT256, ZERO_ADDRESS } from '../../../constants';
+import { ZERO_ADDRESS } from '../../../constants';
+import { fromLowResLog } from '../../../logExpMath';
 
 import * as expectEvent from '../../../test/expectEvent';
 import Vault from '../../vault/Vault';
 import { Swap } from '../../vault/types';
 import Token from '../../tokens/Token';
 import TokenList from '../../tokens/TokenList';
-import TypesConverter from '../../types/TypesConverter';
+import BasePool from '../base/BasePool';
+import { PERMISSIONED_METHODS } from '../../misc/actions';
 import WeightedPoolDeployer from './WeightedPoolDeployer';
-import { Account, TxParams } from '../../types/types';
+import { PoolAdminAction } from '../base/types';
 import {
-  JoinExitWeightedPool,
-  InitWeightedPool,
-  JoinGivenInWeightedPool,
-  JoinGivenOutWeightedPool,
-  JoinResult,
   RawWeightedPoolDeployment,
-  ExitResult,
-  SingleExitGivenInWeightedPool,
-  MultiExitGivenInWeightedPool,
-  ExitGivenOutWeightedPool,
   SwapWeightedPool,
-  ExitQueryResult,
-  JoinQueryResult,
-  PoolQueryResult,
   MiscData,
   Sample,
+  OracleAverageQuery,
+  OracleAccumulatorQuery,
+  OraclePriceData,
 } from './types';
-import {
-  calculateInvariant,
-  calcBptOutGivenExactTokensIn,
-  calcTokenInGivenExactBptOut,
-  calcTokenOutGivenExactBptIn,
-  calcOutGivenIn,
-  calculateOneTokenSwapFeeAmount,
-  calcInGivenOut,
-  calculateMaxOneTokenSwapFeeAmount,
-  calculateSpotPrice,
-  calculateBPTPrice,
-} from './math';
+import { OracleVariable, calcPriceData } from './PoolPriceOracle';
+import * as math from './math';
+import { simulationMath } from './simulation';
+import { downscaleDown, downscaleUp, upscale, upscaleArray } from '../base/scaling';
 import { encodeExitWeightedPool, encodeJoinWeightedPool } from './encoding';
 
 const SWAP_GIVEN = { IN: 0, OUT: 1 };
@@ -50,13 +34,8 @@ const MAX_OUT_RATIO = fp(0.3);
 const MAX_INVARIANT_RATIO = fp(3);
 const MIN_INVARIANT_RATIO = fp(0.7);
 
-export default class WeightedPool {
-  instance: Contract;
-  poolId: string;
-  tokens: TokenList;
+export default class WeightedPool extends BasePool<BigNumberish[]> {
   weights: BigNumberish[];
-  swapFeePercentage: BigNumberish;
-  vault: Vault;
   twoTokens: boolean;
 
   static async create(params: RawWeightedPoolDeployment = {}): Promise<WeightedPool> {
@@ -72,61 +51,37 @@ export default class WeightedPool {
     swapFeePercentage: BigNumberish,
     twoTokens: boolean
   ) {
-    this.instance = instance;
-    this.poolId = poolId;
-    this.vault = vault;
-    this.tokens = tokens;
+    const encoding = { encodeJoin: encodeJoinWeightedPool, encodeExit: encodeExitWeightedPool };
+    super(instance, poolId, vault, tokens, swapFeePercentage, encoding, math, simulationMath);
     this.weights = weights;
-    this.swapFeePercentage = swapFeePercentage;
     this.twoTokens = twoTokens;
   }
 
-  get address(): string {
-    return this.instance.address;
-  }
-
-  get maxWeight(): BigNumberish {
-    return this.weights.reduce((max, weight) => (bn(weight).gt(max) ? weight : max), bn(0));
-  }
-
-  get normalizedWeights(): BigNumberish[] {
+  protected async getMathParams(): Promise<BigNumberish[]> {
     return this.weights;
   }
 
-  async name(): Promise<string> {
-    return this.instance.name();
-  }
-
-  async symbol(): Promise<string> {
-    return this.instance.symbol();
-  }
-
-  async decimals(): Promise<BigNumber> {
-    return this.instance.decimals();
-  }
-
-  async totalSupply(): Promise<BigNumber> {
-    return this.instance.totalSupply();
+  protected async getCurrentMathParams(): Promise<BigNumberish[]> {
+    return this.getNormalizedWeights();
   }
 
-  async balanceOf(account: Account): Promise<BigNumber> {
-    return this.instance.balanceOf(TypesConverter.toAddress(account));
+  protected async getSnapshotLastInvariant(): Promise<{
+    lastInvariant: BigNumber;
+    lastInvariantMathParams: BigNumber[];
+  }> {
+    return { lastInvariant: await this.getLastInvariant(), lastInvariantMathParams: await this.getNormalizedWeights() };
   }
 
-  async getVault(): Promise<string> {
-    return this.instance.getVault();
-  }
-
-  async getRegisteredInfo(): Promise<{ address: string; specialization: BigNumber }> {
-    return this.vault.getPool(this.poolId);
+  get maxWeight(): BigNumberish {
+    return this.weights.reduce((max, weight) => (bn(weight).gt(max) ? weight : max), bn(0));
   }
 
-  async getPoolId(): Promise<string> {
-    return this.instance.getPoolId();
+  get normalizedWeights(): BigNumberish[] {
+    return this.weights;
   }
 
-  async getLastInvariant(): Promise<BigNumber> {
-    return this.instance.getLastInvariant();
+  get permissionedMethods(): string[] {
+    return PERMISSIONED_METHODS[this.twoTokens ? 'WeightedPool2Tokens' : 'WeightedPool'];
   }
 
   async getMaxInvariantDecrease(): Promise<BigNumber> {
@@ -159,37 +114,69 @@ export default class WeightedPool {
     return this.instance.getMiscData();
   }
 
+  /**
+   * Invariant cached in the misc data at the last join or exit, decoded from its low resolution logarithm.
+   */
+  async getCachedInvariant(): Promise<BigNumber> {
+    return fromLowResLog((await this.getMiscData()).logInvariant);
+  }
+
+  /**
+   * Total supply cached in the misc data at the last join or exit, decoded from its low resolution logarithm.
+   */
+  async getCachedTotalSupply(): Promise<BigNumber> {
+    return fromLowResLog((await this.getMiscData()).logTotalSupply);
+  }
+
   async getOracleSample(oracleIndex?: BigNumberish): Promise<Sample> {
     if (!oracleIndex) oracleIndex = (await this.getMiscData()).oracleIndex;
     return this.instance.getSample(oracleIndex);
   }
 
-  async getSwapFeePercentage(): Promise<BigNumber> {
-    return this.instance.getSwapFeePercentage();
+  async getLargestSafeQueryWindow(): Promise<BigNumber> {
+    if (!this.twoTokens) throw Error('Cannot query oracle for non-2-tokens weighted pool');
+    return this.instance.getLargestSafeQueryWindow();
   }
 
-  async getNormalizedWeights(): Promise<BigNumber[]> {
-    return this.instance.getNormalizedWeights();
+  async getLatest(variable: OracleVariable): Promise<BigNumber> {
+    if (!this.twoTokens) throw Error('Cannot query oracle for non-2-tokens weighted pool');
+    return this.instance.getLatest(variable);
   }
 
-  async getTokens(): Promise<{ tokens: string[]; balances: BigNumber[]; lastChangeBlock: BigNumber }> {
-    return this.vault.getPoolTokens(this.poolId);
+  async getTimeWeightedAverage(queries: OracleAverageQuery[]): Promise<BigNumber[]> {
+    if (!this.twoTokens) throw Error('Cannot query oracle for non-2-tokens weighted pool');
+    return this.instance.getTimeWeightedAverage(queries);
   }
 
-  async getBalances(): Promise<BigNumber[]> {
-    const { balances } = await this.getTokens();
-    return balances;
+  async getPastAccumulators(queries: OracleAccumulatorQuery[]): Promise<BigNumber[]> {
+    if (!this.twoTokens) throw Error('Cannot query oracle for non-2-tokens weighted pool');
+    return this.instance.getPastAccumulators(queries);
   }
 
-  async getTokenInfo(
-    token: Token
-  ): Promise<{ cash: BigNumber; managed: BigNumber; lastChangeBlock: BigNumber; assetManager: string }> {
-    return this.vault.getPoolTokenInfo(this.poolId, token);
+  /**
+   * Price data the pool would feed its oracle in an action performed with the current balances.
+   */
+  async estimateOraclePriceData(currentBalances?: BigNumberish[]): Promise<OraclePriceData> {
+    if (!currentBalances) currentBalances = await this.getBalances();
+    const { logTotalSupply, logInvariant } = await this.getMiscData();
+    const upscaledBalances = upscaleArray(currentBalances, this.scalingFactors);
+    return calcPriceData(this.normalizedWeights, upscaledBalances, logTotalSupply, logInvariant);
+  }
+
+  async estimateTimeWeightedAverage(query: OracleAverageQuery): Promise<BigNumber> {
+    const { variable, secs, ago } = query;
+    const beginQuery = { variable, ago: bn(ago).add(secs) };
+    const [beginAccumulator, endAccumulator] = await this.getPastAccumulators([beginQuery, { variable, ago }]);
+    return math.calculateTimeWeightedAverage(beginAccumulator, endAccumulator, secs);
+  }
+
+  async getNormalizedWeights(): Promise<BigNumber[]> {
+    return this.instance.getNormalizedWeights();
   }
 
   async estimateSpotPrice(currentBalances?: BigNumberish[]): Promise<BigNumber> {
     if (!currentBalances) currentBalances = await this.getBalances();
-    return calculateSpotPrice(currentBalances, this.weights);
+    return math.calculateSpotPrice(upscaleArray(currentBalances, this.scalingFactors), this.weights);
   }
 
   async estimateBptPrice(
@@ -199,24 +186,8 @@ export default class WeightedPool {
   ): Promise<BigNumber> {
     if (!currentBalance) currentBalance = (await this.getBalances())[tokenIndex];
     if (!currentSupply) currentSupply = await this.totalSupply();
-    return calculateBPTPrice(currentBalance, this.weights[tokenIndex], currentSupply);
-  }
-
-  async estimateInvariant(currentBalances?: BigNumberish[]): Promise<BigNumber> {
-    if (!currentBalances) currentBalances = await this.getBalances();
-    return calculateInvariant(currentBalances, this.weights);
-  }
-
-  async estimateSwapFeeAmount(
-    paidToken: number | Token,
-    protocolFeePercentage: BigNumberish,
-    currentBalances?: BigNumberish[]
-  ): Promise<BigNumber> {
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const lastInvariant = await this.estimateInvariant();
-    const paidTokenIndex = this.tokens.indexOf(paidToken);
-    const feeAmount = calculateOneTokenSwapFeeAmount(currentBalances, this.weights, lastInvariant, paidTokenIndex);
-    return bn(feeAmount).mul(protocolFeePercentage).div(fp(1));
+    const upscaledBalance = upscale(currentBalance, this.scalingFactors[tokenIndex]);
+    return math.calculateBPTPrice(upscaledBalance, this.weights[tokenIndex], currentSupply);
   }
 
   async estimateMaxSwapFeeAmount(
@@ -226,91 +197,48 @@ export default class WeightedPool {
   ): Promise<BigNumber> {
     if (!currentBalances) currentBalances = await this.getBalances();
     const paidTokenIndex = this.tokens.indexOf(paidToken);
-    const feeAmount = calculateMaxOneTokenSwapFeeAmount(
-      currentBalances,
+    const feeAmount = math.calculateMaxOneTokenSwapFeeAmount(
+      upscaleArray(currentBalances, this.scalingFactors),
       this.weights,
       MIN_INVARIANT_RATIO,
       paidTokenIndex
     );
-    return bn(feeAmount).mul(protocolFeePercentage).div(fp(1));
+    const protocolFeeAmount = bn(feeAmount).mul(protocolFeePercentage).div(fp(1));
+    return downscaleDown(protocolFeeAmount, this.scalingFactors[paidTokenIndex]);
   }
 
   async estimateGivenIn(params: SwapWeightedPool, currentBalances?: BigNumberish[]): Promise<BigNumberish> {
     if (!currentBalances) currentBalances = await this.getBalances();
     const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
+    const scalingFactors = this.scalingFactors;
+    const balances = upscaleArray(currentBalances, scalingFactors);
 
-    return bn(
-      calcOutGivenIn(
-        currentBalances[tokenIn],
-        this.weights[tokenIn],
-        currentBalances[tokenOut],
-        this.weights[tokenOut],
-        params.amount
-      )
+    const amountOut = this.simulationMath.calcOutGivenIn(
+      balances,
+      this.weights,
+      tokenIn,
+      tokenOut,
+      upscale(params.amount, scalingFactors[tokenIn])
     );
+
+    return downscaleDown(amountOut, scalingFactors[tokenOut]);
   }
 
   async estimateGivenOut(params: SwapWeightedPool, currentBalances?: BigNumberish[]): Promise<BigNumberish> {
     if (!currentBalances) currentBalances = await this.getBalances();
     const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
+    const scalingFactors = this.scalingFactors;
+    const balances = upscaleArray(currentBalances, scalingFactors);
 
-    return bn(
-      calcInGivenOut(
-        currentBalances[tokenIn],
-        this.weights[tokenIn],
-        currentBalances[tokenOut],
-        this.weights[tokenOut],
-        params.amount
-      )
-    );
-  }
-
-  async estimateBptOut(
-    amountsIn: BigNumberish[],
-    currentBalances?: BigNumberish[],
-    supply?: BigNumberish
-  ): Promise<BigNumberish> {
-    if (!supply) supply = await this.totalSupply();
-    if (!currentBalances) currentBalances = await this.getBalances();
-    return calcBptOutGivenExactTokensIn(currentBalances, this.weights, amountsIn, supply, this.swapFeePercentage);
-  }
-
-  async estimateTokenIn(
-    token: number | Token,
-    bptOut: BigNumberish,
-    currentBalances?: BigNumberish[],
-    supply?: BigNumberish
-  ): Promise<BigNumberish> {
-    if (!supply) supply = await this.totalSupply();
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const tokenIndex = this.tokens.indexOf(token);
-    return calcTokenInGivenExactBptOut(
-      tokenIndex,
-      currentBalances,
+    const amountIn = this.simulationMath.calcInGivenOut(
+      balances,
       this.weights,
-      bptOut,
-      supply,
-      this.swapFeePercentage
+      tokenIn,
+      tokenOut,
+      upscale(params.amount, scalingFactors[tokenOut])
     );
-  }
 
-  async estimateTokenOut(
-    token: number | Token,
-    bptIn: BigNumberish,
-    currentBalances?: BigNumberish[],
-    supply?: BigNumberish
-  ): Promise<BigNumberish> {
-    if (!supply) supply = await this.totalSupply();
-    if (!currentBalances) currentBalances = await this.getBalances();
-    const tokenIndex = this.tokens.indexOf(token);
-    return calcTokenOutGivenExactBptIn(
-      tokenIndex,
-      currentBalances,
-      this.weights,
-      bptIn,
-      supply,
-      this.swapFeePercentage
-    );
+    return downscaleUp(amountIn, scalingFactors[tokenIn]);
   }
 
   async swapGivenIn(params: SwapWeightedPool): Promise<BigNumber> {
@@ -328,117 +256,6 @@ export default class WeightedPool {
     return amount;
   }
 
-  async init(params: InitWeightedPool): Promise<JoinResult> {
-    return this.join(this._buildInitParams(params));
-  }
-
-  async joinGivenIn(params: JoinGivenInWeightedPool): Promise<JoinResult> {
-    return this.join(this._buildJoinGivenInParams(params));
-  }
-
-  async queryJoinGivenIn(params: JoinGivenInWeightedPool): Promise<JoinQueryResult> {
-    return this.queryJoin(this._buildJoinGivenInParams(params));
-  }
-
-  async joinGivenOut(params: JoinGivenOutWeightedPool): Promise<JoinResult> {
-    return this.join(this._buildJoinGivenOutParams(params));
-  }
-
-  async queryJoinGivenOut(params: JoinGivenOutWeightedPool): Promise<JoinQueryResult> {
-    return this.queryJoin(this._buildJoinGivenOutParams(params));
-  }
-
-  async exitGivenOut(params: ExitGivenOutWeightedPool): Promise<ExitResult> {
-    return this.exit(this._buildExitGivenOutParams(params));
-  }
-
-  async queryExitGivenOut(params: ExitGivenOutWeightedPool): Promise<ExitQueryResult> {
-    return this.queryExit(this._buildExitGivenOutParams(params));
-  }
-
-  async singleExitGivenIn(params: SingleExitGivenInWeightedPool): Promise<ExitResult> {
-    return this.exit(this._buildSingleExitGivenInParams(params));
-  }
-
-  async querySingleExitGivenIn(params: SingleExitGivenInWeightedPool): Promise<ExitQueryResult> {
-    return this.queryExit(this._buildSingleExitGivenInParams(params));
-  }
-
-  async multiExitGivenIn(params: MultiExitGivenInWeightedPool): Promise<ExitResult> {
-    return this.exit(this._buildMultiExitGivenInParams(params));
-  }
-
-  async queryMultiExitGivenIn(params: MultiExitGivenInWeightedPool): Promise<ExitQueryResult> {
-    return this.queryExit(this._buildMultiExitGivenInParams(params));
-  }
-
-  async queryJoin(params: JoinExitWeightedPool): Promise<JoinQueryResult> {
-    const fn = this.instance.queryJoin;
-    return (await this._executeQuery(params, fn)) as JoinQueryResult;
-  }
-
-  async join(params: JoinExitWeightedPool): Promise<JoinResult> {
-    const currentBalances = params.currentBalances || (await this.getBalances());
-    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
-
-    const tx = this.vault.joinPool({
-      poolAddress: this.address,
-      poolId: this.poolId,
-      recipient: to,
-      currentBalances,
-      tokens: this.tokens.addresses,
-      lastChangeBlock: params.lastChangeBlock ?? 0,
-      protocolFeePercentage: params.protocolFeePercentage ?? 0,
-      data: params.data ?? '0x',
-      from: params.from,
-    });
-
-    const receipt = await (await tx).wait();
-    const { deltas, protocolFees } = expectEvent.inReceipt(receipt, 'PoolBalanceChanged').args;
-    return { amountsIn: deltas, dueProtocolFeeAmounts: protocolFees };
-  }
-
-  async queryExit(params: JoinExitWeightedPool): Promise<ExitQueryResult> {
-    const fn = this.instance.queryExit;
-    return (await this._executeQuery(params, fn)) as ExitQueryResult;
-  }
-
-  async exit(params: JoinExitWeightedPool): Promise<ExitResult> {
-    const currentBalances = params.currentBalances || (await this.getBalances());
-    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
-
-    const tx = await this.vault.exitPool({
-      poolAddress: this.address,
-      poolId: this.poolId,
-      recipient: to,
-      currentBalances,
-      tokens: this.tokens.addresses,
-      lastChangeBlock: params.lastChangeBlock ?? 0,
-      protocolFeePercentage: params.protocolFeePercentage ?? 0,
-      data: params.data ?? '0x',
-      from: params.from,
-    });
-
-    const receipt = await (await tx).wait();
-    const { deltas, protocolFees } = expectEvent.inReceipt(receipt, 'PoolBalanceChanged').args;
-    return { amountsOut: deltas.map((x: BigNumber) => x.mul(-1)), dueProtocolFeeAmounts: protocolFees };
-  }
-
-  private async _executeQuery(params: JoinExitWeightedPool, fn: ContractFunction): Promise<PoolQueryResult> {
-    const currentBalances = params.currentBalances || (await this.getBalances());
-    const to = params.recipient ? TypesConverter.toAddress(params.recipient) : params.from?.address ?? ZERO_ADDRESS;
-
-    return fn(
-      this.poolId,
-      params.from?.address || ZERO_ADDRESS,
-      to,
-      currentBalances,
-      params.lastChangeBlock ?? 0,
-      params.protocolFeePercentage ?? 0,
-      params.data ?? '0x'
-    );
-  }
-
   private async _buildSwapParams(kind: number, params: SwapWeightedPool): Promise<Swap> {
     const currentBalances = await this.getBalances();
     const [tokenIn, tokenOut] = this.tokens.indicesOf(params.in, params.out);
@@ -458,108 +275,7 @@ export default class WeightedPool {
     };
   }
 
-  private _buildInitParams(params: InitWeightedPool): JoinExitWeightedPool {
-    const { initialBalances: balances } = params;
-    const amountsIn = Array.isArray(balances) ? balances : Array(this.tokens.length).fill(balances);
-
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeJoinWeightedPool({
-        kind: 'Init',
-        amountsIn,
-      }),
-    };
-  }
-
-  private _buildJoinGivenInParams(params: JoinGivenInWeightedPool): JoinExitWeightedPool {
-    const { amountsIn: amounts } = params;
-    const amountsIn = Array.isArray(amounts) ? amounts : Array(this.tokens.length).fill(amounts);
-
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      lastChangeBlock: params.lastChangeBlock,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeJoinWeightedPool({
-        kind: 'ExactTokensInForBPTOut',
-        amountsIn,
-        minimumBPT: params.minimumBptOut ?? 0,
-      }),
-    };
-  }
-
-  private _buildJoinGivenOutParams(params: JoinGivenOutWeightedPool): JoinExitWeightedPool {
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      lastChangeBlock: params.lastChangeBlock,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeJoinWeightedPool({
-        kind: 'TokenInForExactBPTOut',
-        bptAmountOut: params.bptOut,
-        enterTokenIndex: this.tokens.indexOf(params.token),
-      }),
-    };
-  }
-
-  private _buildExitGivenOutParams(params: ExitGivenOutWeightedPool): JoinExitWeightedPool {
-    const { amountsOut: amounts } = params;
-    const amountsOut = Array.isArray(amounts) ? amounts : Array(this.tokens.length).fill(amounts);
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      lastChangeBlock: params.lastChangeBlock,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeExitWeightedPool({
-        kind: 'BPTInForExactTokensOut',
-        amountsOut,
-        maxBPTAmountIn: params.maximumBptIn ?? MAX_UINT256,
-      }),
-    };
-  }
-
-  private _buildSingleExitGivenInParams(params: SingleExitGivenInWeightedPool): JoinExitWeightedPool {
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      lastChangeBlock: params.lastChangeBlock,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeExitWeightedPool({
-        kind: 'ExactBPTInForOneTokenOut',
-        bptAmountIn: params.bptIn,
-        exitTokenIndex: this.tokens.indexOf(params.token),
-      }),
-    };
-  }
-
-  private _buildMultiExitGivenInParams(params: MultiExitGivenInWeightedPool): JoinExitWeightedPool {
-    return {
-      from: params.from,
-      recipient: params.recipient,
-      lastChangeBlock: params.lastChangeBlock,
-      currentBalances: params.currentBalances,
-      protocolFeePercentage: params.protocolFeePercentage,
-      data: encodeExitWeightedPool({
-        kind: 'ExactBPTInForTokensOut',
-        bptAmountIn: params.bptIn,
-      }),
-    };
-  }
-
-  async pause(): Promise<void> {
-    const action = await actionId(this.instance, 'setPaused');
-    await this.vault.grantRole(action);
-    await this.instance.setPaused(true);
-  }
-
-  async enableOracle(txParams: TxParams): Promise<void> {
-    const pool = txParams.from ? this.instance.connect(txParams.from) : this.instance;
-    await pool.enableOracle();
+  async enableOracle(params: PoolAdminAction = {}): Promise<ContractTransaction> {
+    return this.performAdminAction('enableOracle', [], params);
   }
 }
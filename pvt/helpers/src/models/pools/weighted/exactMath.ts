@@ -0,0 +1,215 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn, fp, max } from '../../../numbers';
+import {
+  ONE,
+  MIN_POW_BASE_FREE_EXPONENT,
+  add,
+  sub,
+  mulDown,
+  mulUp,
+  divDown,
+  divUp,
+  powDown,
+  powUp,
+  complement,
+} from '../../../fixedPoint';
+
+// Bit-exact versions of the functions in `math.ts`, mirroring the rounding of `WeightedMath.sol`
+
+const MAX_IN_RATIO = fp(0.3);
+const MAX_OUT_RATIO = fp(0.3);
+const MAX_INVARIANT_RATIO = fp(3);
+const MIN_INVARIANT_RATIO = fp(0.7);
+
+export function calculateInvariant(fpRawBalances: BigNumberish[], fpRawWeights: BigNumberish[]): BigNumber {
+  const invariant = fpRawWeights.reduce(
+    (inv: BigNumber, weight, i) => mulDown(inv, powDown(fpRawBalances[i], weight)),
+    ONE
+  );
+
+  if (invariant.isZero()) throw Error('ZERO_INVARIANT');
+  return invariant;
+}
+
+export function calcOutGivenIn(
+  fpBalanceIn: BigNumberish,
+  fpWeightIn: BigNumberish,
+  fpBalanceOut: BigNumberish,
+  fpWeightOut: BigNumberish,
+  fpAmountIn: BigNumberish
+): BigNumber {
+  if (bn(fpAmountIn).gt(mulDown(fpBalanceIn, MAX_IN_RATIO))) throw Error('MAX_IN_RATIO');
+
+  const denominator = add(fpBalanceIn, fpAmountIn);
+  const base = divUp(fpBalanceIn, denominator);
+  const exponent = divDown(fpWeightIn, fpWeightOut);
+  const power = powUp(base, exponent);
+
+  return mulDown(fpBalanceOut, complement(power));
+}
+
+export function calcInGivenOut(
+  fpBalanceIn: BigNumberish,
+  fpWeightIn: BigNumberish,
+  fpBalanceOut: BigNumberish,
+  fpWeightOut: BigNumberish,
+  fpAmountOut: BigNumberish
+): BigNumber {
+  if (bn(fpAmountOut).gt(mulDown(fpBalanceOut, MAX_OUT_RATIO))) throw Error('MAX_OUT_RATIO');
+
+  const base = divUp(fpBalanceOut, sub(fpBalanceOut, fpAmountOut));
+  const exponent = divUp(fpWeightOut, fpWeightIn);
+  const power = powUp(base, exponent);
+
+  return mulUp(fpBalanceIn, sub(power, ONE));
+}
+
+export function calcBptOutGivenExactTokensIn(
+  fpBalances: BigNumberish[],
+  fpWeights: BigNumberish[],
+  fpAmountsIn: BigNumberish[],
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const balanceRatiosWithFee: BigNumber[] = [];
+  let invariantRatioWithFees = bn(0);
+  for (let i = 0; i < fpBalances.length; i++) {
+    balanceRatiosWithFee[i] = divDown(add(fpBalances[i], fpAmountsIn[i]), fpBalances[i]);
+    invariantRatioWithFees = add(invariantRatioWithFees, mulDown(balanceRatiosWithFee[i], fpWeights[i]));
+  }
+
+  let invariantRatio = ONE;
+  for (let i = 0; i < fpBalances.length; i++) {
+    let amountInWithoutFee: BigNumberish;
+
+    if (balanceRatiosWithFee[i].gt(invariantRatioWithFees)) {
+      const nonTaxableAmount = mulDown(fpBalances[i], sub(invariantRatioWithFees, ONE));
+      const taxableAmount = sub(fpAmountsIn[i], nonTaxableAmount);
+      amountInWithoutFee = add(nonTaxableAmount, mulDown(taxableAmount, sub(ONE, fpSwapFeePercentage)));
+    } else {
+      amountInWithoutFee = fpAmountsIn[i];
+    }
+
+    const balanceRatio = divDown(add(fpBalances[i], amountInWithoutFee), fpBalances[i]);
+    invariantRatio = mulDown(invariantRatio, powDown(balanceRatio, fpWeights[i]));
+  }
+
+  return invariantRatio.gte(ONE) ? mulDown(fpBptTotalSupply, sub(invariantRatio, ONE)) : bn(0);
+}
+
+export function calcTokenInGivenExactBptOut(
+  tokenIndex: number,
+  fpBalances: BigNumberish[],
+  fpWeights: BigNumberish[],
+  fpBptAmountOut: BigNumberish,
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const invariantRatio = divUp(add(fpBptTotalSupply, fpBptAmountOut), fpBptTotalSupply);
+  if (invariantRatio.gt(MAX_INVARIANT_RATIO)) throw Error('MAX_OUT_BPT_FOR_TOKEN_IN');
+
+  const weight = fpWeights[tokenIndex];
+  const balanceRatio = powUp(invariantRatio, divUp(ONE, weight));
+  const amountInWithoutFee = mulUp(fpBalances[tokenIndex], sub(balanceRatio, ONE));
+
+  const taxableAmount = mulUp(amountInWithoutFee, complement(weight));
+  const nonTaxableAmount = sub(amountInWithoutFee, taxableAmount);
+
+  return add(nonTaxableAmount, divUp(taxableAmount, complement(fpSwapFeePercentage)));
+}
+
+export function calcBptInGivenExactTokensOut(
+  fpBalances: BigNumberish[],
+  fpWeights: BigNumberish[],
+  fpAmountsOut: BigNumberish[],
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const balanceRatiosWithoutFee: BigNumber[] = [];
+  let invariantRatioWithoutFees = bn(0);
+  for (let i = 0; i < fpBalances.length; i++) {
+    balanceRatiosWithoutFee[i] = divUp(sub(fpBalances[i], fpAmountsOut[i]), fpBalances[i]);
+    invariantRatioWithoutFees = add(invariantRatioWithoutFees, mulUp(balanceRatiosWithoutFee[i], fpWeights[i]));
+  }
+
+  let invariantRatio = ONE;
+  for (let i = 0; i < fpBalances.length; i++) {
+    let amountOutWithFee: BigNumberish;
+
+    if (invariantRatioWithoutFees.gt(balanceRatiosWithoutFee[i])) {
+      const nonTaxableAmount = mulDown(fpBalances[i], complement(invariantRatioWithoutFees));
+      const taxableAmount = sub(fpAmountsOut[i], nonTaxableAmount);
+      amountOutWithFee = add(nonTaxableAmount, divUp(taxableAmount, complement(fpSwapFeePercentage)));
+    } else {
+      amountOutWithFee = fpAmountsOut[i];
+    }
+
+    const balanceRatio = divDown(sub(fpBalances[i], amountOutWithFee), fpBalances[i]);
+    invariantRatio = mulDown(invariantRatio, powDown(balanceRatio, fpWeights[i]));
+  }
+
+  return mulUp(fpBptTotalSupply, complement(invariantRatio));
+}
+
+export function calcTokenOutGivenExactBptIn(
+  tokenIndex: number,
+  fpBalances: BigNumberish[],
+  fpWeights: BigNumberish[],
+  fpBptAmountIn: BigNumberish,
+  fpBptTotalSupply: BigNumberish,
+  fpSwapFeePercentage: BigNumberish
+): BigNumber {
+  const invariantRatio = divUp(sub(fpBptTotalSupply, fpBptAmountIn), fpBptTotalSupply);
+  if (invariantRatio.lt(MIN_INVARIANT_RATIO)) throw Error('MIN_BPT_IN_FOR_TOKEN_OUT');
+
+  const weight = fpWeights[tokenIndex];
+  const balanceRatio = powUp(invariantRatio, divDown(ONE, weight));
+  const amountOutWithoutFee = mulDown(fpBalances[tokenIndex], complement(balanceRatio));
+
+  const taxableAmount = mulUp(amountOutWithoutFee, complement(weight));
+  const nonTaxableAmount = sub(amountOutWithoutFee, taxableAmount);
+
+  return add(nonTaxableAmount, mulDown(taxableAmount, complement(fpSwapFeePercentage)));
+}
+
+export function calcTokensOutGivenExactBptIn(
+  fpBalances: BigNumberish[],
+  fpBptAmountIn: BigNumberish,
+  fpBptTotalSupply: BigNumberish
+): BigNumber[] {
+  const bptRatio = divDown(fpBptAmountIn, fpBptTotalSupply);
+  return fpBalances.map((balance) => mulDown(balance, bptRatio));
+}
+
+export function calculateOneTokenSwapFeeAmount(
+  fpBalances: BigNumberish[],
+  fpWeights: BigNumberish[],
+  lastInvariant: BigNumberish,
+  tokenIndex: number
+): BigNumber {
+  return calcDueTokenProtocolSwapFeeAmount(
+    fpBalances[tokenIndex],
+    fpWeights[tokenIndex],
+    lastInvariant,
+    calculateInvariant(fpBalances, fpWeights),
+    ONE
+  );
+}
+
+export function calcDueTokenProtocolSwapFeeAmount(
+  fpBalance: BigNumberish,
+  fpWeight: BigNumberish,
+  previousInvariant: BigNumberish,
+  currentInvariant: BigNumberish,
+  fpProtocolSwapFeePercentage: BigNumberish
+): BigNumber {
+  if (bn(currentInvariant).lte(previousInvariant)) return bn(0);
+
+  const base = max(divUp(previousInvariant, currentInvariant), MIN_POW_BASE_FREE_EXPONENT);
+  const exponent = divDown(ONE, fpWeight);
+  const power = powUp(base, exponent);
+
+  const tokenAccruedFees = mulDown(fpBalance, complement(power));
+  return mulDown(tokenAccruedFees, fpProtocolSwapFeePercentage);
+}
@@ -2,6 +2,9 @@ import { Decimal } from 'decimal.js';
 import { BigNumber } from 'ethers';
 
 import { BigNumberish, bn, decimal, fp, fromFp, toFp } from '../../../numbers';
+import { fromLowResLog } from '../../../logExpMath';
+
+export * as exact from './exactMath';
 
 export function calculateInvariant(fpRawBalances: BigNumberish[], fpRawWeights: BigNumberish[]): BigNumber {
   const normalizedWeights = fpRawWeights.map(fromFp);
@@ -216,3 +219,11 @@ export function calculateBPTPrice(
 ): BigNumber {
   return bn(toFp(fromFp(fpBalance).div(fromFp(fpWeight)).div(fromFp(totalSupply))).toFixed(0));
 }
+
+export function calculateTimeWeightedAverage(
+  beginAccumulator: BigNumberish,
+  endAccumulator: BigNumberish,
+  secs: BigNumberish
+): BigNumber {
+  return fromLowResLog(bn(endAccumulator).sub(beginAccumulator).div(secs));
+}
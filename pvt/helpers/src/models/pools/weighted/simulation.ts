@@ -0,0 +1,52 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from '../../../numbers';
+import { mul } from '../../../fixedPoint';
+
+import { PoolSimulationMath } from '../base/types';
+import * as exact from './exactMath';
+
+// Simulation math of weighted pools, where the protocol swap fees are always paid in the token with the largest weight
+
+export const simulationMath: PoolSimulationMath<BigNumberish[]> = {
+  calculateInvariant: exact.calculateInvariant,
+  calcBptOutGivenExactTokensIn: exact.calcBptOutGivenExactTokensIn,
+  calcTokenInGivenExactBptOut: exact.calcTokenInGivenExactBptOut,
+  calcBptInGivenExactTokensOut: exact.calcBptInGivenExactTokensOut,
+  calcTokenOutGivenExactBptIn: exact.calcTokenOutGivenExactBptIn,
+  calcTokensOutGivenExactBptIn: exact.calcTokensOutGivenExactBptIn,
+
+  calcInitialBptOut(invariant: BigNumber, numTokens: number): BigNumber {
+    return mul(invariant, numTokens);
+  },
+
+  calcOutGivenIn(fpBalances, fpWeights, tokenIndexIn, tokenIndexOut, fpAmountIn): BigNumber {
+    const [balanceIn, balanceOut] = [fpBalances[tokenIndexIn], fpBalances[tokenIndexOut]];
+    return exact.calcOutGivenIn(balanceIn, fpWeights[tokenIndexIn], balanceOut, fpWeights[tokenIndexOut], fpAmountIn);
+  },
+
+  calcInGivenOut(fpBalances, fpWeights, tokenIndexIn, tokenIndexOut, fpAmountOut): BigNumber {
+    const [balanceIn, balanceOut] = [fpBalances[tokenIndexIn], fpBalances[tokenIndexOut]];
+    return exact.calcInGivenOut(balanceIn, fpWeights[tokenIndexIn], balanceOut, fpWeights[tokenIndexOut], fpAmountOut);
+  },
+
+  calcDueProtocolFeeAmounts(fpBalances, fpWeights, lastInvariant, fpProtocolSwapFeePercentage): BigNumber[] {
+    const dueProtocolFeeAmounts = fpBalances.map(() => bn(0));
+    if (bn(fpProtocolSwapFeePercentage).isZero()) return dueProtocolFeeAmounts;
+
+    const index = maxWeightTokenIndex(fpWeights);
+    dueProtocolFeeAmounts[index] = exact.calcDueTokenProtocolSwapFeeAmount(
+      fpBalances[index],
+      fpWeights[index],
+      lastInvariant,
+      exact.calculateInvariant(fpBalances, fpWeights),
+      fpProtocolSwapFeePercentage
+    );
+    return dueProtocolFeeAmounts;
+  },
+};
+
+// Ties are resolved in favor of the first token, as the pools do
+export function maxWeightTokenIndex(fpWeights: BigNumberish[]): number {
+  return fpWeights.reduce((maxIndex: number, weight, i) => (bn(weight).gt(fpWeights[maxIndex]) ? i : maxIndex), 0);
+}
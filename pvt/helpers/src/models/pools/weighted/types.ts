@@ -3,9 +3,22 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-wit
 
 import { BigNumberish } from '../../../numbers';
 
-import Token from '../../tokens/Token';
+import Vault from '../../vault/Vault';
 import TokenList from '../../tokens/TokenList';
-import { Account, NAry } from '../../types/types';
+import { Account } from '../../types/types';
+import { OracleVariable } from './PoolPriceOracle';
+import {
+  SwapPool,
+  JoinExitPool,
+  InitPool,
+  JoinGivenInPool,
+  JoinGivenOutPool,
+  ExitGivenOutPool,
+  SingleExitGivenInPool,
+  MultiExitGivenInPool,
+} from '../base/types';
+
+export { JoinResult, ExitResult, JoinQueryResult, ExitQueryResult, PoolQueryResult } from '../base/types';
 
 export type RawWeightedPoolDeployment = {
   tokens?: TokenList;
@@ -18,6 +31,7 @@ export type RawWeightedPoolDeployment = {
   admin?: SignerWithAddress;
   from?: SignerWithAddress;
   fromFactory?: boolean;
+  vault?: Vault;
   twoTokens?: boolean;
 };
 
@@ -34,101 +48,6 @@ export type WeightedPoolDeployment = {
   from?: SignerWithAddress;
 };
 
-export type SwapWeightedPool = {
-  in: number | Token;
-  out: number | Token;
-  amount: BigNumberish;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  lastChangeBlock?: BigNumberish;
-  data?: string;
-};
-
-export type JoinExitWeightedPool = {
-  recipient?: Account;
-  currentBalances?: BigNumberish[];
-  lastChangeBlock?: BigNumberish;
-  protocolFeePercentage?: BigNumberish;
-  data?: string;
-  from?: SignerWithAddress;
-};
-
-export type InitWeightedPool = {
-  initialBalances: NAry<BigNumberish>;
-  from?: SignerWithAddress;
-  recipient?: Account;
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type JoinGivenInWeightedPool = {
-  amountsIn: NAry<BigNumberish>;
-  minimumBptOut?: BigNumberish;
-  from?: SignerWithAddress;
-  recipient?: Account;
-  lastChangeBlock?: BigNumberish;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type JoinGivenOutWeightedPool = {
-  token: number | Token;
-  bptOut: BigNumberish;
-  from?: SignerWithAddress;
-  recipient?: Account;
-  lastChangeBlock?: BigNumberish;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type ExitGivenOutWeightedPool = {
-  amountsOut: NAry<BigNumberish>;
-  maximumBptIn?: BigNumberish;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  lastChangeBlock?: BigNumberish;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type SingleExitGivenInWeightedPool = {
-  bptIn: BigNumberish;
-  token: number | Token;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  lastChangeBlock?: BigNumberish;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type MultiExitGivenInWeightedPool = {
-  bptIn: BigNumberish;
-  recipient?: Account;
-  from?: SignerWithAddress;
-  lastChangeBlock?: BigNumberish;
-  currentBalances?: BigNumberish[];
-  protocolFeePercentage?: BigNumberish;
-};
-
-export type JoinResult = {
-  amountsIn: BigNumber[];
-  dueProtocolFeeAmounts: BigNumber[];
-};
-
-export type ExitResult = {
-  amountsOut: BigNumber[];
-  dueProtocolFeeAmounts: BigNumber[];
-};
-
-export type JoinQueryResult = {
-  bptOut: BigNumber;
-  amountsIn: BigNumber[];
-};
-
-export type ExitQueryResult = {
-  bptIn: BigNumber;
-  amountsOut: BigNumber[];
-};
-
 export type MiscData = {
   swapFeePercentage: BigNumber;
   oracleEnabled: boolean;
@@ -148,4 +67,28 @@ export type Sample = {
   timestamp: BigNumber;
 };
 
-export type PoolQueryResult = JoinQueryResult | ExitQueryResult;
+export type OraclePriceData = {
+  logPairPrice: BigNumberish;
+  logBptPrice: BigNumberish;
+  logInvariant: BigNumberish;
+};
+
+export type OracleAverageQuery = {
+  variable: OracleVariable;
+  secs: BigNumberish;
+  ago: BigNumberish;
+};
+
+export type OracleAccumulatorQuery = {
+  variable: OracleVariable;
+  ago: BigNumberish;
+};
+
+export type SwapWeightedPool = SwapPool;
+export type JoinExitWeightedPool = JoinExitPool;
+export type InitWeightedPool = InitPool;
+export type JoinGivenInWeightedPool = JoinGivenInPool;
+export type JoinGivenOutWeightedPool = JoinGivenOutPool;
+export type ExitGivenOutWeightedPool = ExitGivenOutPool;
+export type SingleExitGivenInWeightedPool = SingleExitGivenInPool;
+export type MultiExitGivenInWeightedPool = MultiExitGivenInPool;
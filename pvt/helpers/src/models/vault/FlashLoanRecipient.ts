@@ -0,0 +1,57 @@
+import { Contract } from 'ethers';
+
+import { deploy } from '../../contract';
+import { Account, TxParams } from '../types/types';
+import { FlashLoanRecipientBehavior, RawFlashLoanRecipientDeployment } from './types';
+import TypesConverter from '../types/TypesConverter';
+
+const BEHAVIORS: {
+  [behavior in FlashLoanRecipientBehavior]: {
+    repayLoan: boolean;
+    repayInExcess: boolean;
+    reenter: boolean;
+    revertLoan: boolean;
+  };
+} = {
+  RepayExactly: { repayLoan: true, repayInExcess: false, reenter: false, revertLoan: false },
+  Underpay: { repayLoan: false, repayInExcess: false, reenter: false, revertLoan: false },
+  Overpay: { repayLoan: true, repayInExcess: true, reenter: false, revertLoan: false },
+  Reenter: { repayLoan: true, repayInExcess: false, reenter: true, revertLoan: false },
+  Revert: { repayLoan: true, repayInExcess: false, reenter: false, revertLoan: true },
+};
+
+export default class FlashLoanRecipient {
+  instance: Contract;
+  behavior: FlashLoanRecipientBehavior;
+
+  static async create(
+    vault: Account,
+    { behavior, from }: RawFlashLoanRecipientDeployment = {}
+  ): Promise<FlashLoanRecipient> {
+    const instance = await deploy('v2-vault/MockFlashLoanRecipient', { args: [TypesConverter.toAddress(vault)], from });
+    const recipient = new FlashLoanRecipient(instance);
+    if (behavior) await recipient.setBehavior(behavior);
+    return recipient;
+  }
+
+  constructor(instance: Contract) {
+    this.instance = instance;
+    this.behavior = 'RepayExactly';
+  }
+
+  get address(): string {
+    return this.instance.address;
+  }
+
+  async setBehavior(behavior: FlashLoanRecipientBehavior, { from }: TxParams = {}): Promise<void> {
+    const recipient = from ? this.instance.connect(from) : this.instance;
+    const { repayLoan, repayInExcess, reenter, revertLoan } = BEHAVIORS[behavior];
+
+    // Underpaying repays one token less than the loan plus its fees, while overpaying repays one token more
+    await recipient.setRepayLoan(repayLoan);
+    await recipient.setRepayInExcess(repayInExcess);
+    await recipient.setReenter(reenter);
+    await recipient.setRevertLoan(revertLoan);
+    this.behavior = behavior;
+  }
+}
@@ -0,0 +1,92 @@
+import { Contract, ContractTransaction } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from './Vault';
+import { actionId } from '../misc/actions';
+import { MAX_GAS_LIMIT } from '../../constants';
+import { BigNumberish } from '../../numbers';
+import { BatchSwap, RelayedCall, SingleSwap } from './types';
+import { encodeCalldataAuthorization, MAX_DEADLINE, signAuthorizationFor } from '../misc/signatures';
+
+// Vault functions that validate signatures of their own type, any other function uses the generic one
+const AUTHORIZATION_TYPES: { [method: string]: string } = {
+  setRelayerApproval: 'SetRelayerApproval',
+  joinPool: 'JoinPool',
+  exitPool: 'ExitPool',
+  swap: 'Swap',
+  batchSwap: 'BatchSwap',
+};
+
+export default class Relayer {
+  vault: Vault;
+  account: SignerWithAddress | Contract;
+
+  constructor(vault: Vault, account: SignerWithAddress | Contract) {
+    this.vault = vault;
+    this.account = account;
+  }
+
+  get address(): string {
+    return this.account.address;
+  }
+
+  async authorize(methods: string[]): Promise<void> {
+    for (const method of methods) {
+      await this.vault.grantRole(await actionId(this.vault.instance, method), this.address);
+    }
+  }
+
+  async isApprovedBy(user: SignerWithAddress): Promise<boolean> {
+    return this.vault.hasApprovedRelayer(user, this.address);
+  }
+
+  async approve(user: SignerWithAddress, approved = true): Promise<ContractTransaction> {
+    return this.vault.setRelayerApproval(user, this.address, approved);
+  }
+
+  async approveBySignature(
+    user: SignerWithAddress,
+    approved = true,
+    { deadline }: { deadline?: BigNumberish } = {}
+  ): Promise<ContractTransaction> {
+    return this.call('setRelayerApproval', [user.address, this.address, approved], { authorizedBy: user, deadline });
+  }
+
+  async swap(params: SingleSwap, call: RelayedCall = {}): Promise<ContractTransaction> {
+    return this.call('swap', this.vault.swapArgs(params, this.address), { value: params.value, ...call });
+  }
+
+  async batchSwap(params: BatchSwap, call: RelayedCall = {}): Promise<ContractTransaction> {
+    return this.call('batchSwap', this.vault.batchSwapArgs(params, this.address), { value: params.value, ...call });
+  }
+
+  /**
+   * Sends a Vault call from the relayer account. If a user is given, the call carries their signed authorization,
+   * which is appended to the calldata using the user's next nonce.
+   */
+  async call(method: string, args: unknown[], params: RelayedCall = {}): Promise<ContractTransaction> {
+    if (!(this.account instanceof SignerWithAddress)) throw Error('Relayed calls must be sent by an external account');
+
+    let data = this.vault.instance.interface.encodeFunctionData(method, args);
+
+    const { authorizedBy, value } = params;
+    if (authorizedBy) {
+      const type = AUTHORIZATION_TYPES[method] ?? 'Authorization';
+      const nonce = await this.vault.getNextNonce(authorizedBy);
+      const deadline = params.deadline ?? MAX_DEADLINE;
+      const signature = await signAuthorizationFor(
+        type,
+        this.vault.instance,
+        authorizedBy,
+        this.account,
+        data,
+        nonce,
+        deadline
+      );
+      data = encodeCalldataAuthorization(data, deadline, signature);
+    }
+
+    // Hardcoding a gas limit prevents (slow) gas estimation
+    return this.account.sendTransaction({ to: this.vault.address, data, value, gasLimit: MAX_GAS_LIMIT });
+  }
+}
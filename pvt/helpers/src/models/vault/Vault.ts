@@ -1,17 +1,49 @@
 import { ethers } from 'hardhat';
-import { BigNumber, Contract, ContractTransaction } from 'ethers';
+import { BigNumber, Contract, ContractReceipt, ContractTransaction } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
 import Token from '../tokens/Token';
-import TokenList from '../tokens/TokenList';
+import TokenList, { ETH_TOKEN_ADDRESS } from '../tokens/TokenList';
 import VaultDeployer from './VaultDeployer';
 import TypesConverter from '../types/TypesConverter';
-import { actionId } from '../misc/actions';
-import { MAX_UINT256, ZERO_ADDRESS } from '../../constants';
-import { BigNumberish } from '../../numbers';
+import { actionId, PERMISSIONED_METHODS } from '../misc/actions';
+import { MAX_INT256, MAX_UINT256, ZERO_ADDRESS } from '../../constants';
+import { BigNumberish, bn, divCeil, FP_SCALING_FACTOR } from '../../numbers';
 import { Account, NAry, TxParams } from '../types/types';
-import { ExitPool, JoinPool, RawVaultDeployment, Swap } from './types';
+import { AssetManagerTransfer, FundManagement, Swap as BatchSwapStepData, SWAP_KIND } from './swaps';
+import { PoolBalanceOpKind, UserBalanceOpKind } from './balances';
+import { GeneralPool, MinimalSwapInfoPool, PoolSpecializationSetting, TwoTokenPool } from './pools';
+import { decodePoolId, isPoolIdOf, PoolIdInfo } from './poolId';
+import {
+  BatchSwap,
+  BatchSwapArgs,
+  BatchSwapResult,
+  BatchSwapStep,
+  ExitPool,
+  ExternalBalanceTransferEvent,
+  FlashLoanEvent,
+  FlashLoanResult,
+  InternalBalanceChangedEvent,
+  JoinPool,
+  PoolBalanceManagedEvent,
+  PoolBalanceOp,
+  ManagePoolBalanceResult,
+  ManageUserBalanceParams,
+  ManageUserBalanceResult,
+  QueryBatchSwap,
+  QueryBatchSwapResult,
+  RawVaultDeployment,
+  SingleSwap,
+  SingleSwapResult,
+  Swap,
+  SwapArgs,
+  SwapAsset,
+  SwapEvent,
+  UserBalanceOp,
+  UserBalanceTransfer,
+} from './types';
 import { deployedAt } from '../../contract';
+import { PermissionsTarget } from '../authorizer/types';
 
 export default class Vault {
   mocked: boolean;
@@ -40,6 +72,64 @@ export default class Vault {
     return { address, specialization };
   }
 
+  async registerPool(specialization: PoolSpecializationSetting, { from }: TxParams = {}): Promise<string> {
+    if (![GeneralPool, MinimalSwapInfoPool, TwoTokenPool].includes(specialization)) {
+      throw Error('Invalid pool specialization setting');
+    }
+
+    const sender = from || (await this._defaultSender());
+    const receipt = await (await this.instance.connect(sender).registerPool(specialization)).wait();
+    const event = (receipt.events || []).find((event: { event?: string }) => event.event === 'PoolRegistered');
+    if (!event) throw Error('Could not find PoolRegistered event');
+
+    const { poolId } = event.args;
+    if (!isPoolIdOf(poolId, sender.address, specialization)) throw Error(`Unexpected registered pool ID ${poolId}`);
+    return poolId;
+  }
+
+  decodePoolId(poolId: string): PoolIdInfo {
+    return decodePoolId(poolId);
+  }
+
+  async registerTokens(
+    poolId: string,
+    tokens: TokenList | string[],
+    assetManagers?: string[],
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const addresses = Array.isArray(tokens) ? tokens : tokens.addresses;
+    const managers = assetManagers ?? addresses.map(() => ZERO_ADDRESS);
+    if (addresses.length !== managers.length) throw Error('Tokens and asset managers length mismatch');
+
+    // Two token pools require their tokens to be sorted, each asset manager follows its token
+    const { specialization } = decodePoolId(poolId);
+    const indexes = this._poolTokensOrder(specialization, addresses);
+
+    const vault = this.instance.connect(from || (await this._defaultSender()));
+    return vault.registerTokens(
+      poolId,
+      indexes.map((i) => addresses[i]),
+      indexes.map((i) => managers[i])
+    );
+  }
+
+  async deregisterTokens(
+    poolId: string,
+    tokens: TokenList | string[],
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const addresses = Array.isArray(tokens) ? tokens : tokens.addresses;
+
+    const { specialization } = decodePoolId(poolId);
+    const indexes = this._poolTokensOrder(specialization, addresses);
+
+    const vault = this.instance.connect(from || (await this._defaultSender()));
+    return vault.deregisterTokens(
+      poolId,
+      indexes.map((i) => addresses[i])
+    );
+  }
+
   async getPoolTokens(
     poolId: string
   ): Promise<{ tokens: string[]; balances: BigNumber[]; lastChangeBlock: BigNumber }> {
@@ -72,6 +162,75 @@ export default class Vault {
     );
   }
 
+  async swap(params: SingleSwap): Promise<SingleSwapResult> {
+    const sender = params.from || (await this._defaultSender());
+    const vault = this.instance.connect(sender);
+    const tx = await vault.swap(...this.swapArgs(params, sender.address), { value: params.value ?? 0 });
+    const receipt = await tx.wait();
+
+    const [event] = this._parseSwapEvents(receipt);
+    const amountCalculated = params.kind === SWAP_KIND.GIVEN_IN ? event.amountOut : event.amountIn;
+    return { amountCalculated, event, receipt };
+  }
+
+  async batchSwap(params: BatchSwap): Promise<BatchSwapResult> {
+    const sender = params.from || (await this._defaultSender());
+    const args = this.batchSwapArgs(params, sender.address);
+
+    const vault = this.instance.connect(sender);
+    const tx = await vault.batchSwap(...args, { value: params.value ?? 0 });
+    const receipt = await tx.wait();
+
+    // The Vault emits one Swap event per swap step and in the same order, so asset deltas can be rebuilt from them
+    const [, swaps, assets] = args;
+    const events = this._parseSwapEvents(receipt);
+    const deltas = assets.map(() => bn(0));
+    events.forEach((event, i) => {
+      const { assetInIndex, assetOutIndex } = swaps[i];
+      deltas[assetInIndex] = deltas[assetInIndex].add(event.amountIn);
+      deltas[assetOutIndex] = deltas[assetOutIndex].sub(event.amountOut);
+    });
+
+    return { assets, deltas, events, receipt };
+  }
+
+  /**
+   * Arguments of a `swap` call, for callers that need to send it themselves (e.g. relayers). Funds are taken from and
+   * sent to `defaultSender` unless the params say otherwise.
+   */
+  swapArgs(params: SingleSwap, defaultSender: string): SwapArgs {
+    const singleSwap = {
+      poolId: params.poolId,
+      kind: params.kind,
+      assetIn: this._assetAddress(params.in, params.tokens),
+      assetOut: this._assetAddress(params.out, params.tokens),
+      amount: params.amount,
+      userData: params.data ?? '0x',
+    };
+
+    const funds = this._buildFundManagement(params, defaultSender);
+    const limit = params.limit ?? (params.kind === SWAP_KIND.GIVEN_IN ? 0 : MAX_UINT256);
+    return [singleSwap, funds, limit, params.deadline ?? MAX_UINT256];
+  }
+
+  /**
+   * Arguments of a `batchSwap` call, for callers that need to send it themselves (e.g. relayers). Funds are taken from
+   * and sent to `defaultSender` unless the params say otherwise.
+   */
+  batchSwapArgs(params: BatchSwap, defaultSender: string): BatchSwapArgs {
+    const { assets, swaps } = this._buildBatchSwapSteps(params.swaps, params.tokens);
+    const funds = this._buildFundManagement(params, defaultSender);
+    const limits = params.limits ?? Array(assets.length).fill(MAX_INT256);
+    return [params.kind, swaps, assets, funds, limits, params.deadline ?? MAX_UINT256];
+  }
+
+  async queryBatchSwap(params: QueryBatchSwap): Promise<QueryBatchSwapResult> {
+    const { assets, swaps } = this._buildBatchSwapSteps(params.swaps, params.tokens);
+    const funds = this._buildFundManagement(params, ZERO_ADDRESS);
+    const deltas = await this.instance.queryBatchSwap(params.kind, swaps, assets, funds);
+    return { assets, deltas };
+  }
+
   async joinPool(params: JoinPool): Promise<ContractTransaction> {
     const vault = params.from ? this.instance.connect(params.from) : this.instance;
     return this.mocked
@@ -112,6 +271,118 @@ export default class Vault {
         });
   }
 
+  async getInternalBalance(user: Account, tokens: TokenList | string[]): Promise<BigNumber[]> {
+    const addresses = Array.isArray(tokens) ? tokens : tokens.addresses;
+    return this.instance.getInternalBalance(TypesConverter.toAddress(user), addresses);
+  }
+
+  async depositToInternalBalance(params: UserBalanceTransfer): Promise<ManageUserBalanceResult> {
+    return this._manageUserBalance(UserBalanceOpKind.DEPOSIT_INTERNAL, params);
+  }
+
+  async withdrawFromInternalBalance(params: UserBalanceTransfer): Promise<ManageUserBalanceResult> {
+    return this._manageUserBalance(UserBalanceOpKind.WITHDRAW_INTERNAL, params);
+  }
+
+  async transferInternalBalance(params: UserBalanceTransfer): Promise<ManageUserBalanceResult> {
+    return this._manageUserBalance(UserBalanceOpKind.TRANSFER_INTERNAL, params);
+  }
+
+  async transferToExternalBalance(params: UserBalanceTransfer): Promise<ManageUserBalanceResult> {
+    return this._manageUserBalance(UserBalanceOpKind.TRANSFER_EXTERNAL, params);
+  }
+
+  async manageUserBalance(
+    ops: UserBalanceOp[],
+    { value, from }: ManageUserBalanceParams = {}
+  ): Promise<ManageUserBalanceResult> {
+    // Ops are sent by the caller unless told otherwise, which allows relayers to act on behalf of other users
+    const caller = from || (await this._defaultSender());
+    const userBalanceOps = ops.map((op) => {
+      const sender = op.sender ? TypesConverter.toAddress(op.sender) : caller.address;
+      return {
+        kind: op.kind,
+        asset: typeof op.asset === 'string' ? op.asset : op.asset.address,
+        amount: op.amount,
+        sender,
+        recipient: op.recipient ? TypesConverter.toAddress(op.recipient) : sender,
+      };
+    });
+
+    // ETH deposits are paid with the transaction value by default, any excess would be refunded by the Vault
+    const ethDeposits = userBalanceOps
+      .filter(({ kind, asset }) => kind === UserBalanceOpKind.DEPOSIT_INTERNAL && asset === ETH_TOKEN_ADDRESS)
+      .reduce((total, { amount }) => total.add(amount), bn(0));
+
+    const vault = this.instance.connect(caller);
+    const tx = await vault.manageUserBalance(userBalanceOps, { value: value ?? ethDeposits });
+    const receipt = await tx.wait();
+
+    return {
+      internalBalanceChanges: this._parseInternalBalanceChangedEvents(receipt),
+      externalBalanceTransfers: this._parseExternalBalanceTransferEvents(receipt),
+      receipt,
+    };
+  }
+
+  async withdrawFromPoolManaged(
+    poolId: string,
+    transfer: AssetManagerTransfer,
+    { from }: TxParams = {}
+  ): Promise<ManagePoolBalanceResult> {
+    return this.managePoolBalance([{ kind: PoolBalanceOpKind.WITHDRAW, poolId, ...transfer }], { from });
+  }
+
+  async depositToPoolManaged(
+    poolId: string,
+    transfer: AssetManagerTransfer,
+    { from }: TxParams = {}
+  ): Promise<ManagePoolBalanceResult> {
+    return this.managePoolBalance([{ kind: PoolBalanceOpKind.DEPOSIT, poolId, ...transfer }], { from });
+  }
+
+  async updatePoolManagedBalance(
+    poolId: string,
+    transfer: AssetManagerTransfer,
+    { from }: TxParams = {}
+  ): Promise<ManagePoolBalanceResult> {
+    return this.managePoolBalance([{ kind: PoolBalanceOpKind.UPDATE, poolId, ...transfer }], { from });
+  }
+
+  async managePoolBalance(ops: PoolBalanceOp[], { from }: TxParams = {}): Promise<ManagePoolBalanceResult> {
+    const poolBalanceOps = ops.map(({ kind, poolId, token, amount }) => ({
+      kind,
+      poolId,
+      token: typeof token === 'string' ? token : token.address,
+      amount,
+    }));
+
+    // Only the asset manager of each token can manage its balance, so the sender must be explicit in most cases
+    const vault = this.instance.connect(from || (await this._defaultSender()));
+    const tx = await vault.managePoolBalance(poolBalanceOps);
+    const receipt = await tx.wait();
+    return { events: this._parsePoolBalanceManagedEvents(receipt), receipt };
+  }
+
+  async flashLoan(
+    recipient: Account,
+    tokens: TokenList | string[],
+    amounts: BigNumberish[],
+    userData = '0x',
+    { from }: TxParams = {}
+  ): Promise<FlashLoanResult> {
+    // The Vault rounds fee amounts up, so the charged percentage can be slightly higher than the configured one
+    const flashLoanFeePercentage = await this.getFlashLoanFeePercentage();
+    const feeAmounts = amounts.map((amount) => divCeil(bn(amount).mul(flashLoanFeePercentage), FP_SCALING_FACTOR));
+
+    const vault = from ? this.instance.connect(from) : this.instance;
+    const addresses = Array.isArray(tokens) ? tokens : tokens.addresses;
+    const tx = await vault.flashLoan(TypesConverter.toAddress(recipient), addresses, amounts, userData);
+    const receipt = await tx.wait();
+
+    return { feeAmounts, events: this._parseFlashLoanEvents(receipt), receipt };
+  }
+
   async getCollectedFeeAmounts(tokens: TokenList | string[]): Promise<BigNumber[]> {
     const feesCollector = await this.getFeesCollector();
     return feesCollector.getCollectedFeeAmounts(Array.isArray(tokens) ? tokens : tokens.addresses);
@@ -180,12 +451,158 @@ export default class Vault {
     return instance.setFlashLoanFeePercentage(flashLoanFeePercentage);
   }
 
+  async getNextNonce(user: Account): Promise<BigNumber> {
+    return this.instance.getNextNonce(TypesConverter.toAddress(user));
+  }
+
+  async hasApprovedRelayer(user: Account, relayer: Account): Promise<boolean> {
+    return this.instance.hasApprovedRelayer(TypesConverter.toAddress(user), TypesConverter.toAddress(relayer));
+  }
+
+  async setRelayerApproval(
+    user: SignerWithAddress,
+    relayer: Account,
+    approved: boolean,
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const vault = this.instance.connect(from || user);
+    return vault.setRelayerApproval(user.address, TypesConverter.toAddress(relayer), approved);
+  }
+
+  async getPermissionsTargets(): Promise<PermissionsTarget[]> {
+    return [
+      { name: 'Vault', contract: this.instance, methods: PERMISSIONED_METHODS.Vault },
+      {
+        name: 'ProtocolFeesCollector',
+        contract: await this.getFeesCollector(),
+        methods: PERMISSIONED_METHODS.ProtocolFeesCollector,
+      },
+    ];
+  }
+
   async grantRole(actionId: string, to?: Account): Promise<ContractTransaction> {
     if (!this.authorizer || !this.admin) throw Error("Missing Vault's authorizer or admin instance");
     if (!to) to = await this._defaultSender();
     return this.authorizer.connect(this.admin).grantRole(actionId, TypesConverter.toAddress(to));
   }
 
+  private _poolTokensOrder(specialization: PoolSpecializationSetting, tokens: string[]): number[] {
+    if (tokens.some((token) => token === ZERO_ADDRESS)) throw Error('Pool tokens cannot be the zero address');
+
+    const normalized = tokens.map((token) => token.toLowerCase());
+    if (new Set(normalized).size !== normalized.length) throw Error('Pool tokens must be unique');
+
+    const indexes = tokens.map((_, i) => i);
+    if (specialization !== TwoTokenPool) return indexes;
+
+    if (tokens.length !== 2) throw Error('Two token pools require exactly two tokens');
+    return indexes.sort((a, b) => (normalized[a] > normalized[b] ? 1 : -1));
+  }
+
+  private _buildBatchSwapSteps(
+    steps: BatchSwapStep[],
+    tokens?: TokenList
+  ): { assets: string[]; swaps: BatchSwapStepData[] } {
+    // Assets follow the token list order when one is given, so deltas can be matched against token indexes
+    const assets: string[] = tokens ? [...tokens.addresses] : [];
+    const indexOf = (asset: SwapAsset): number => {
+      // Indexes are not checked against the token list, so that swaps referencing unknown assets can be built
+      if (typeof asset === 'number' && tokens) return asset;
+      const address = this._assetAddress(asset, tokens);
+      if (!assets.includes(address)) assets.push(address);
+      return assets.indexOf(address);
+    };
+
+    const swaps = steps.map((step) => ({
+      poolId: step.poolId,
+      assetInIndex: indexOf(step.in),
+      assetOutIndex: indexOf(step.out),
+      amount: step.amount,
+      userData: step.data ?? '0x',
+    }));
+
+    return { assets, swaps };
+  }
+
+  private _buildFundManagement(
+    params: { sender?: Account; recipient?: Account; fromInternalBalance?: boolean; toInternalBalance?: boolean },
+    defaultSender: string
+  ): FundManagement {
+    const sender = params.sender ? TypesConverter.toAddress(params.sender) : defaultSender;
+    return {
+      sender,
+      recipient: params.recipient ? TypesConverter.toAddress(params.recipient) : sender,
+      fromInternalBalance: params.fromInternalBalance ?? false,
+      toInternalBalance: params.toInternalBalance ?? false,
+    };
+  }
+
+  private _assetAddress(asset: SwapAsset, tokens?: TokenList): string {
+    if (typeof asset === 'string') return asset;
+    if (typeof asset !== 'number') return asset.address;
+    if (!tokens) throw Error('A token list is required to reference swap assets by index');
+    return tokens.get(asset).address;
+  }
+
+  private _parseSwapEvents(receipt: ContractReceipt): SwapEvent[] {
+    return (receipt.events || [])
+      .filter((event) => event.event === 'Swap')
+      .map(({ args }) => ({
+        poolId: args?.poolId,
+        tokenIn: args?.tokenIn,
+        tokenOut: args?.tokenOut,
+        amountIn: args?.amountIn,
+        amountOut: args?.amountOut,
+      }));
+  }
+
+  private async _manageUserBalance(
+    kind: UserBalanceOpKind,
+    { value, from, ...op }: UserBalanceTransfer
+  ): Promise<ManageUserBalanceResult> {
+    return this.manageUserBalance([{ kind, ...op }], { value, from });
+  }
+
+  private _parseInternalBalanceChangedEvents(receipt: ContractReceipt): InternalBalanceChangedEvent[] {
+    return (receipt.events || [])
+      .filter((event) => event.event === 'InternalBalanceChanged')
+      .map(({ args }) => ({ user: args?.user, token: args?.token, delta: args?.delta }));
+  }
+
+  private _parseExternalBalanceTransferEvents(receipt: ContractReceipt): ExternalBalanceTransferEvent[] {
+    return (receipt.events || [])
+      .filter((event) => event.event === 'ExternalBalanceTransfer')
+      .map(({ args }) => ({
+        token: args?.token,
+        sender: args?.sender,
+        recipient: args?.recipient,
+        amount: args?.amount,
+      }));
+  }
+
+  private _parsePoolBalanceManagedEvents(receipt: ContractReceipt): PoolBalanceManagedEvent[] {
+    return (receipt.events || [])
+      .filter((event) => event.event === 'PoolBalanceManaged')
+      .map(({ args }) => ({
+        poolId: args?.poolId,
+        assetManager: args?.assetManager,
+        token: args?.token,
+        cashDelta: args?.cashDelta,
+        managedDelta: args?.managedDelta,
+      }));
+  }
+
+  private _parseFlashLoanEvents(receipt: ContractReceipt): FlashLoanEvent[] {
+    return (receipt.events || [])
+      .filter((event) => event.event === 'FlashLoan')
+      .map(({ args }) => ({
+        recipient: args?.recipient,
+        token: args?.token,
+        amount: args?.amount,
+        feeAmount: args?.feeAmount,
+      }));
+  }
+
   async _defaultSender(): Promise<SignerWithAddress> {
     const signers = await ethers.getSigners();
     return signers[0];
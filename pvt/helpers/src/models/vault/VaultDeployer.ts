@@ -23,7 +23,7 @@ export default {
 
   async _deployReal(deployment: VaultDeployment, authorizer: Contract): Promise<Contract> {
     const { from, pauseWindowDuration, bufferPeriodDuration } = deployment;
-    const weth = await TokensDeployer.deployToken({ symbol: 'WETH' });
+    const weth = deployment.WETH ?? (await TokensDeployer.deployToken({ symbol: 'WETH' }));
     const args = [authorizer.address, weth.address, pauseWindowDuration, bufferPeriodDuration];
     return deploy('v2-vault/Vault', { args, from });
   },
@@ -0,0 +1,180 @@
+import { BigNumber } from 'ethers';
+
+import Vault from './Vault';
+import TokenList from '../tokens/TokenList';
+import TypesConverter from '../types/TypesConverter';
+import { Account } from '../types/types';
+import { BigNumberish, bn } from '../../numbers';
+
+type Balances = { [token: string]: BigNumber };
+
+/**
+ * Reference model of the Vault accounting: pool balances, users' internal balances and protocol fees collected by the
+ * Vault. Amounts decided by pools (swap, join and exit amounts and their protocol fees) must be fed into it, while the
+ * way the Vault moves them around is modeled, so it can be compared against the actual state after every operation.
+ */
+export default class VaultLedger {
+  poolBalances: { [poolId: string]: Balances };
+  internalBalances: { [user: string]: Balances };
+  collectedFees: Balances;
+
+  /**
+   * Builds a ledger mirroring the current state of the Vault. Only the given pools and users are tracked, so they must
+   * be the only ones holding balances in the Vault.
+   */
+  static async fromVault(vault: Vault, tokens: TokenList, poolIds: string[], users: Account[]): Promise<VaultLedger> {
+    const ledger = new VaultLedger();
+
+    for (const poolId of poolIds) {
+      const { tokens: poolTokens, balances } = await vault.getPoolTokens(poolId);
+      poolTokens.forEach((token, i) => ledger._set(ledger._poolBalances(poolId), token, balances[i]));
+    }
+
+    for (const user of users) {
+      const balances = await vault.getInternalBalance(user, tokens);
+      tokens.addresses.forEach((token, i) => ledger._set(ledger._internalBalances(user), token, balances[i]));
+    }
+
+    const fees = await vault.getCollectedFeeAmounts(tokens);
+    tokens.addresses.forEach((token, i) => ledger._set(ledger.collectedFees, token, fees[i]));
+    return ledger;
+  }
+
+  constructor() {
+    this.poolBalances = {};
+    this.internalBalances = {};
+    this.collectedFees = {};
+  }
+
+  poolBalance(poolId: string, token: string): BigNumber {
+    return this._get(this._poolBalances(poolId), token);
+  }
+
+  internalBalance(user: Account, token: string): BigNumber {
+    return this._get(this._internalBalances(user), token);
+  }
+
+  collectedFee(token: string): BigNumber {
+    return this._get(this.collectedFees, token);
+  }
+
+  /**
+   * Amount of `token` the Vault must hold: the sum of every pool balance and every internal balance of the token.
+   */
+  vaultHoldings(token: string): BigNumber {
+    const pools = Object.values(this.poolBalances).reduce(
+      (total, balances) => total.add(this._get(balances, token)),
+      bn(0)
+    );
+    const users = Object.values(this.internalBalances).reduce(
+      (total, balances) => total.add(this._get(balances, token)),
+      bn(0)
+    );
+    return pools.add(users);
+  }
+
+  depositToInternalBalance(user: Account, token: string, amount: BigNumberish): void {
+    this._add(this._internalBalances(user), token, amount);
+  }
+
+  withdrawFromInternalBalance(user: Account, token: string, amount: BigNumberish): void {
+    this._sub(this._internalBalances(user), token, amount, 'INSUFFICIENT_INTERNAL_BALANCE');
+  }
+
+  transferInternalBalance(sender: Account, recipient: Account, token: string, amount: BigNumberish): void {
+    this.withdrawFromInternalBalance(sender, token, amount);
+    this.depositToInternalBalance(recipient, token, amount);
+  }
+
+  /**
+   * Tokens paid by `sender`. When using internal balance, as much as possible is taken from it and the rest is pulled
+   * from the sender's tokens.
+   */
+  receive(sender: Account, token: string, amount: BigNumberish, fromInternalBalance = false): void {
+    if (!fromInternalBalance) return;
+    const taken = bn(amount).lt(this.internalBalance(sender, token)) ? bn(amount) : this.internalBalance(sender, token);
+    this.withdrawFromInternalBalance(sender, token, taken);
+  }
+
+  send(recipient: Account, token: string, amount: BigNumberish, toInternalBalance = false): void {
+    if (toInternalBalance) this.depositToInternalBalance(recipient, token, amount);
+  }
+
+  join(
+    poolId: string,
+    sender: Account,
+    tokens: string[],
+    amountsIn: BigNumberish[],
+    protocolFeeAmounts: BigNumberish[],
+    fromInternalBalance = false
+  ): void {
+    tokens.forEach((token, i) => {
+      this.receive(sender, token, amountsIn[i], fromInternalBalance);
+      this._add(this._poolBalances(poolId), token, amountsIn[i]);
+      this._payFee(poolId, token, protocolFeeAmounts[i]);
+    });
+  }
+
+  exit(
+    poolId: string,
+    recipient: Account,
+    tokens: string[],
+    amountsOut: BigNumberish[],
+    protocolFeeAmounts: BigNumberish[],
+    toInternalBalance = false
+  ): void {
+    tokens.forEach((token, i) => {
+      this._sub(this._poolBalances(poolId), token, amountsOut[i], 'INSUFFICIENT_POOL_BALANCE');
+      this._payFee(poolId, token, protocolFeeAmounts[i]);
+      this.send(recipient, token, amountsOut[i], toInternalBalance);
+    });
+  }
+
+  /**
+   * Pool side of a swap. The settlement with the trader is modeled separately through `receive` and `send`, since
+   * batch swaps settle net amounts.
+   */
+  swap(poolId: string, tokenIn: string, tokenOut: string, amountIn: BigNumberish, amountOut: BigNumberish): void {
+    this._add(this._poolBalances(poolId), tokenIn, amountIn);
+    this._sub(this._poolBalances(poolId), tokenOut, amountOut, 'INSUFFICIENT_POOL_BALANCE');
+  }
+
+  flashLoan(token: string, feeAmount: BigNumberish): void {
+    this._add(this.collectedFees, token, feeAmount);
+  }
+
+  private _payFee(poolId: string, token: string, feeAmount: BigNumberish): void {
+    this._sub(this._poolBalances(poolId), token, feeAmount, 'INSUFFICIENT_POOL_BALANCE');
+    this._add(this.collectedFees, token, feeAmount);
+  }
+
+  private _poolBalances(poolId: string): Balances {
+    const id = poolId.toLowerCase();
+    if (!this.poolBalances[id]) this.poolBalances[id] = {};
+    return this.poolBalances[id];
+  }
+
+  private _internalBalances(user: Account): Balances {
+    const address = TypesConverter.toAddress(user).toLowerCase();
+    if (!this.internalBalances[address]) this.internalBalances[address] = {};
+    return this.internalBalances[address];
+  }
+
+  private _get(balances: Balances, token: string): BigNumber {
+    return balances[token.toLowerCase()] ?? bn(0);
+  }
+
+  private _set(balances: Balances, token: string, amount: BigNumberish): void {
+    balances[token.toLowerCase()] = bn(amount);
+  }
+
+  private _add(balances: Balances, token: string, amount: BigNumberish): void {
+    this._set(balances, token, this._get(balances, token).add(amount));
+  }
+
+  private _sub(balances: Balances, token: string, amount: BigNumberish, error: string): void {
+    const balance = this._get(balances, token);
+    if (balance.lt(amount)) throw Error(error);
+    this._set(balances, token, balance.sub(amount));
+  }
+}
@@ -0,0 +1,12 @@
+export enum UserBalanceOpKind {
+  DEPOSIT_INTERNAL,
+  WITHDRAW_INTERNAL,
+  TRANSFER_INTERNAL,
+  TRANSFER_EXTERNAL,
+}
+
+export enum PoolBalanceOpKind {
+  WITHDRAW,
+  DEPOSIT,
+  UPDATE,
+}
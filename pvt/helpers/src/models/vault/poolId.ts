@@ -0,0 +1,57 @@
+import { BigNumber, utils } from 'ethers';
+
+import { BigNumberish, bn, maxUint } from '../../numbers';
+import { GeneralPool, MinimalSwapInfoPool, PoolSpecializationSetting, TwoTokenPool } from './pools';
+
+const MAX_NONCE = maxUint(80);
+
+export type PoolIdInfo = {
+  address: string;
+  specialization: PoolSpecializationSetting;
+  nonce: BigNumber;
+};
+
+/**
+ * Pool IDs have the following layout, see `PoolRegistry._toPoolId`:
+ * | 20 bytes pool contract address | 2 bytes specialization setting | 10 bytes nonce |
+ */
+export function encodePoolId(address: string, specialization: PoolSpecializationSetting, nonce: BigNumberish): string {
+  if (!utils.isAddress(address)) throw Error(`Invalid pool address ${address}`);
+  if (!isSpecialization(specialization)) throw Error(`Invalid pool specialization setting ${specialization}`);
+  if (bn(nonce).isNegative() || bn(nonce).gt(MAX_NONCE)) throw Error(`Invalid pool nonce ${nonce.toString()}`);
+
+  return utils.hexConcat([
+    utils.getAddress(address),
+    utils.hexZeroPad(utils.hexlify(specialization), 2),
+    utils.hexZeroPad(bn(nonce).toHexString(), 10),
+  ]);
+}
+
+export function decodePoolId(poolId: string): PoolIdInfo {
+  if (!utils.isHexString(poolId, 32)) throw Error(`Invalid pool ID ${poolId}`);
+
+  const specialization = bn(utils.hexDataSlice(poolId, 20, 22)).toNumber();
+  if (!isSpecialization(specialization)) throw Error(`Invalid pool specialization setting in pool ID ${poolId}`);
+
+  return {
+    address: utils.getAddress(utils.hexDataSlice(poolId, 0, 20)),
+    specialization,
+    nonce: bn(utils.hexDataSlice(poolId, 22, 32)),
+  };
+}
+
+/**
+ * Tells whether a pool ID was generated for the given pool address and specialization setting
+ */
+export function isPoolIdOf(poolId: string, address: string, specialization: PoolSpecializationSetting): boolean {
+  try {
+    const info = decodePoolId(poolId);
+    return info.address.toLowerCase() === address.toLowerCase() && info.specialization === specialization;
+  } catch {
+    return false;
+  }
+}
+
+function isSpecialization(value: number): value is PoolSpecializationSetting {
+  return [GeneralPool, MinimalSwapInfoPool, TwoTokenPool].includes(value);
+}
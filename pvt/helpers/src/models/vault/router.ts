@@ -0,0 +1,267 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn, fp } from '../../numbers';
+import { complement, divUp, mulDown, mulUp } from '../../fixedPoint';
+import { Swap, SWAP_KIND } from './swaps';
+
+import * as WeightedMath from '../pools/weighted/math';
+import * as StableMath from '../pools/stable/math';
+
+const MAX_IN_RATIO = fp(0.3);
+const MAX_OUT_RATIO = fp(0.3);
+
+const DEFAULT_MAX_HOPS = 3;
+const DEFAULT_SPLITS = 10;
+
+export type WeightedRouterPool = {
+  kind: 'WeightedPool' | 'WeightedPool2Tokens';
+  poolId: string;
+  tokens: string[];
+  balances: BigNumberish[];
+  weights: BigNumberish[];
+  swapFeePercentage: BigNumberish;
+};
+
+export type StableRouterPool = {
+  kind: 'StablePool';
+  poolId: string;
+  tokens: string[];
+  balances: BigNumberish[];
+  amplificationParameter: BigNumberish;
+  swapFeePercentage: BigNumberish;
+};
+
+export type RouterPool = WeightedRouterPool | StableRouterPool;
+
+export type RouteRequest = {
+  kind: number;
+  tokenIn: string;
+  tokenOut: string;
+  amount: BigNumberish;
+  maxHops?: number;
+  splits?: number;
+};
+
+export type Route = {
+  assets: string[];
+  swaps: Swap[];
+  returnAmount: BigNumber;
+};
+
+type Hop = { pool: number; tokenIn: number; tokenOut: number };
+
+type Path = Hop[];
+
+/**
+ * Finds the route that maximizes the amount out (given in) or minimizes the amount in (given out) for a trade through
+ * the given pools. The amount is split in equal parts, each of them added to the path that gives the best result for
+ * the whole route once the previous parts have been allocated.
+ */
+export function findRoute(pools: RouterPool[], request: RouteRequest): Route {
+  const { kind, tokenIn, tokenOut } = request;
+  const amount = bn(request.amount);
+  const splits = request.splits ?? DEFAULT_SPLITS;
+
+  const paths = findPaths(pools, tokenIn, tokenOut, request.maxHops ?? DEFAULT_MAX_HOPS);
+  if (paths.length == 0) throw Error('No path found between the requested tokens');
+
+  let allocations = paths.map(() => bn(0));
+  let returnAmount: BigNumber | undefined;
+  const partAmount = amount.div(splits);
+
+  for (let i = 0; i < splits; i++) {
+    // The last part takes the remainder of the division
+    const part = i == splits - 1 ? amount.sub(partAmount.mul(splits - 1)) : partAmount;
+    if (part.isZero()) continue;
+
+    let best: { allocations: BigNumber[]; returnAmount: BigNumber } | undefined;
+    paths.forEach((_, index) => {
+      const candidate = allocations.map((allocation, j) => (j == index ? allocation.add(part) : allocation));
+      const candidateReturnAmount = simulateRoute(pools, paths, kind, candidate);
+      if (candidateReturnAmount && (!best || isBetter(kind, candidateReturnAmount, best.returnAmount))) {
+        best = { allocations: candidate, returnAmount: candidateReturnAmount };
+      }
+    });
+
+    if (!best) throw Error('Requested amount cannot be routed through the given pools');
+    ({ allocations, returnAmount } = best);
+  }
+
+  const assets: string[] = [];
+  const swaps: Swap[] = [];
+  paths.forEach((path, index) => {
+    if (!allocations[index].isZero()) swaps.push(...buildSwaps(pools, path, kind, allocations[index], assets));
+  });
+
+  return { assets, swaps, returnAmount: returnAmount ?? bn(0) };
+}
+
+/**
+ * Returns the total amount out (given in) or in (given out) of sending each allocation through its path, one after
+ * the other and in the same order the Vault will execute them. Returns undefined if any of the swaps would revert.
+ */
+function simulateRoute(
+  pools: RouterPool[],
+  paths: Path[],
+  kind: number,
+  allocations: BigNumber[]
+): BigNumber | undefined {
+  const balances = pools.map((pool) => pool.balances.map(bn));
+  let returnAmount = bn(0);
+
+  for (let index = 0; index < paths.length; index++) {
+    if (allocations[index].isZero()) continue;
+
+    const path = paths[index];
+    const amounts = simulatePath(pools, balances, path, kind, allocations[index]);
+    if (!amounts) return undefined;
+
+    applyPath(balances, path, amounts);
+    returnAmount = returnAmount.add(kind == SWAP_KIND.GIVEN_IN ? amounts[path.length] : amounts[0]);
+  }
+
+  return returnAmount;
+}
+
+function findPaths(pools: RouterPool[], tokenIn: string, tokenOut: string, maxHops: number): Path[] {
+  const paths: Path[] = [];
+
+  // Paths never go through the same token or the same pool twice
+  const visit = (token: string, path: Path, visitedTokens: string[]) => {
+    if (path.length == maxHops) return;
+
+    pools.forEach((pool, poolIndex) => {
+      if (path.some((hop) => hop.pool == poolIndex)) return;
+
+      const indexIn = pool.tokens.findIndex((poolToken) => sameAddress(poolToken, token));
+      if (indexIn < 0) return;
+
+      pool.tokens.forEach((nextToken, indexOut) => {
+        if (visitedTokens.some((visitedToken) => sameAddress(visitedToken, nextToken))) return;
+
+        const nextPath = [...path, { pool: poolIndex, tokenIn: indexIn, tokenOut: indexOut }];
+        if (sameAddress(nextToken, tokenOut)) paths.push(nextPath);
+        else visit(nextToken, nextPath, [...visitedTokens, nextToken]);
+      });
+    });
+  };
+
+  visit(tokenIn, [], [tokenIn]);
+  return paths;
+}
+
+/**
+ * Returns the amounts of every token along the path, where the first one is sent to the first pool and the last one
+ * is received from the last pool.
+ */
+function simulatePath(
+  pools: RouterPool[],
+  balances: BigNumber[][],
+  path: Path,
+  kind: number,
+  amount: BigNumber
+): BigNumber[] | undefined {
+  const amounts: BigNumber[] = [];
+
+  if (kind == SWAP_KIND.GIVEN_IN) {
+    amounts[0] = amount;
+    for (let i = 0; i < path.length; i++) {
+      const { pool, tokenIn, tokenOut } = path[i];
+      const amountOut = swapGivenIn(pools[pool], balances[pool], tokenIn, tokenOut, amounts[i]);
+      if (!amountOut) return undefined;
+      amounts[i + 1] = amountOut;
+    }
+  } else {
+    amounts[path.length] = amount;
+    for (let i = path.length - 1; i >= 0; i--) {
+      const { pool, tokenIn, tokenOut } = path[i];
+      const amountIn = swapGivenOut(pools[pool], balances[pool], tokenIn, tokenOut, amounts[i + 1]);
+      if (!amountIn) return undefined;
+      amounts[i] = amountIn;
+    }
+  }
+
+  return amounts;
+}
+
+function applyPath(balances: BigNumber[][], path: Path, amounts: BigNumber[]): void {
+  path.forEach(({ pool, tokenIn, tokenOut }, i) => {
+    balances[pool][tokenIn] = balances[pool][tokenIn].add(amounts[i]);
+    balances[pool][tokenOut] = balances[pool][tokenOut].sub(amounts[i + 1]);
+  });
+}
+
+function isBetter(kind: number, returnAmount: BigNumber, currentReturnAmount: BigNumber): boolean {
+  return kind == SWAP_KIND.GIVEN_IN ? returnAmount.gt(currentReturnAmount) : returnAmount.lt(currentReturnAmount);
+}
+
+function buildSwaps(pools: RouterPool[], path: Path, kind: number, amount: BigNumber, assets: string[]): Swap[] {
+  const indexOf = (asset: string): number => {
+    if (!assets.includes(asset)) assets.push(asset);
+    return assets.indexOf(asset);
+  };
+
+  // Only the first swap specifies an amount, the following ones are multihops. Given out paths are swapped backwards.
+  const hops = kind == SWAP_KIND.GIVEN_IN ? path : [...path].reverse();
+  return hops.map(({ pool, tokenIn, tokenOut }, i) => ({
+    poolId: pools[pool].poolId,
+    assetInIndex: indexOf(pools[pool].tokens[tokenIn]),
+    assetOutIndex: indexOf(pools[pool].tokens[tokenOut]),
+    amount: i == 0 ? amount : 0,
+    userData: '0x',
+  }));
+}
+
+function swapGivenIn(
+  pool: RouterPool,
+  balances: BigNumber[],
+  tokenIn: number,
+  tokenOut: number,
+  amountIn: BigNumber
+): BigNumber | undefined {
+  // Pools subtract the swap fee from the amount in before computing the amount out
+  const amountInWithoutFees = amountIn.sub(mulUp(amountIn, pool.swapFeePercentage));
+
+  let amountOut: BigNumber;
+  if (pool.kind == 'StablePool') {
+    const { amplificationParameter } = pool;
+    amountOut = bn(StableMath.calcOutGivenIn(balances, amplificationParameter, tokenIn, tokenOut, amountInWithoutFees));
+  } else {
+    if (amountInWithoutFees.gt(mulDown(balances[tokenIn], MAX_IN_RATIO))) return undefined;
+    const [weightIn, weightOut] = [pool.weights[tokenIn], pool.weights[tokenOut]];
+    const [balanceIn, balanceOut] = [balances[tokenIn], balances[tokenOut]];
+    amountOut = bn(WeightedMath.calcOutGivenIn(balanceIn, weightIn, balanceOut, weightOut, amountInWithoutFees));
+  }
+
+  return amountOut.isNegative() || amountOut.gte(balances[tokenOut]) ? undefined : amountOut;
+}
+
+function swapGivenOut(
+  pool: RouterPool,
+  balances: BigNumber[],
+  tokenIn: number,
+  tokenOut: number,
+  amountOut: BigNumber
+): BigNumber | undefined {
+  if (amountOut.gte(balances[tokenOut])) return undefined;
+
+  let amountInWithoutFees: BigNumber;
+  if (pool.kind == 'StablePool') {
+    const { amplificationParameter } = pool;
+    amountInWithoutFees = bn(
+      StableMath.calcInGivenOut(balances, amplificationParameter, tokenIn, tokenOut, amountOut).ceil()
+    );
+  } else {
+    if (amountOut.gt(mulDown(balances[tokenOut], MAX_OUT_RATIO))) return undefined;
+    const [weightIn, weightOut] = [pool.weights[tokenIn], pool.weights[tokenOut]];
+    const [balanceIn, balanceOut] = [balances[tokenIn], balances[tokenOut]];
+    amountInWithoutFees = bn(WeightedMath.calcInGivenOut(balanceIn, weightIn, balanceOut, weightOut, amountOut).ceil());
+  }
+
+  // Pools add the swap fee to the amount in once it has been computed
+  return amountInWithoutFees.isNegative() ? undefined : divUp(amountInWithoutFees, complement(pool.swapFeePercentage));
+}
+
+function sameAddress(address: string, anotherAddress: string): boolean {
+  return address.toLowerCase() == anotherAddress.toLowerCase();
+}
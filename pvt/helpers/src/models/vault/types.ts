@@ -1,10 +1,16 @@
+import { BigNumber, ContractReceipt } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
+import Token from '../tokens/Token';
+import TokenList from '../tokens/TokenList';
 import { Account } from '../types/types';
 import { BigNumberish } from '../../numbers';
+import { PoolBalanceOpKind, UserBalanceOpKind } from './balances';
+import { FundManagement, Swap as BatchSwapStepData } from './swaps';
 
 export type RawVaultDeployment = {
   mocked?: boolean;
+  WETH?: Token;
   admin?: SignerWithAddress;
   pauseWindowDuration?: BigNumberish;
   bufferPeriodDuration?: BigNumberish;
@@ -13,6 +19,7 @@ export type RawVaultDeployment = {
 
 export type VaultDeployment = {
   mocked: boolean;
+  WETH?: Token;
   pauseWindowDuration: BigNumberish;
   bufferPeriodDuration: BigNumberish;
   admin?: SignerWithAddress;
@@ -61,3 +68,177 @@ export type ExitPool = {
   toInternalBalance?: boolean;
   from?: SignerWithAddress;
 };
+
+export type SwapAsset = number | Token | string;
+
+export type SingleSwap = {
+  kind: number;
+  poolId: string;
+  in: SwapAsset;
+  out: SwapAsset;
+  amount: BigNumberish;
+  tokens?: TokenList;
+  data?: string;
+  limit?: BigNumberish;
+  deadline?: BigNumberish;
+  value?: BigNumberish;
+  sender?: Account;
+  recipient?: Account;
+  fromInternalBalance?: boolean;
+  toInternalBalance?: boolean;
+  from?: SignerWithAddress;
+};
+
+export type BatchSwapStep = {
+  poolId: string;
+  in: SwapAsset;
+  out: SwapAsset;
+  amount: BigNumberish;
+  data?: string;
+};
+
+export type BatchSwap = {
+  kind: number;
+  swaps: BatchSwapStep[];
+  tokens?: TokenList;
+  limits?: BigNumberish[];
+  deadline?: BigNumberish;
+  value?: BigNumberish;
+  sender?: Account;
+  recipient?: Account;
+  fromInternalBalance?: boolean;
+  toInternalBalance?: boolean;
+  from?: SignerWithAddress;
+};
+
+export type QueryBatchSwap = {
+  kind: number;
+  swaps: BatchSwapStep[];
+  tokens?: TokenList;
+  sender?: Account;
+  recipient?: Account;
+  fromInternalBalance?: boolean;
+  toInternalBalance?: boolean;
+};
+
+export type SwapArgs = [
+  { poolId: string; kind: number; assetIn: string; assetOut: string; amount: BigNumberish; userData: string },
+  FundManagement,
+  BigNumberish,
+  BigNumberish
+];
+
+export type BatchSwapArgs = [number, BatchSwapStepData[], string[], FundManagement, BigNumberish[], BigNumberish];
+
+export type SwapEvent = {
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: BigNumber;
+  amountOut: BigNumber;
+};
+
+export type SingleSwapResult = {
+  amountCalculated: BigNumber;
+  event: SwapEvent;
+  receipt: ContractReceipt;
+};
+
+export type BatchSwapResult = {
+  assets: string[];
+  deltas: BigNumber[];
+  events: SwapEvent[];
+  receipt: ContractReceipt;
+};
+
+export type QueryBatchSwapResult = {
+  assets: string[];
+  deltas: BigNumber[];
+};
+
+export type FlashLoanRecipientBehavior = 'RepayExactly' | 'Underpay' | 'Overpay' | 'Reenter' | 'Revert';
+
+export type RawFlashLoanRecipientDeployment = {
+  behavior?: FlashLoanRecipientBehavior;
+  from?: SignerWithAddress;
+};
+
+export type FlashLoanEvent = {
+  recipient: string;
+  token: string;
+  amount: BigNumber;
+  feeAmount: BigNumber;
+};
+
+export type FlashLoanResult = {
+  feeAmounts: BigNumber[];
+  events: FlashLoanEvent[];
+  receipt: ContractReceipt;
+};
+
+export type UserBalanceOp = {
+  kind: UserBalanceOpKind;
+  asset: Token | string;
+  amount: BigNumberish;
+  sender?: Account;
+  recipient?: Account;
+};
+
+export type UserBalanceTransfer = {
+  asset: Token | string;
+  amount: BigNumberish;
+  sender?: Account;
+  recipient?: Account;
+  value?: BigNumberish;
+  from?: SignerWithAddress;
+};
+
+export type ManageUserBalanceParams = {
+  value?: BigNumberish;
+  from?: SignerWithAddress;
+};
+
+export type InternalBalanceChangedEvent = {
+  user: string;
+  token: string;
+  delta: BigNumber;
+};
+
+export type ExternalBalanceTransferEvent = {
+  token: string;
+  sender: string;
+  recipient: string;
+  amount: BigNumber;
+};
+
+export type ManageUserBalanceResult = {
+  internalBalanceChanges: InternalBalanceChangedEvent[];
+  externalBalanceTransfers: ExternalBalanceTransferEvent[];
+  receipt: ContractReceipt;
+};
+
+export type PoolBalanceOp = {
+  kind: PoolBalanceOpKind;
+  poolId: string;
+  token: Token | string;
+  amount: BigNumberish;
+};
+
+export type PoolBalanceManagedEvent = {
+  poolId: string;
+  assetManager: string;
+  token: string;
+  cashDelta: BigNumber;
+  managedDelta: BigNumber;
+};
+
+export type ManagePoolBalanceResult = {
+  events: PoolBalanceManagedEvent[];
+  receipt: ContractReceipt;
+};
+
+export type RelayedCall = {
+  authorizedBy?: SignerWithAddress;
+  deadline?: BigNumberish;
+  value?: BigNumberish;
+};
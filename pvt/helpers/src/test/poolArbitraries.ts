@@ -0,0 +1,152 @@
+import { BigNumber } from 'ethers';
+
+import { fp, bn } from '../numbers';
+import { Arbitrary, array, bigNumber, integer, map, record } from './property';
+
+// Arbitraries generating pool states and operations within the limits enforced by the pool contracts
+
+export const MIN_WEIGHT = fp(0.01);
+export const MAX_IN_RATIO = fp(0.3);
+export const MAX_OUT_RATIO = fp(0.3);
+export const MIN_INVARIANT_RATIO = fp(0.7);
+export const MAX_INVARIANT_RATIO = fp(3);
+export const MIN_SWAP_FEE_PERCENTAGE = fp(0.000001);
+export const MAX_SWAP_FEE_PERCENTAGE = fp(0.1);
+export const MIN_AMP = fp(1);
+export const MAX_AMP = fp(5000);
+
+// Amounts below this ratio of the balances are dominated by rounding, which makes relative comparisons meaningless
+export const MIN_AMOUNT_RATIO = fp(0.000001);
+
+export type WeightedMathState = {
+  balances: BigNumber[];
+  weights: BigNumber[];
+  totalSupply: BigNumber;
+  swapFeePercentage: BigNumber;
+};
+
+export type StableMathState = {
+  balances: BigNumber[];
+  amp: BigNumber;
+  totalSupply: BigNumber;
+  swapFeePercentage: BigNumber;
+};
+
+export type SwapCase<State> = {
+  state: State;
+  tokenIn: number;
+  tokenOut: number;
+  ratio: BigNumber;
+};
+
+export type SingleTokenCase<State> = {
+  state: State;
+  token: number;
+  ratio: BigNumber;
+};
+
+export type MultiTokenCase<State> = {
+  state: State;
+  ratios: BigNumber[];
+};
+
+export const balance = bigNumber(fp(1), fp(1e9));
+export const totalSupply = bigNumber(fp(1), fp(1e9));
+export const swapFeePercentage = bigNumber(MIN_SWAP_FEE_PERCENTAGE, MAX_SWAP_FEE_PERCENTAGE);
+
+export function weightedMathState(maxTokens = 8): Arbitrary<WeightedMathState> {
+  const token = record({ balance, weight: integer(1, 100) });
+  const raw = record({ tokens: array(token, 2, maxTokens), totalSupply, swapFeePercentage });
+
+  return map(raw, ({ tokens, ...rest }) => ({
+    balances: tokens.map((token) => token.balance),
+    weights: normalizeWeights(tokens.map((token) => token.weight)),
+    ...rest,
+  }));
+}
+
+/**
+ * Stable pools hold pegged tokens, so balances are generated within a factor of two of a common base balance.
+ */
+export function stableMathState(maxTokens = 5): Arbitrary<StableMathState> {
+  const multipliers = array(bigNumber(fp(0.5), fp(2)), 2, maxTokens);
+  const raw = record({ base: balance, multipliers, amp: bigNumber(MIN_AMP, MAX_AMP), totalSupply, swapFeePercentage });
+
+  return map(raw, ({ base, multipliers, ...rest }) => ({
+    balances: multipliers.map((multiplier) => base.mul(multiplier).div(fp(1))),
+    ...rest,
+  }));
+}
+
+/**
+ * Swaps between two different tokens of the state. `ratio` is the fraction of the balance of the given token (token in
+ * for given in swaps, token out for given out swaps) to be swapped, and never exceeds the maximum swap ratios.
+ */
+export function swapCase<State extends { balances: BigNumber[] }>(
+  state: Arbitrary<State>,
+  ratio: Arbitrary<BigNumber> = swapRatio()
+): Arbitrary<SwapCase<State>> {
+  const raw = record({ state, tokenIn: integer(0, 7), tokenOut: integer(0, 6), ratio });
+
+  return map(raw, ({ state, tokenIn, tokenOut, ratio }) => {
+    const numTokens = state.balances.length;
+    const indexIn = tokenIn % numTokens;
+    const indexOut = (indexIn + 1 + (tokenOut % (numTokens - 1))) % numTokens;
+    return { state, tokenIn: indexIn, tokenOut: indexOut, ratio };
+  });
+}
+
+export function singleTokenCase<State extends { balances: BigNumber[] }>(
+  state: Arbitrary<State>,
+  ratio: Arbitrary<BigNumber>
+): Arbitrary<SingleTokenCase<State>> {
+  const raw = record({ state, token: integer(0, 7), ratio });
+  return map(raw, ({ state, token, ratio }) => ({ state, token: token % state.balances.length, ratio }));
+}
+
+/**
+ * Operations on every token of the state, with one ratio per token. Shrinking the state can drop tokens, in which case
+ * the ratios of the dropped ones are dropped as well.
+ */
+export function multiTokenCase<State extends { balances: BigNumber[] }>(
+  state: Arbitrary<State>,
+  ratio: Arbitrary<BigNumber>
+): Arbitrary<MultiTokenCase<State>> {
+  return {
+    generate: (random) => {
+      const generated = state.generate(random);
+      return { state: generated, ratios: generated.balances.map(() => ratio.generate(random)) };
+    },
+    shrink: ({ state: current, ratios }) => [
+      ...state.shrink(current).map((shrunk) => ({ state: shrunk, ratios: ratios.slice(0, shrunk.balances.length) })),
+      ...array(ratio, ratios.length, ratios.length)
+        .shrink(ratios)
+        .map((shrunk) => ({ state: current, ratios: shrunk })),
+    ],
+  };
+}
+
+export function swapRatio(minRatio = MIN_AMOUNT_RATIO): Arbitrary<BigNumber> {
+  return bigNumber(minRatio, MAX_IN_RATIO);
+}
+
+/**
+ * Ratios of the balances for joins and exits, small enough for the resulting invariant ratio to stay within the
+ * allowed bounds for any weights.
+ */
+export function joinExitRatio(minRatio = MIN_AMOUNT_RATIO): Arbitrary<BigNumber> {
+  return bigNumber(minRatio, fp(0.25));
+}
+
+/**
+ * Turns positive integer seeds into normalized weights adding up to ONE, none of them lower than MIN_WEIGHT.
+ */
+export function normalizeWeights(seeds: number[]): BigNumber[] {
+  const sum = seeds.reduce((total, seed) => total + seed, 0);
+  const distributable = fp(1).sub(MIN_WEIGHT.mul(seeds.length));
+  const weights = seeds.map((seed) => MIN_WEIGHT.add(distributable.mul(seed).div(sum)));
+
+  const remainder = fp(1).sub(weights.reduce((total, weight) => total.add(weight), bn(0)));
+  weights[0] = weights[0].add(remainder);
+  return weights;
+}
@@ -0,0 +1,242 @@
+import { BigNumber } from 'ethers';
+
+import { BigNumberish, bn } from '../numbers';
+
+/**
+ * Minimal property-based testing toolkit: arbitraries generate random values from a seeded source and know how to
+ * shrink them, and `checkProperty` runs a property against many generated values, shrinking the first failing one to a
+ * minimal counterexample.
+ */
+export type Arbitrary<T> = {
+  generate(random: Random): T;
+  shrink(value: T): T[];
+};
+
+export type PropertyOptions = {
+  runs?: number;
+  seed?: number;
+  maxShrinks?: number;
+};
+
+const DEFAULT_RUNS = 50;
+const DEFAULT_MAX_SHRINKS = 200;
+const DEFAULT_SEED = 1;
+
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // mulberry32
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  bigNumber(min: BigNumberish, max: BigNumberish): BigNumber {
+    const range = bn(max).sub(min).add(1);
+    let value = bn(0);
+    for (let i = 0; i < Math.ceil(range.toHexString().length / 6) + 1; i++) {
+      value = value.mul(1 << 24).add(Math.floor(this.next() * (1 << 24)));
+    }
+    return bn(min).add(value.mod(range));
+  }
+}
+
+export function constant<T>(value: T): Arbitrary<T> {
+  return { generate: () => value, shrink: () => [] };
+}
+
+export function integer(min: number, max: number): Arbitrary<number> {
+  return {
+    generate: (random) => random.integer(min, max),
+    shrink: (value) => {
+      const candidates = value > min ? [min] : [];
+      for (let delta = Math.floor((value - min) / 2); delta > 0; delta = Math.floor(delta / 2))
+        candidates.push(value - delta);
+      return candidates;
+    },
+  };
+}
+
+/**
+ * Generates numbers between `min` and `max` (both inclusive). Values are uniformly distributed in order of magnitude
+ * rather than in value, so that small values are generated as often as large ones. Shrinks towards `min`.
+ */
+export function bigNumber(min: BigNumberish, max: BigNumberish): Arbitrary<BigNumber> {
+  const lower = bn(min);
+  const upper = bn(max);
+
+  const minDigits = lower.toString().length;
+  const maxDigits = upper.toString().length;
+
+  return {
+    generate: (random) => {
+      const digits = random.integer(minDigits, maxDigits);
+      const floor = digits === minDigits ? lower : bn(10).pow(digits - 1);
+      const ceiling = digits === maxDigits ? upper : bn(10).pow(digits).sub(1);
+      return random.bigNumber(floor, ceiling);
+    },
+    shrink: (value) => {
+      // Try the lower bound first, and then values approaching the shrunk one from below by halving distances
+      const candidates = value.gt(lower) ? [lower] : [];
+      for (let delta = value.sub(lower).div(2); delta.gt(0); delta = delta.div(2)) candidates.push(value.sub(delta));
+      return candidates;
+    },
+  };
+}
+
+export function array<T>(element: Arbitrary<T>, minLength: number, maxLength: number): Arbitrary<T[]> {
+  return {
+    generate: (random) => Array.from({ length: random.integer(minLength, maxLength) }, () => element.generate(random)),
+    shrink: (values) => {
+      const shorter = values.length > minLength ? [values.slice(0, -1)] : [];
+      const smaller = values.flatMap((value, i) =>
+        element.shrink(value).map((shrunk) => [...values.slice(0, i), shrunk, ...values.slice(i + 1)])
+      );
+      return [...shorter, ...smaller];
+    },
+  };
+}
+
+export function record<T extends Record<string, unknown>>(shape: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> {
+  const keys = Object.keys(shape) as (keyof T)[];
+
+  return {
+    generate: (random) => keys.reduce((value, key) => ({ ...value, [key]: shape[key].generate(random) }), {} as T),
+    shrink: (value) =>
+      keys.flatMap((key) => shape[key].shrink(value[key]).map((shrunk) => ({ ...value, [key]: shrunk }))),
+  };
+}
+
+/**
+ * Derives an arbitrary of objects from another one. Shrinking happens on the source values, which are tracked for every
+ * derived object, so `mapper` must be deterministic and return a new object on every call.
+ */
+export function map<S, T extends Record<string, unknown>>(source: Arbitrary<S>, mapper: (value: S) => T): Arbitrary<T> {
+  const sources = new WeakMap<T, S>();
+  const wrap = (value: S): T => {
+    const mapped = mapper(value);
+    sources.set(mapped, value);
+    return mapped;
+  };
+
+  return {
+    generate: (random) => wrap(source.generate(random)),
+    shrink: (value) => {
+      const original = sources.get(value);
+      return original === undefined ? [] : source.shrink(original).map(wrap);
+    },
+  };
+}
+
+/**
+ * Only keeps the generated (and shrunk) values that satisfy `predicate`. Generation is retried a bounded number of
+ * times, so the predicate must hold for a reasonable share of the source values.
+ */
+export function filter<T>(source: Arbitrary<T>, predicate: (value: T) => boolean): Arbitrary<T> {
+  return {
+    generate: (random) => {
+      for (let i = 0; i < 100; i++) {
+        const value = source.generate(random);
+        if (predicate(value)) return value;
+      }
+      throw Error('Could not generate a value satisfying the filter');
+    },
+    shrink: (value) => source.shrink(value).filter(predicate),
+  };
+}
+
+/**
+ * Runs `property` against `runs` values generated by `arbitrary`. A property fails by throwing (e.g. a failed
+ * assertion) or by returning `false`. The first failing value is shrunk, and the error reports the minimal
+ * counterexample found along with the seed to replay the run, which can also be set through the `PROPERTY_SEED`
+ * environment variable.
+ */
+export async function checkProperty<T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<boolean | void> | boolean | void,
+  options: PropertyOptions = {}
+): Promise<void> {
+  const seed = resolveSeed(options.seed);
+  const runs = options.runs ?? DEFAULT_RUNS;
+  const random = new Random(seed);
+
+  for (let run = 0; run < runs; run++) {
+    const value = arbitrary.generate(random);
+    const failure = await runProperty(property, value);
+    if (!failure) continue;
+
+    const { counterexample, error, shrinks } = await shrinkFailure(arbitrary, property, value, failure, options);
+    throw Error(
+      `Property failed after ${run + 1} runs (seed: ${seed}, shrinks: ${shrinks})\n` +
+        `Counterexample: ${serialize(counterexample)}\n` +
+        `Error: ${error.message}`
+    );
+  }
+}
+
+/**
+ * Seed for a randomized run: the given one if any, then the one set through the `PROPERTY_SEED` environment variable,
+ * or a fixed one otherwise so that runs are reproducible.
+ */
+export function resolveSeed(seed?: number): number {
+  if (seed !== undefined) return seed;
+  return process.env.PROPERTY_SEED ? Number(process.env.PROPERTY_SEED) : DEFAULT_SEED;
+}
+
+/**
+ * JSON representation of generated values, with numbers in base 10.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, x) => (x && x.type === 'BigNumber' ? BigNumber.from(x).toString() : x));
+}
+
+async function shrinkFailure<T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<boolean | void> | boolean | void,
+  value: T,
+  error: Error,
+  options: PropertyOptions
+): Promise<{ counterexample: T; error: Error; shrinks: number }> {
+  const maxShrinks = options.maxShrinks ?? DEFAULT_MAX_SHRINKS;
+  let shrinks = 0;
+  let shrunk = true;
+
+  while (shrunk && shrinks < maxShrinks) {
+    shrunk = false;
+    for (const candidate of arbitrary.shrink(value)) {
+      const failure = await runProperty(property, candidate);
+      if (failure) {
+        value = candidate;
+        error = failure;
+        shrinks++;
+        shrunk = true;
+        break;
+      }
+    }
+  }
+
+  return { counterexample: value, error, shrinks };
+}
+
+async function runProperty<T>(
+  property: (value: T) => Promise<boolean | void> | boolean | void,
+  value: T
+): Promise<Error | undefined> {
+  try {
+    const result = await property(value);
+    return result === false ? Error('Property returned false') : undefined;
+  } catch (error) {
+    return error instanceof Error ? error : Error(String(error));
+  }
+}
@@ -0,0 +1,451 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../models/vault/Vault';
+import VaultLedger from '../models/vault/VaultLedger';
+import FlashLoanRecipient from '../models/vault/FlashLoanRecipient';
+import TokenList from '../models/tokens/TokenList';
+import StablePool from '../models/pools/stable/StablePool';
+import WeightedPool from '../models/pools/weighted/WeightedPool';
+import { SWAP_KIND } from '../models/vault/swaps';
+import { BatchSwapStep } from '../models/vault/types';
+import { BigNumberish, bn, fp } from '../numbers';
+import { Random, resolveSeed, serialize } from './property';
+
+// Stateful fuzzing of the Vault: random sequences of operations are run by several users against a set of pools, and
+// the Vault state is checked against a reference `VaultLedger` after every step.
+
+export type FuzzedPool = WeightedPool | StablePool;
+
+export type VaultFuzzingEnvironment = {
+  vault: Vault;
+  tokens: TokenList;
+  pools: FuzzedPool[];
+  users: SignerWithAddress[];
+  flashLoanRecipient?: FlashLoanRecipient;
+};
+
+export type VaultFuzzingOptions = {
+  seed?: number;
+  steps?: number;
+};
+
+export type VaultFuzzingResult = {
+  seed: number;
+  operations: VaultOperation[];
+  reverted: number;
+};
+
+// Operations reference pools, users and tokens by arbitrary indexes, which are taken modulo the available ones, and
+// amounts as ratios of the relevant balances. This keeps them meaningful for any environment and state.
+export type VaultOperation =
+  | { kind: 'Join'; pool: number; user: number; ratio: BigNumber }
+  | { kind: 'Exit'; pool: number; user: number; ratio: BigNumber; token?: number }
+  | {
+      kind: 'Swap';
+      pool: number;
+      user: number;
+      tokenIn: number;
+      tokenOut: number;
+      ratio: BigNumber;
+      givenIn: boolean;
+      fromInternalBalance: boolean;
+      toInternalBalance: boolean;
+    }
+  | {
+      kind: 'BatchSwap';
+      pools: number[];
+      user: number;
+      tokens: number[];
+      ratio: BigNumber;
+      fromInternalBalance: boolean;
+      toInternalBalance: boolean;
+    }
+  | { kind: 'DepositInternal'; user: number; token: number; ratio: BigNumber }
+  | { kind: 'WithdrawInternal'; user: number; token: number; ratio: BigNumber }
+  | { kind: 'TransferInternal'; user: number; recipient: number; token: number; ratio: BigNumber }
+  | { kind: 'FlashLoan'; token: number; ratio: BigNumber };
+
+export type VaultFuzzingPoolsDeployer = (vault: Vault, tokens: TokenList) => Promise<FuzzedPool[]>;
+
+const DEFAULT_STEPS = 50;
+const MAX_INDEX = 2 ** 16;
+const MIN_RATIO = fp(0.001);
+const MAX_RATIO = fp(0.2);
+
+const SUITE_STEPS = 60;
+
+/**
+ * Fuzzing suite shared by every pool type. `deployPools` must deploy at least one pool holding every token and another
+ * one holding the first two, which the fixed sequence of operations relies on.
+ */
+export function describeVaultFuzzing(title: string, deployPools: VaultFuzzingPoolsDeployer): void {
+  describe(title, function () {
+    let admin: SignerWithAddress, minter: SignerWithAddress, lp: SignerWithAddress, other: SignerWithAddress;
+    let users: SignerWithAddress[];
+    let environment: VaultFuzzingEnvironment;
+
+    before('setup signers', async () => {
+      let signers: SignerWithAddress[];
+      [, admin, minter, lp, other, ...signers] = await ethers.getSigners();
+      users = signers.slice(0, 3);
+    });
+
+    sharedBeforeEach('deploy vault, tokens and pools', async () => {
+      const vault = await Vault.create({ admin });
+      await vault.setSwapFeePercentage(fp(0.1));
+      await vault.setFlashLoanFeePercentage(fp(0.01));
+
+      const tokens = await TokenList.create(['DAI', 'MKR', 'SNX'], { from: minter, sorted: true });
+      await tokens.mint({ from: minter, to: [lp, ...users], amount: fp(1000) });
+      await tokens.approve({ from: [lp, ...users], to: vault.address });
+
+      const pools = await deployPools(vault, tokens);
+      for (const pool of pools) await pool.init({ from: lp, initialBalances: fp(100) });
+
+      // The recipient will mint the fees it pays
+      const flashLoanRecipient = await FlashLoanRecipient.create(vault.address, { from: other });
+      const MINTER_ROLE = ethers.utils.id('MINTER_ROLE');
+      await tokens.asyncEach((token) =>
+        token.instance.connect(minter).grantRole(MINTER_ROLE, flashLoanRecipient.address)
+      );
+
+      environment = { vault, tokens, pools, users, flashLoanRecipient };
+    });
+
+    it('keeps the Vault accounting consistent', async () => {
+      const { reverted } = await fuzzVault(environment, { steps: SUITE_STEPS });
+
+      // Rejected operations cannot break the accounting, so most of them must go through for the run to be meaningful
+      expect(reverted).to.be.lte(SUITE_STEPS / 2);
+    });
+
+    it('keeps the Vault accounting consistent using internal balances', async () => {
+      const operations: VaultOperation[] = [
+        { kind: 'Join', pool: 0, user: 0, ratio: fp(0.1) },
+        { kind: 'DepositInternal', user: 0, token: 1, ratio: fp(0.2) },
+        {
+          kind: 'Swap',
+          pool: 0,
+          user: 0,
+          tokenIn: 1,
+          tokenOut: 0,
+          ratio: fp(0.05),
+          givenIn: false,
+          fromInternalBalance: true,
+          toInternalBalance: true,
+        },
+        {
+          kind: 'BatchSwap',
+          pools: [1, 0],
+          user: 1,
+          tokens: [0, 0, 0],
+          ratio: fp(0.1),
+          fromInternalBalance: false,
+          toInternalBalance: true,
+        },
+        { kind: 'TransferInternal', user: 1, recipient: 2, token: 1, ratio: fp(0.5) },
+        { kind: 'WithdrawInternal', user: 2, token: 1, ratio: fp(0.5) },
+        { kind: 'FlashLoan', token: 2, ratio: fp(0.2) },
+        { kind: 'Exit', pool: 0, user: 0, ratio: fp(0.5), token: 2 },
+        { kind: 'Exit', pool: 0, user: 0, ratio: fp(0.5) },
+      ];
+
+      const { reverted } = await runVaultOperations(environment, operations);
+      expect(reverted).to.equal(0);
+    });
+  });
+}
+
+/**
+ * Runs a random sequence of operations generated from `seed`. Since the sequence only depends on the seed, failures can
+ * be replayed by running again with the seed reported in the error, or turned into regression tests by passing the
+ * reported operations to `runVaultOperations`.
+ */
+export async function fuzzVault(
+  environment: VaultFuzzingEnvironment,
+  { seed, steps }: VaultFuzzingOptions = {}
+): Promise<VaultFuzzingResult> {
+  seed = resolveSeed(seed);
+  const operations = generateVaultOperations(seed, steps ?? DEFAULT_STEPS);
+
+  try {
+    const { reverted } = await runVaultOperations(environment, operations);
+    return { seed, operations, reverted };
+  } catch (error) {
+    throw Error(`${error.message}\nSeed: ${seed}`);
+  }
+}
+
+export function generateVaultOperations(seed: number, steps: number): VaultOperation[] {
+  const random = new Random(seed);
+  const index = () => random.integer(0, MAX_INDEX);
+  const ratio = () => random.bigNumber(MIN_RATIO, MAX_RATIO);
+  const flag = () => random.next() < 0.5;
+
+  const generators: (() => VaultOperation)[] = [
+    () => ({ kind: 'Join', pool: index(), user: index(), ratio: ratio() }),
+    () => ({ kind: 'Exit', pool: index(), user: index(), ratio: ratio(), token: flag() ? index() : undefined }),
+    () => ({
+      kind: 'Swap',
+      pool: index(),
+      user: index(),
+      tokenIn: index(),
+      tokenOut: index(),
+      ratio: ratio(),
+      givenIn: flag(),
+      fromInternalBalance: flag(),
+      toInternalBalance: flag(),
+    }),
+    () => ({
+      kind: 'BatchSwap',
+      pools: [index(), index()],
+      user: index(),
+      tokens: [index(), index(), index()],
+      ratio: ratio(),
+      fromInternalBalance: flag(),
+      toInternalBalance: flag(),
+    }),
+    () => ({ kind: 'DepositInternal', user: index(), token: index(), ratio: ratio() }),
+    () => ({ kind: 'WithdrawInternal', user: index(), token: index(), ratio: ratio() }),
+    () => ({ kind: 'TransferInternal', user: index(), recipient: index(), token: index(), ratio: ratio() }),
+    () => ({ kind: 'FlashLoan', token: index(), ratio: ratio() }),
+  ];
+
+  return Array.from({ length: steps }, () => generators[random.integer(0, generators.length - 1)]());
+}
+
+/**
+ * Runs the given operations in order, checking the Vault state after each of them. Operations rejected by the Vault or
+ * the pools are skipped, as they must not change any state.
+ */
+export async function runVaultOperations(
+  environment: VaultFuzzingEnvironment,
+  operations: VaultOperation[]
+): Promise<{ reverted: number }> {
+  const { vault, tokens, pools, users } = environment;
+  const ledger = await VaultLedger.fromVault(
+    vault,
+    tokens,
+    pools.map((pool) => pool.poolId),
+    users
+  );
+
+  let reverted = 0;
+  for (let step = 0; step < operations.length; step++) {
+    try {
+      if (!(await executeOperation(environment, ledger, operations[step]))) reverted++;
+      await expectVaultMatchesLedger(environment, ledger);
+    } catch (error) {
+      throw Error(
+        `Vault fuzzing failed at step ${step}\n` +
+          `Operations: ${serialize(operations.slice(0, step + 1))}\n` +
+          `Error: ${error.message}`
+      );
+    }
+  }
+
+  return { reverted };
+}
+
+/**
+ * Checks the Vault state against the ledger. Besides pool and internal balances, the token holdings of the Vault must
+ * add up to the sum of all pool balances and internal balances, and those of the protocol fees collector to the
+ * collected fees.
+ */
+export async function expectVaultMatchesLedger(
+  { vault, tokens, pools, users }: VaultFuzzingEnvironment,
+  ledger: VaultLedger
+): Promise<void> {
+  for (const pool of pools) {
+    const { tokens: poolTokens, balances } = await vault.getPoolTokens(pool.poolId);
+    poolTokens.forEach((token, i) => {
+      expect(balances[i], `pool ${pool.poolId} balance of ${token}`).to.equal(ledger.poolBalance(pool.poolId, token));
+    });
+  }
+
+  for (const user of users) {
+    const balances = await vault.getInternalBalance(user, tokens);
+    tokens.addresses.forEach((token, i) => {
+      expect(balances[i], `internal balance of ${user.address} in ${token}`).to.equal(
+        ledger.internalBalance(user, token)
+      );
+    });
+  }
+
+  const feesCollector = await vault.getFeesCollector();
+  await tokens.asyncEach(async (token) => {
+    expect(await token.balanceOf(vault.address), `Vault holdings of ${token.symbol}`).to.equal(
+      ledger.vaultHoldings(token.address)
+    );
+    expect(await token.balanceOf(feesCollector), `collected fees of ${token.symbol}`).to.equal(
+      ledger.collectedFee(token.address)
+    );
+  });
+}
+
+// Returns false if the operation was rejected
+async function executeOperation(
+  environment: VaultFuzzingEnvironment,
+  ledger: VaultLedger,
+  operation: VaultOperation
+): Promise<boolean> {
+  const run = OPERATIONS[operation.kind] as OperationRunner<VaultOperation>;
+
+  try {
+    await run(environment, ledger, operation);
+    return true;
+  } catch (error) {
+    if (isRevert(error)) return false;
+    throw error;
+  }
+}
+
+type OperationRunner<T extends VaultOperation> = (
+  environment: VaultFuzzingEnvironment,
+  ledger: VaultLedger,
+  operation: T
+) => Promise<void>;
+
+const OPERATIONS: { [K in VaultOperation['kind']]: OperationRunner<Extract<VaultOperation, { kind: K }>> } = {
+  async Join({ pools, users }, ledger, { pool: poolIndex, user: userIndex, ratio }) {
+    const pool = pick(pools, poolIndex);
+    const user = pick(users, userIndex);
+    const { tokens } = await pool.getTokens();
+
+    const amountsIn = pool.tokens.map((token) => share(ledger.poolBalance(pool.poolId, token.address), ratio));
+    const { amountsIn: deltas, dueProtocolFeeAmounts } = await pool.joinGivenIn({ from: user, amountsIn });
+    ledger.join(pool.poolId, user, tokens, deltas, dueProtocolFeeAmounts);
+  },
+
+  async Exit({ pools, users }, ledger, { pool: poolIndex, user: userIndex, ratio, token }) {
+    const pool = pick(pools, poolIndex);
+    const user = pick(users, userIndex);
+    const { tokens } = await pool.getTokens();
+
+    const bptIn = share(await pool.balanceOf(user), ratio);
+    const { amountsOut, dueProtocolFeeAmounts } =
+      token === undefined
+        ? await pool.multiExitGivenIn({ from: user, bptIn })
+        : await pool.singleExitGivenIn({ from: user, bptIn, token: token % pool.tokens.length });
+    ledger.exit(pool.poolId, user, tokens, amountsOut, dueProtocolFeeAmounts);
+  },
+
+  async Swap({ vault, pools, users }, ledger, operation) {
+    const pool = pick(pools, operation.pool);
+    const user = pick(users, operation.user);
+    const [tokenIn, tokenOut] = pickPair(pool.tokens, operation.tokenIn, operation.tokenOut);
+    const { fromInternalBalance, toInternalBalance } = operation;
+
+    const kind = operation.givenIn ? SWAP_KIND.GIVEN_IN : SWAP_KIND.GIVEN_OUT;
+    const givenToken = operation.givenIn ? tokenIn : tokenOut;
+    const amount = share(ledger.poolBalance(pool.poolId, givenToken), operation.ratio);
+
+    const { event } = await vault.swap({
+      kind,
+      poolId: pool.poolId,
+      in: tokenIn,
+      out: tokenOut,
+      amount,
+      from: user,
+      fromInternalBalance,
+      toInternalBalance,
+    });
+
+    ledger.swap(pool.poolId, tokenIn, tokenOut, event.amountIn, event.amountOut);
+    ledger.receive(user, tokenIn, event.amountIn, fromInternalBalance);
+    ledger.send(user, tokenOut, event.amountOut, toInternalBalance);
+  },
+
+  async BatchSwap({ vault, pools, users }, ledger, operation) {
+    const user = pick(users, operation.user);
+    const { fromInternalBalance, toInternalBalance } = operation;
+
+    // Hops from token in to token out through the first pool, and then from there to a third token through the second
+    // pool whenever it holds the intermediate token
+    const [first, second] = operation.pools.map((index) => pick(pools, index));
+    const [tokenIn, tokenMid] = pickPair(first.tokens, operation.tokens[0], operation.tokens[1]);
+    const amount = share(ledger.poolBalance(first.poolId, tokenIn), operation.ratio);
+    const swaps: BatchSwapStep[] = [{ poolId: first.poolId, in: tokenIn, out: tokenMid, amount }];
+
+    const midIndex = second.tokens.addresses.indexOf(tokenMid);
+    if (second !== first && midIndex >= 0) {
+      const [, tokenOut] = pickPair(second.tokens, midIndex, operation.tokens[2]);
+      swaps.push({ poolId: second.poolId, in: tokenMid, out: tokenOut, amount: 0 });
+    }
+
+    const { assets, deltas, events } = await vault.batchSwap({
+      kind: SWAP_KIND.GIVEN_IN,
+      swaps,
+      from: user,
+      fromInternalBalance,
+      toInternalBalance,
+    });
+
+    events.forEach((event) =>
+      ledger.swap(event.poolId, event.tokenIn, event.tokenOut, event.amountIn, event.amountOut)
+    );
+    assets.forEach((asset, i) => {
+      if (deltas[i].gt(0)) ledger.receive(user, asset, deltas[i], fromInternalBalance);
+      else ledger.send(user, asset, deltas[i].mul(-1), toInternalBalance);
+    });
+  },
+
+  async DepositInternal({ vault, tokens, users }, ledger, { user: userIndex, token: tokenIndex, ratio }) {
+    const user = pick(users, userIndex);
+    const token = tokens.get(tokenIndex % tokens.length);
+
+    const amount = share(await token.balanceOf(user), ratio);
+    await vault.depositToInternalBalance({ asset: token, amount, from: user });
+    ledger.depositToInternalBalance(user, token.address, amount);
+  },
+
+  async WithdrawInternal({ vault, tokens, users }, ledger, { user: userIndex, token: tokenIndex, ratio }) {
+    const user = pick(users, userIndex);
+    const token = tokens.get(tokenIndex % tokens.length);
+
+    const amount = share(ledger.internalBalance(user, token.address), ratio);
+    await vault.withdrawFromInternalBalance({ asset: token, amount, from: user });
+    ledger.withdrawFromInternalBalance(user, token.address, amount);
+  },
+
+  async TransferInternal({ vault, tokens, users }, ledger, operation) {
+    const user = pick(users, operation.user);
+    const recipient = pick(users, operation.recipient);
+    const token = tokens.get(operation.token % tokens.length);
+
+    const amount = share(ledger.internalBalance(user, token.address), operation.ratio);
+    await vault.transferInternalBalance({ asset: token, amount, recipient, from: user });
+    ledger.transferInternalBalance(user, recipient, token.address, amount);
+  },
+
+  async FlashLoan({ vault, tokens, flashLoanRecipient }, ledger, { token: tokenIndex, ratio }) {
+    if (!flashLoanRecipient) return;
+    const token = tokens.get(tokenIndex % tokens.length);
+
+    const amount = share(await token.balanceOf(vault.address), ratio);
+    const { events } = await vault.flashLoan(flashLoanRecipient.address, [token.address], [amount]);
+    events.forEach((event) => ledger.flashLoan(event.token, event.feeAmount));
+  },
+};
+
+function pick<T>(items: T[], index: number): T {
+  return items[index % items.length];
+}
+
+// Picks two different tokens, the second one being chosen among the remaining ones
+function pickPair(tokens: TokenList, first: number, second: number): [string, string] {
+  const firstIndex = first % tokens.length;
+  const secondIndex = (firstIndex + 1 + (second % (tokens.length - 1))) % tokens.length;
+  return [tokens.addresses[firstIndex], tokens.addresses[secondIndex]];
+}
+
+function share(amount: BigNumberish, ratio: BigNumberish): BigNumber {
+  return bn(amount).mul(ratio).div(fp(1));
+}
+
+function isRevert(error: Error): boolean {
+  return error.message.includes('revert');
+}